@@ -100,6 +100,28 @@ export default function TabLayout() {
           tabPress: handleTabPress,
         }}
       />
+
+      <Tabs.Screen
+        name="settings"
+        options={{
+          title: 'Settings',
+          tabBarIcon: ({ color, focused }) => (
+            <MaterialCommunityIcons 
+              name={focused ? "cog" : "cog-outline"} 
+              size={28} 
+              color={focused ? '#FFD700' : color}
+              style={{
+                textShadowColor: focused ? '#FFD700' : 'transparent',
+                textShadowOffset: { width: 0, height: 0 },
+                textShadowRadius: focused ? 8 : 0,
+              }}
+            />
+          ),
+        }}
+        listeners={{
+          tabPress: handleTabPress,
+        }}
+      />
     </Tabs>
   )
 }
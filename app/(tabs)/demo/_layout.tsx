@@ -14,17 +14,53 @@ import {
 } from 'react-native'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 
+import { useCluster } from '@/components/cluster/cluster-provider'
 import { useWalletUi } from '@/components/solana/use-wallet-ui'
 import { useNotification } from '@/components/ui/NotificationProvider'
+import { getRaceDataSourceKind } from '@/services/backendConfig'
+import type { ConnectionQuality } from '@/services/realtimeBus'
+import { useRaceStore } from '@/store/useRaceStore'
 import { ellipsify } from '@/utils/ellipsify'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import Clipboard from '@react-native-clipboard/clipboard'
 
+const CONNECTION_QUALITY_BADGES: Record<ConnectionQuality, { label: string; color: string }> = {
+  live: { label: 'LIVE', color: '#14F195' },
+  degraded: { label: 'DEGRADED', color: '#FFB800' },
+  polling: { label: 'POLLING', color: '#FF6B6B' },
+}
+
+function ConnectionQualityBadge() {
+  const quality = useRaceStore((s) => s.connectionQuality)
+  const { label, color } = CONNECTION_QUALITY_BADGES[quality]
+
+  return (
+    <View
+      style={{ flexDirection: 'row', alignItems: 'center', marginLeft: 8 }}
+      accessibilityLabel={`Realtime connection ${label.toLowerCase()}`}
+    >
+      <View style={{ width: 6, height: 6, borderRadius: 3, backgroundColor: color, marginRight: 4 }} />
+      <Text style={{
+        fontSize: 10,
+        color,
+        fontFamily: 'Inter-SemiBold',
+        letterSpacing: 0.3,
+      }}>
+        {label}
+      </Text>
+    </View>
+  )
+}
+
 function DemoHeader() {
   const { account, disconnect } = useWalletUi()
   const insets = useSafeAreaInsets()
   const [showWalletMenu, setShowWalletMenu] = useState(false)
   const { showSuccess, showError } = useNotification()
+  // Backend outage: race data is being read directly from the program accounts
+  const dataSource = useRaceStore((s) => s.dataSource)
+  const isSimulator = getRaceDataSourceKind() === 'mock'
+  const { selectedCluster } = useCluster()
   
   const handleCopyAddress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
@@ -87,14 +123,40 @@ function DemoHeader() {
           }}>
             Momentum Madness
           </Text>
-          <Text style={{
-            fontSize: 12,
-            color: 'rgba(255,255,255,0.7)',
-            fontFamily: 'Inter-Medium',
-            letterSpacing: 0.2,
-          }}>
-            DEVNET
-          </Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Text style={{
+              fontSize: 12,
+              color: 'rgba(255,255,255,0.7)',
+              fontFamily: 'Inter-Medium',
+              letterSpacing: 0.2,
+            }}>
+              {isSimulator ? 'SIMULATOR' : selectedCluster.name.toUpperCase()}
+            </Text>
+            <ConnectionQualityBadge />
+            {dataSource === 'chain' && (
+              <View style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                marginLeft: 8,
+                paddingHorizontal: 6,
+                paddingVertical: 1,
+                borderRadius: 6,
+                backgroundColor: 'rgba(255, 184, 0, 0.15)',
+                borderWidth: 1,
+                borderColor: 'rgba(255, 184, 0, 0.4)',
+              }}>
+                <MaterialCommunityIcons name="link-variant" size={10} color="#FFB800" style={{ marginRight: 3 }} />
+                <Text style={{
+                  fontSize: 10,
+                  color: '#FFB800',
+                  fontFamily: 'Inter-SemiBold',
+                  letterSpacing: 0.3,
+                }}>
+                  ON-CHAIN
+                </Text>
+              </View>
+            )}
+          </View>
         </View>
         
         {/* Wallet Info */}
@@ -0,0 +1,12 @@
+import React from 'react'
+
+import { AppView } from '@/components/app-view'
+import { SettingsFeature } from '@/components/settings/settings-feature'
+
+export default function SettingsScreen() {
+  return (
+    <AppView style={{ flex: 1 }}>
+      <SettingsFeature />
+    </AppView>
+  )
+}
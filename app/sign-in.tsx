@@ -32,7 +32,7 @@ import CosmicBackground from '@/components/CosmicBackground'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useCluster } from '@/components/cluster/cluster-provider'
 import { AppExternalLink } from '@/components/app-external-link'
-import { apiService } from '@/services'
+import { useRaceStore } from '@/store/useRaceStore'
 
 const {width: screenWidth, height: screenHeight} = Dimensions.get('window');
 
@@ -110,6 +110,7 @@ export default function SignIn() {
   // Fetch real on-chain backed stats via backend endpoint (one-time on mount)
   useEffect(() => {
     let cancelled = false;
+    const { apiService } = useRaceStore.getState();
     const fallbackFromRace = async () => {
       try {
         const raceRes = await apiService.getCurrentRace();
@@ -16,6 +16,7 @@ import {
   Platform,
   RefreshControl,
   ScrollView,
+  Share,
   StatusBar,
   StyleSheet,
   Text,
@@ -24,9 +25,31 @@ import {
   View,
 } from 'react-native'
 
+import { useCluster } from '@/components/cluster/cluster-provider'
+import { useClaimPayout } from '@/components/demo/use-claim-payout'
+import { useAssetRegistry } from '@/hooks/use-asset-registry'
+import { PnlLineChart } from '@/components/ui/PnlLineChart'
 import { useNotification } from '@/components/ui/NotificationProvider'
+import {
+  buildBetHistoryExport,
+  EXPORT_RANGE_LABELS,
+  ExportFormat,
+  ExportRange,
+  exportRangeBounds,
+} from '@/utils/betHistoryExport'
+import { ellipsify } from '@/utils/ellipsify'
+import { computePortfolioAnalytics, PortfolioAnalytics } from '@/utils/portfolioAnalytics'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { PublicKey } from '@solana/web3.js'
 
+import { RaceState, UserBetSummary } from '../../services/backendTypes'
+import { OnChainService } from '../../services/onchainService'
+import {
+  BetHistoryRecord,
+  betTimestamp,
+  groupBetHistoryByDay,
+  queryBetHistory,
+} from '../../store/betHistory'
 import { useRaceStore } from '../../store/useRaceStore'
 import { useConnection } from '../solana/solana-provider'
 import { useWalletUi } from '../solana/use-wallet-ui'
@@ -82,6 +105,8 @@ interface UserPosition {
   raceState: 'Betting' | 'Running' | 'Settled'
   performance?: number
   timestamp?: number
+  placementSignature?: string | null
+  claimError?: string // last batch claim failure for this race
 }
 interface PortfolioStats {
   totalBets: number
@@ -318,6 +343,26 @@ const PositionCard: React.FC<{
               </View>
             )}
           </View>
+          {isHistory && position.timestamp !== undefined && (
+            <View style={styles.placementRow}>
+              <MaterialCommunityIcons name="clock-outline" size={14} color={COLORS.text.tertiary} />
+              <Text style={styles.placementText} numberOfLines={1}>
+                {new Date(position.timestamp).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+                {position.placementSignature ? `  ·  ${ellipsify(position.placementSignature, 6)}` : ''}
+              </Text>
+            </View>
+          )}
+          {position.claimError && !position.claimed && (
+            <View style={styles.claimErrorRow}>
+              <MaterialCommunityIcons name="alert-circle" size={14} color={COLORS.error} />
+              <Text style={styles.claimErrorText} numberOfLines={2}>{position.claimError}</Text>
+            </View>
+          )}
         </LinearGradient>
       </Animated.View>
     </TouchableOpacity>
@@ -486,6 +531,106 @@ const PortfolioStatsSection: React.FC<{
     </View>
   )
 })
+const PortfolioAnalyticsSection: React.FC<{
+  analytics: PortfolioAnalytics
+  assetSymbols: string[]
+  formatValue: (value: number) => string
+}> = React.memo(function PortfolioAnalyticsSection({ analytics, assetSymbols, formatValue }) {
+  const chartWidth = screenWidth - SPACING.xl * 4 - 2
+  const metrics = [
+    {
+      label: 'ROI',
+      value: analytics.roi === null ? '—' : `${analytics.roi >= 0 ? '+' : ''}${analytics.roi.toFixed(1)}%`,
+      color: (analytics.roi ?? 0) >= 0 ? COLORS.success : COLORS.error,
+    },
+    {
+      label: 'Avg Odds Won',
+      value: analytics.averageOdds === null ? '—' : `${analytics.averageOdds.toFixed(2)}x`,
+      color: COLORS.text.primary,
+    },
+    { label: 'Best Streak', value: `${analytics.streaks.longestWin}W`, color: COLORS.success },
+    { label: 'Worst Streak', value: `${analytics.streaks.longestLoss}L`, color: COLORS.error },
+    {
+      label: 'Max Drawdown',
+      value: analytics.maxDrawdown.amount > 0 ? `-${formatValue(analytics.maxDrawdown.amount)}` : formatValue(0),
+      color: analytics.maxDrawdown.amount > 0 ? COLORS.error : COLORS.text.primary,
+    },
+    {
+      label: 'Current Streak',
+      value: analytics.streaks.current
+        ? `${analytics.streaks.current.length}${analytics.streaks.current.result === 'won' ? 'W' : 'L'}`
+        : '—',
+      color: analytics.streaks.current?.result === 'won' ? COLORS.success : COLORS.error,
+    },
+  ]
+  return (
+    <View style={styles.statsSection}>
+      <LinearGradient
+        colors={['rgba(20, 241, 149, 0.15)', 'rgba(153, 69, 255, 0.15)', 'rgba(0, 0, 0, 0.85)']}
+        style={styles.statsCard}
+      >
+        <View style={styles.statsHeader}>
+          <View style={styles.statsHeaderLeft}>
+            <View style={styles.portfolioIconContainer}>
+              <MaterialCommunityIcons name="chart-areaspline" size={20} color={COLORS.secondary} />
+            </View>
+            <View>
+              <Text style={styles.statsTitle}>Performance Analytics</Text>
+              <Text style={styles.statsSubtitle}>
+                {analytics.settledBets} settled race{analytics.settledBets === 1 ? '' : 's'}
+              </Text>
+            </View>
+          </View>
+        </View>
+        <PnlLineChart
+          values={analytics.pnlSeries.map((point) => point.cumulativePnl)}
+          width={chartWidth}
+          title="Cumulative P&L"
+          formatValue={formatValue}
+        />
+        <View style={styles.statsGrid}>
+          {metrics.map(metric => (
+            <View key={metric.label} style={[styles.statItem, styles.analyticsMetric]}>
+              <Text style={[styles.statValue, { color: metric.color }]}>{metric.value}</Text>
+              <Text style={styles.statLabel}>{metric.label}</Text>
+            </View>
+          ))}
+        </View>
+        <View style={styles.additionalStats}>
+          <View style={styles.assetBreakdownList}>
+            {analytics.byAsset.map(asset => (
+              <View key={asset.assetIdx} style={styles.assetBreakdownRow}>
+                <Text style={styles.assetBreakdownSymbol}>{assetSymbols[asset.assetIdx] ?? `#${asset.assetIdx}`}</Text>
+                <View style={styles.assetBreakdownBarTrack}>
+                  <View
+                    style={[
+                      styles.assetBreakdownBar,
+                      {
+                        width: `${Math.max(2, asset.winRate)}%`,
+                        backgroundColor: asset.winRate >= 50 ? COLORS.success : COLORS.warning,
+                      },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.assetBreakdownText}>
+                  {asset.winRate.toFixed(0)}% · {asset.wins}/{asset.bets}
+                </Text>
+                <Text
+                  style={[
+                    styles.assetBreakdownText,
+                    { color: asset.netPnl >= 0 ? COLORS.success : COLORS.error },
+                  ]}
+                >
+                  {asset.netPnl >= 0 ? '+' : '-'}{formatValue(Math.abs(asset.netPnl))}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      </LinearGradient>
+    </View>
+  )
+})
 const TabNavigation: React.FC<{
   activeTab: 'active' | 'history' | 'unclaimed'
   onTabChange: (tab: 'active' | 'history' | 'unclaimed') => void
@@ -585,8 +730,11 @@ const HistorySearch: React.FC<{
   onSearchChange: (query: string) => void
   sortBy: 'date' | 'amount' | 'result'
   onSortChange: (sort: 'date' | 'amount' | 'result') => void
-}> = React.memo(({ searchQuery, onSearchChange, sortBy, onSortChange }) => {
+  onExport: (format: ExportFormat, range: ExportRange) => void
+}> = React.memo(({ searchQuery, onSearchChange, sortBy, onSortChange, onExport }) => {
   const [showSort, setShowSort] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [exportRange, setExportRange] = useState<ExportRange>('all')
   return (
     <View style={styles.searchContainer}>
       <View style={styles.searchInputContainer}>
@@ -622,11 +770,24 @@ const HistorySearch: React.FC<{
         style={styles.sortButton}
         onPress={() => {
           setShowSort(!showSort)
+          setShowExport(false)
           Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
         }}
       >
         <MaterialCommunityIcons name="sort" size={20} color={COLORS.primary} />
       </TouchableOpacity>
+      <TouchableOpacity 
+        style={styles.sortButton}
+        onPress={() => {
+          setShowExport(!showExport)
+          setShowSort(false)
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+        }}
+        accessibilityLabel="Export betting history"
+        accessibilityRole="button"
+      >
+        <MaterialCommunityIcons name="export-variant" size={20} color={COLORS.primary} />
+      </TouchableOpacity>
       {showSort && (
         <View style={styles.sortDropdown}>
           {(['date', 'amount', 'result'] as const).map(option => (
@@ -646,6 +807,38 @@ const HistorySearch: React.FC<{
           ))}
         </View>
       )}
+      {showExport && (
+        <View style={styles.sortDropdown}>
+          {(Object.keys(EXPORT_RANGE_LABELS) as ExportRange[]).map(range => (
+            <TouchableOpacity
+              key={range}
+              style={[styles.sortOption, exportRange === range && styles.selectedSortOption]}
+              onPress={() => {
+                setExportRange(range)
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+              }}
+            >
+              <Text style={[styles.sortOptionText, exportRange === range && styles.selectedSortOptionText]}>
+                {EXPORT_RANGE_LABELS[range]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.exportActions}>
+            {(['csv', 'json'] as const).map(format => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.sortOption, styles.exportAction]}
+                onPress={() => {
+                  setShowExport(false)
+                  onExport(format, exportRange)
+                }}
+              >
+                <Text style={styles.selectedSortOptionText}>Export {format.toUpperCase()}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
     </View>
   )
 })
@@ -734,13 +927,15 @@ const EmptyState: React.FC<{
   </View>
 ))
 export function AccountFeature() {
-  const { account, signAndSendTransaction } = useWalletUi()
+  const { account, signAllTransactions } = useWalletUi()
   const { showSuccess, showError } = useNotification()
   const connection = useConnection()
+  const { getExplorerUrl } = useCluster()
   // Use granular selectors to avoid re-renders on unrelated store updates
   const userBets = useRaceStore((s) => s.userBets)
   const fetchUserBets = useRaceStore((s) => s.fetchUserBets)
-  const claimPayout = useRaceStore((s) => s.claimPayout)
+  const { mutateAsync: claimPayout } = useClaimPayout()
+  const claimPayouts = useRaceStore((s) => s.claimPayouts)
   const isLoading = useRaceStore((s) => s.isLoading)
   const error = useRaceStore((s) => s.error)
   const playerAddress = account?.publicKey?.toBase58 ? account.publicKey.toBase58() : account?.publicKey?.toString?.()
@@ -749,74 +944,50 @@ export function AccountFeature() {
   const [betsLoading, setBetsLoading] = useState(false)
   const [claimAllLoading, setClaimAllLoading] = useState(false)
   const [localClaimedRaces, setLocalClaimedRaces] = useState<Set<number>>(new Set())
+  const [claimErrors, setClaimErrors] = useState<Map<number, string>>(new Map())
   const [searchQuery, setSearchQuery] = useState('')
   const [sortBy, setSortBy] = useState<'date' | 'amount' | 'result'>('date')
   const fadeAnim = useRef(new Animated.Value(0)).current
   const slideAnim = useRef(new Animated.Value(20)).current
   const isInitialLoad = useRef(true)
+  const assetRegistry = useAssetRegistry()
+  const assetSymbols = useMemo(() => assetRegistry.map((asset) => asset.symbol), [assetRegistry])
   const formatValue = useCallback((value: number) => {
     const displayValue = value / 1_000_000 
     if (displayValue >= 1000000) return `$${(displayValue / 1000000).toFixed(2)}M`
     if (displayValue >= 1000) return `$${(displayValue / 1000).toFixed(1)}K`
     return `$${displayValue.toFixed(2)}`
   }, [])
-  const groupHistoryByDate = useCallback((positions: UserPosition[]): HistoryGroup[] => {
-    const groups: { [key: string]: UserPosition[] } = {}
-    positions.forEach(position => {
-      const date = new Date(position.timestamp || Date.now()).toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
-      })
-      if (!groups[date]) {
-        groups[date] = []
-      }
-      groups[date].push(position)
-    })
-    return Object.entries(groups).map(([date, positions]) => {
-      const totalWon = positions.filter(p => p.isWinner).reduce((sum, p) => sum + (p.potentialPayout || 0), 0)
-      const totalLost = positions.filter(p => !p.isWinner).reduce((sum, p) => sum + p.amount, 0)
-      return {
-        date,
-        positions,
-        totalWon,
-        totalLost,
-        netResult: totalWon - totalLost
-      }
-    }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-  }, [])
+  const toPosition = useCallback((bet: UserBetSummary | BetHistoryRecord): UserPosition => {
+    // Do not treat SettlementReady as Settled; results may still change until fully finalized
+    const normalizedRaceState = (bet.raceState === 'SettlementReady') ? 'Running' : bet.raceState
+    return {
+      raceId: bet.raceId,
+      assetIdx: bet.assetIdx,
+      assetSymbol: assetSymbols[bet.assetIdx] || 'Unknown',
+      amount: bet.amount,
+      claimed: bet.claimed || localClaimedRaces.has(bet.raceId),
+      isWinner: bet.isWinner,
+      potentialPayout: bet.potentialPayout,
+      raceState: normalizedRaceState as any,
+      performance: bet.startPrice && bet.endPrice ? ((bet.endPrice - bet.startPrice) / bet.startPrice) * 100 : undefined,
+      timestamp: 'recordedAt' in bet ? betTimestamp(bet) : undefined,
+      placementSignature: bet.placementSignature,
+      claimError: claimErrors.get(bet.raceId),
+    }
+  }, [assetSymbols, localClaimedRaces, claimErrors])
   const userPositions = useMemo(() => {
     if (!userBets || userBets.length === 0) {
       return []
     }
-    return userBets.map(bet => {
-      // Do not treat SettlementReady as Settled; results may still change until fully finalized
-      const normalizedRaceState = (bet.raceState === 'SettlementReady') ? 'Running' : bet.raceState
-      return {
-        raceId: bet.raceId,
-        assetIdx: bet.assetIdx,
-        assetSymbol: ['BTC', 'ETH', 'SOL'][bet.assetIdx] || 'Unknown',
-        amount: bet.amount,
-        claimed: bet.claimed || localClaimedRaces.has(bet.raceId),
-        isWinner: bet.isWinner,
-        potentialPayout: bet.potentialPayout,
-        raceState: normalizedRaceState as any,
-        timestamp: (bet as any).timestamp || Date.now(), 
-      }
-    })
-  }, [userBets, localClaimedRaces])
+    return userBets.map(toPosition)
+  }, [userBets, toPosition])
   const filteredPositions = useMemo(() => {
     if (activeTab === 'active') {
       return userPositions.filter(pos => 
         pos.raceState === 'Betting' || pos.raceState === 'Running'
       )
     }
-    if (activeTab === 'history') {
-      const historyPositions = userPositions.filter(pos => 
-        pos.raceState === 'Settled'
-      )
-      return historyPositions
-    }
     if (activeTab === 'unclaimed') {
       const unclaimedPositions = userPositions.filter(pos => 
         !pos.claimed && 
@@ -827,37 +998,41 @@ export function AccountFeature() {
     }
     return userPositions
   }, [userPositions, activeTab])
+  // History search and sort run against the local bet history index rather than the in-memory list.
+  // The store republishes userBets whenever a sync lands, which is when the index has something new.
+  const historyRecords = useMemo(() => {
+    if (activeTab !== 'history' || !playerAddress || !userBets) return []
+    return queryBetHistory(playerAddress, {
+      raceStates: [RaceState.Settled],
+      search: searchQuery,
+      assetSymbols,
+      sortBy,
+    })
+  }, [activeTab, playerAddress, searchQuery, sortBy, userBets, assetSymbols])
   const processedPositions = useMemo(() => {
-    let filtered = filteredPositions
-    if (activeTab === 'history' && searchQuery) {
-      filtered = filtered.filter(pos => 
-        pos.assetSymbol.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        pos.raceId.toString().includes(searchQuery)
-      )
-    }
     if (activeTab === 'history') {
-      filtered = [...filtered].sort((a, b) => {
-        switch (sortBy) {
-          case 'date':
-            return (b.timestamp || 0) - (a.timestamp || 0)
-          case 'amount':
-            return b.amount - a.amount
-          case 'result':
-            if (a.isWinner === b.isWinner) return 0
-            return a.isWinner ? -1 : 1
-          default:
-            return 0
-        }
-      })
+      return historyRecords.map(toPosition)
     }
-    return filtered
-  }, [filteredPositions, activeTab, searchQuery, sortBy])
-  const historyGroups = useMemo(() => {
-    if (activeTab === 'history') {
-      return groupHistoryByDate(processedPositions)
-    }
-    return []
-  }, [activeTab, processedPositions, groupHistoryByDate])
+    return filteredPositions
+  }, [activeTab, historyRecords, filteredPositions, toPosition])
+  const historyGroups = useMemo((): HistoryGroup[] => {
+    return groupBetHistoryByDay(historyRecords).map(({ dayStart, records }) => {
+      const positions = records.map(toPosition)
+      const totalWon = positions.filter(p => p.isWinner).reduce((sum, p) => sum + (p.potentialPayout || 0), 0)
+      const totalLost = positions.filter(p => !p.isWinner).reduce((sum, p) => sum + p.amount, 0)
+      return {
+        date: new Date(dayStart).toLocaleDateString('en-US', {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric'
+        }),
+        positions,
+        totalWon,
+        totalLost,
+        netResult: totalWon - totalLost
+      }
+    })
+  }, [historyRecords, toPosition])
   const portfolioStats = useMemo((): PortfolioStats => {
     if (!userPositions.length) {
       return {
@@ -905,6 +1080,11 @@ export function AccountFeature() {
       unclaimedValue,
     }
   }, [userPositions])
+  // Analytics read the full local history, independent of the active tab
+  const portfolioAnalytics = useMemo(() => {
+    const records = playerAddress && userBets ? queryBetHistory(playerAddress) : []
+    return computePortfolioAnalytics(records)
+  }, [playerAddress, userBets])
   // Fetch bets once on mount/address change, prefer cache to avoid redundant refetches when navigating.
   useEffect(() => {
     if (!playerAddress) return
@@ -939,32 +1119,18 @@ export function AccountFeature() {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
   }, [activeTab])
   const handleClaim = useCallback(async (raceId: number) => {
-    if (!playerAddress || !connection || !signAndSendTransaction) return
+    if (!playerAddress) return
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
 
     try {
-      const success = await claimPayout(
-        playerAddress,
-        raceId,
-        connection,
-        signAndSendTransaction,
-      )
-
-      if (success) {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
-        showSuccess('Reward claimed successfully')
-        setLocalClaimedRaces(prev => new Set(prev).add(raceId))
-        // Immediate refresh to reflect the claimed state
-        fetchUserBets(playerAddress, false)
-      } else {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error)
-        showError('Unable to claim reward')
-      }
-    } catch (error) {
+      // The hook reports success or failure itself and refreshes the bets afterwards
+      await claimPayout({ raceId, playerAddress: new PublicKey(playerAddress) })
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+      setLocalClaimedRaces(prev => new Set(prev).add(raceId))
+    } catch {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error)
-      showError('Something went wrong while claiming')
     }
-  }, [playerAddress, connection, signAndSendTransaction, claimPayout, fetchUserBets, showSuccess, showError])
+  }, [playerAddress, claimPayout])
   const handleViewRace = useCallback((raceId: number) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
   }, [])
@@ -981,6 +1147,25 @@ export function AccountFeature() {
     setRefreshing(false)
     }
   }, [playerAddress, fetchUserBets])
+  const handleExport = useCallback(async (format: ExportFormat, range: ExportRange) => {
+    if (!playerAddress) return
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
+    const records = queryBetHistory(playerAddress, exportRangeBounds(range, Date.now()))
+    if (records.length === 0) {
+      showError('No bets in that range')
+      return
+    }
+    const { filename, content } = buildBetHistoryExport(records, format, {
+      assetSymbols,
+      explorerUrl: (signature) => getExplorerUrl(`tx/${signature}`),
+    })
+    try {
+      await Share.share({ title: filename, message: content })
+    } catch (error) {
+      console.error('Failed to share bet history export:', error)
+      showError('Unable to export history')
+    }
+  }, [playerAddress, assetSymbols, getExplorerUrl, showError])
   const renderPosition = useCallback(({ item }: { item: UserPosition }) => (
     <PositionCard
       position={item}
@@ -1000,24 +1185,67 @@ export function AccountFeature() {
   // Wallet address card removed per request
 
   const handleClaimAll = useCallback(async () => {
-    if (!playerAddress || !connection || !signAndSendTransaction) return
+    if (!playerAddress || !connection || !signAllTransactions) return
     if (unclaimedWinners.length === 0) return
     setClaimAllLoading(true)
     try {
-      for (const pos of unclaimedWinners) {
-        // eslint-disable-next-line no-await-in-loop
-        await claimPayout(playerAddress, pos.raceId, connection, signAndSendTransaction)
+      // Only ask the wallet to sign claims the program will actually accept
+      const onchain = await new OnChainService(connection).checkBetsClaimability(
+        new PublicKey(playerAddress),
+        unclaimedWinners.map(pos => pos.raceId),
+      )
+      const claimable = unclaimedWinners.filter((_, i) => onchain[i]?.canClaim)
+      const alreadyClaimed = unclaimedWinners.filter((_, i) => onchain[i]?.claimed).map(pos => pos.raceId)
+      // The RPC failed for these, so nothing is known yet; report them as worth retrying rather than unclaimable
+      const unreachable = unclaimedWinners.filter((_, i) => onchain[i]?.rpcError).map(pos => pos.raceId)
+      const unreachableError = 'Could not reach the network to check this reward, try again'
+      if (alreadyClaimed.length > 0) {
+        setLocalClaimedRaces(prev => new Set([...prev, ...alreadyClaimed]))
+      }
+      if (claimable.length === 0) {
+        await fetchUserBets(playerAddress, false)
+        setClaimErrors(new Map(unreachable.map(raceId => [raceId, unreachableError])))
+        showError(unreachable.length > 0 ? unreachableError : 'No rewards are claimable on-chain right now')
+        return
+      }
+      // Packed into as few transactions as fit, approved in a single wallet prompt
+      const outcomes = await claimPayouts(
+        playerAddress,
+        claimable.map(pos => pos.raceId),
+        connection,
+        signAllTransactions,
+      )
+      const claimedIds = outcomes.filter(outcome => outcome.success).map(outcome => outcome.raceId)
+      const failed = outcomes.filter(outcome => !outcome.success)
+      if (claimedIds.length > 0) {
+        setLocalClaimedRaces(prev => new Set([...prev, ...claimedIds]))
+      }
+      setClaimErrors(new Map([
+        ...unreachable.map((raceId): [number, string] => [raceId, unreachableError]),
+        ...failed.map((outcome): [number, string] => [outcome.raceId, outcome.error ?? 'Claim failed']),
+      ]))
+
+      if (failed.length === 0) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+        showSuccess(
+          claimable.length === unclaimedWinners.length
+            ? 'All rewards claimed'
+            : `Claimed ${claimable.length} of ${unclaimedWinners.length} rewards`,
+        )
+      } else if (claimedIds.length > 0) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+        showError(`Claimed ${claimedIds.length} of ${outcomes.length} rewards. Failed: ${failed.map(o => `#${o.raceId}`).join(', ')}`)
+      } else {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error)
+        showError(failed[0]?.error ?? 'Unable to claim rewards')
       }
-      await fetchUserBets(playerAddress, false)
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
-      showSuccess('All rewards claimed')
     } catch (e) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error)
       showError('Some claims may have failed')
     } finally {
       setClaimAllLoading(false)
     }
-  }, [playerAddress, connection, signAndSendTransaction, unclaimedWinners, claimPayout, fetchUserBets, showSuccess, showError])
+  }, [playerAddress, connection, signAllTransactions, unclaimedWinners, claimPayouts, fetchUserBets, showSuccess, showError])
   const renderHistoryGroup = useCallback(({ item }: { item: HistoryGroup }) => (
     <HistoryGroupComponent
       group={item}
@@ -1080,6 +1308,13 @@ export function AccountFeature() {
                 stats={portfolioStats} 
                 formatValue={formatValue} 
               />
+              {portfolioAnalytics.settledBets > 0 && (
+                <PortfolioAnalyticsSection
+                  analytics={portfolioAnalytics}
+                  assetSymbols={assetSymbols}
+                  formatValue={formatValue}
+                />
+              )}
               <TabNavigation 
                 activeTab={activeTab} 
                 onTabChange={setActiveTab}
@@ -1093,6 +1328,7 @@ export function AccountFeature() {
                   onSearchChange={setSearchQuery}
                   sortBy={sortBy}
                   onSortChange={setSortBy}
+                  onExport={handleExport}
                 />
               )}
               {activeTab === 'unclaimed' && portfolioStats.unclaimedValue > 0 && (
@@ -1401,6 +1637,43 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     textAlign: 'center',
   },
+  analyticsMetric: {
+    width: '31%',
+    paddingHorizontal: SPACING.xs,
+  },
+  assetBreakdownList: {
+    flex: 1,
+    gap: SPACING.sm,
+  },
+  assetBreakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  assetBreakdownSymbol: {
+    ...TYPOGRAPHY.caption,
+    width: 36,
+    color: COLORS.text.primary,
+    fontFamily: 'Inter-SemiBold',
+  },
+  assetBreakdownBarTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    overflow: 'hidden',
+  },
+  assetBreakdownBar: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  assetBreakdownText: {
+    ...TYPOGRAPHY.caption,
+    minWidth: 64,
+    textAlign: 'right',
+    color: COLORS.text.secondary,
+    fontFamily: 'Inter-Regular',
+  },
   additionalStats: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1581,6 +1854,16 @@ const styles = StyleSheet.create({
     color: COLORS.text.primary,
     fontWeight: '700',
   },
+  exportActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  exportAction: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: 'rgba(153, 69, 255, 0.3)',
+  },
   historyGroup: {
     marginBottom: SPACING.lg,
     borderRadius: 16,
@@ -1875,6 +2158,30 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontFamily: 'Inter-Regular',
   },
+  placementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  placementText: {
+    ...TYPOGRAPHY.caption,
+    flex: 1,
+    color: COLORS.text.tertiary,
+    fontFamily: 'Inter-Regular',
+  },
+  claimErrorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  claimErrorText: {
+    ...TYPOGRAPHY.caption,
+    flex: 1,
+    color: COLORS.error,
+    fontFamily: 'Inter-Regular',
+  },
   emptyContainer: {
     alignItems: 'center',
     paddingVertical: 60,
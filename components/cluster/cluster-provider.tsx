@@ -1,9 +1,11 @@
-import { createContext, ReactNode, useContext, useMemo, useState } from 'react'
+import { createContext, ReactNode, useContext, useEffect, useMemo, useState } from 'react'
 import { AppConfig } from '@/constants/app-config'
 import { Cluster } from '@/components/cluster/cluster'
 import { ClusterNetwork } from '@/components/cluster/cluster-network'
+import { Environment, getCurrentEnvironment, subscribeToEnvironment, switchEnvironment } from '@/services/config'
 
 export interface ClusterProviderContext {
+  environment: Environment
   selectedCluster: Cluster
   clusters: Cluster[]
   setSelectedCluster: (cluster: Cluster) => void
@@ -13,16 +15,40 @@ export interface ClusterProviderContext {
 
 const Context = createContext<ClusterProviderContext>({} as ClusterProviderContext)
 
+// The selected cluster mirrors the app environment (services/config.ts), so
+// switching either one keeps RPC, program config and wallet chain aligned.
+const ENVIRONMENT_NETWORKS: Record<Environment, ClusterNetwork> = {
+  devnet: ClusterNetwork.Devnet,
+}
+
+function clusterForEnvironment(environment: Environment): Cluster {
+  return AppConfig.clusters.find((c) => c.network === ENVIRONMENT_NETWORKS[environment]) ?? AppConfig.clusters[0]
+}
+
+function environmentForCluster(cluster: Cluster): Environment | undefined {
+  return (Object.keys(ENVIRONMENT_NETWORKS) as Environment[]).find(
+    (env) => ENVIRONMENT_NETWORKS[env] === cluster.network,
+  )
+}
+
 export function ClusterProvider({ children }: { children: ReactNode }) {
-  const [selectedCluster, setSelectedCluster] = useState<Cluster>(AppConfig.clusters[0])
+  const [environment, setEnvironment] = useState<Environment>(getCurrentEnvironment())
+
+  useEffect(() => subscribeToEnvironment((next) => setEnvironment(next)), [])
+
+  const selectedCluster = clusterForEnvironment(environment)
   const value: ClusterProviderContext = useMemo(
     () => ({
+      environment,
       selectedCluster,
       clusters: [...AppConfig.clusters].sort((a, b) => (a.name > b.name ? 1 : -1)),
-      setSelectedCluster: (cluster: Cluster) => setSelectedCluster(cluster),
+      setSelectedCluster: (cluster: Cluster) => {
+        const next = environmentForCluster(cluster)
+        if (next) switchEnvironment(next)
+      },
       getExplorerUrl: (path: string) => `https://explorer.solana.com/${path}${getClusterUrlParam(selectedCluster)}`,
     }),
-    [selectedCluster, setSelectedCluster],
+    [environment, selectedCluster],
   )
   return <Context.Provider value={value}>{children}</Context.Provider>
 }
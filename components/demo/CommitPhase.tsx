@@ -13,7 +13,6 @@ import {
   AccessibilityInfo,
   ActivityIndicator,
   Animated,
-  AppState,
   Dimensions,
   Platform,
   StyleSheet,
@@ -26,14 +25,19 @@ import {
 
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { PoolDonut } from '@/components/ui/PoolDonut'
-import SolanaLogo from '@/components/ui/SolanaLogo'
+import { AssetIcon } from '@/components/ui/AssetIcon'
 import { PublicKey } from '@solana/web3.js'
 
+import { microToUsdc, projectPayout } from '../../services/payoutMath'
 import { useRaceStore } from '../../store/useRaceStore'
 import {
   useCanPlaceBet,
   usePlaceBet,
 } from './use-place-bet'
+import { RaceOddsHistory } from './RaceOddsHistory'
+import { PriorityFeeRow } from './use-priority-fee'
+import { TokenAccountRentRow } from './use-token-account'
+import { TransactionStatusText } from './use-transaction-status'
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window')
 
@@ -41,6 +45,8 @@ const isTablet = screenWidth >= 768
 const isLandscape = screenWidth > screenHeight
 
 const MIN_TOUCH_TARGET = 44
+// Above this many assets the selection grid switches to compact cards
+const COMPACT_FIELD_SIZE = 4
 const MAX_BET = 1000
 
 const SPACING = {
@@ -118,20 +124,19 @@ const calculatePotentialPayout = (
     return { totalPayout: 0, profit: 0, yourSharePct: 0, fieldCut: 0, netPool: 0, feePct: feeBps/100, note: 'Enter bet amount' }
   }
 
-  const feeMicro = Math.floor((newTotalMicro * feeBps) / 10_000)
-  const netMicro = Math.max(0, newTotalMicro - feeMicro)
+  // Same integer math as the program, assuming this asset wins outright
+  const projection = projectPayout({ pools, feeBps, assetIdx: selectedAssetIdx, additional: addMicro, existingStake: userExisting })
 
   const yourMicro = userExisting + addMicro
   const yourShare = yourMicro / Math.max(1, newWinnerMicro)
-  const payoutMicro = Math.floor(yourShare * netMicro)
-  const fieldCutMicro = Math.floor(yourShare * otherMicro0)
+  const fieldCutMicro = (projection.stake * BigInt(otherMicro0)) / projection.winningPool
 
   const toUsd = (m: number) => m / 1_000_000
-  const totalPayout = toUsd(payoutMicro)
+  const totalPayout = microToUsdc(projection.payout)
   const profit = Math.max(0, totalPayout - amountUsd)
   const yourSharePct = Math.max(0, Math.min(100, yourShare * 100))
-  const fieldCut = toUsd(fieldCutMicro)
-  const netPool = toUsd(netMicro)
+  const fieldCut = microToUsdc(fieldCutMicro)
+  const netPool = microToUsdc(projection.netPool)
   const winnerPool = toUsd(newWinnerMicro)
   const feePct = feeBps / 100
   const note = yourSharePct >= 50 ? 'Leading pool — good odds' : yourSharePct >= 30 ? 'Competitive pool' : 'Underdog pick — high risk'
@@ -169,10 +174,6 @@ function _EnhancedCommitPhase({
   const fetchUserBets = useRaceStore((s) => s.fetchUserBets)
   const priceUpdates = useRaceStore((s) => s.priceUpdates)
   const liveRaceData = useRaceStore((s) => s.liveRaceData)
-  const connectWebSocket = useRaceStore((s) => s.connectWebSocket)
-  const subscribeToRace = useRaceStore((s) => s.subscribeToRace)
-  const isConnected = useRaceStore((s) => s.isConnected)
-  const forceReconnectWebSocket = useRaceStore((s) => s.forceReconnectWebSocket)
   const playerAddress = account?.publicKey?.toBase58 ? account.publicKey.toBase58() : account?.publicKey?.toString?.()
 
   const placeBetMutation = usePlaceBet()
@@ -213,8 +214,6 @@ function _EnhancedCommitPhase({
 
   const commitAnimationRefs = useRef<Animated.CompositeAnimation[]>([])
 
-  const appState = useRef(AppState.currentState)
-  const [isAppActive, setIsAppActive] = useState(true)
 
   const userBet = useMemo(() => {
     if (!userBets || !race?.raceId) return undefined
@@ -398,69 +397,6 @@ function _EnhancedCommitPhase({
     }
   }, [betAmount])
 
-  useEffect(() => {
-    const handleAppStateChange = (nextAppState: any) => {
-      console.log('📱 App state change in commit phase:', appState.current, '->', nextAppState)
-
-      if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
-        console.log('🔄 App returned to foreground, checking WebSocket connection...')
-        setIsAppActive(true)
-
-        if (race?.raceId) {
-          forceReconnectWebSocket()
-            .then(() => {
-              subscribeToRace(race.raceId)
-              const { wsService } = useRaceStore.getState()
-              wsService.subscribeToPrice()
-              console.log('✅ WebSocket reconnected after app returned to foreground in commit phase')
-            })
-            .catch((error) => {
-              console.error('❌ Failed to reconnect WebSocket in commit phase:', error)
-            })
-        }
-      } else if (nextAppState.match(/inactive|background/)) {
-        console.log('📱 App going to background from commit phase')
-        setIsAppActive(false)
-      }
-
-      appState.current = nextAppState
-    }
-
-    const subscription = AppState.addEventListener('change', handleAppStateChange)
-
-    return () => {
-      subscription?.remove()
-    }
-  }, [race?.raceId, forceReconnectWebSocket, subscribeToRace])
-
-  useEffect(() => {
-    if (playerAddress) {
-      fetchCommitPhaseData(undefined, playerAddress, true)
-    } else {
-      fetchCommitPhaseData(undefined, undefined, true)
-    }
-  }, [playerAddress, fetchCommitPhaseData])
-
-  useEffect(() => {
-    if (!race?.raceId || !isAppActive) return
-    if (!isConnected) {
-      connectWebSocket()
-        .then(() => {
-          subscribeToRace(race.raceId)
-          const { wsService } = useRaceStore.getState()
-          wsService.subscribeToPrice()
-          console.log('✅ WebSocket connected for commit phase')
-        })
-        .catch((error) => {
-          console.error('❌ Failed to connect to WebSocket:', error)
-        })
-    } else {
-      subscribeToRace(race.raceId)
-      const { wsService } = useRaceStore.getState()
-      wsService.subscribeToPrice()
-    }
-  }, [race?.raceId, isConnected, connectWebSocket, subscribeToRace, isAppActive])
-
   useEffect(() => {
     if (playerAddress && userBalance === null && !isLoadingBalance) {
       setIsLoadingBalance(true)
@@ -1114,15 +1050,7 @@ function _EnhancedCommitPhase({
               <Text style={styles.successTitle}>You're In The Race!</Text>
             </View>
             <View style={styles.successBadgesRow}>
-              {race.assets[userBet.assetIdx]?.symbol === 'BTC' ? (
-                <View style={styles.assetIconCircleBtc}><MaterialCommunityIcons name="currency-btc" size={14} color="#0B0B0B" /></View>
-              ) : race.assets[userBet.assetIdx]?.symbol === 'ETH' ? (
-                <View style={styles.assetIconCircleEth}><MaterialCommunityIcons name="ethereum" size={14} color="#FFFFFF" /></View>
-              ) : race.assets[userBet.assetIdx]?.symbol === 'SOL' ? (
-                <View style={styles.assetIconCircleSol}>
-                  <SolanaLogo size={14} />
-                </View>
-              ) : null}
+              <AssetIcon symbol={race.assets[userBet.assetIdx]?.symbol} size={14} style={styles.assetIconCircle} />
               <View style={[styles.successChip, { borderColor: 'rgba(242,201,76,0.5)', backgroundColor: 'rgba(242,201,76,0.15)' }]}>
                 <MaterialCommunityIcons name="check-decagram" size={12} color="#F2C94C" />
                 <Text style={styles.successChipText}>Bet Placed</Text>
@@ -1492,7 +1420,7 @@ function _EnhancedCommitPhase({
                     {isPlacingBet ? (
                       <View style={styles.loadingContainerEnhanced}>
                         <ActivityIndicator size="small" color="#000" />
-                        <Text style={styles.confirmAdditionalBetText}>ADDING...</Text>
+                        <TransactionStatusText kind="place_bet" fallback="ADDING..." uppercase style={styles.confirmAdditionalBetText} />
                       </View>
                     ) : (
                       <View style={styles.betButtonContentEnhanced}>
@@ -1510,6 +1438,12 @@ function _EnhancedCommitPhase({
 
       {/* Removed duplicate Live Race Stats card to avoid redundancy */}
 
+      {enhancedAssets.length > 0 && (
+        <View style={styles.oddsHistorySection}>
+          <RaceOddsHistory title="Live odds · drag to scrub" />
+        </View>
+      )}
+
       {account && !derivedUserBet && enhancedAssets.length > 0 && (
         <View style={styles.assetSelectionSection}>
           <LinearGradient
@@ -1572,21 +1506,12 @@ function _EnhancedCommitPhase({
           {!assetsOpen && enhancedAssets[selectedAssetIdx] && (
             <View style={styles.collapsibleSummary}>
               <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
-                {enhancedAssets[selectedAssetIdx]?.symbol === 'BTC' ? (
-                  <View style={styles.assetIconCircleBtc}>
-                    <MaterialCommunityIcons name="currency-btc" size={16} color="#0B0B0B" />
-                  </View>
-                ) : enhancedAssets[selectedAssetIdx]?.symbol === 'ETH' ? (
-                  <View style={styles.assetIconCircleEth}>
-                    <MaterialCommunityIcons name="ethereum" size={16} color="#FFFFFF" />
-                  </View>
-                ) : enhancedAssets[selectedAssetIdx]?.symbol === 'SOL' ? (
-                  <View style={styles.assetIconCircleSol}>
-                    <SolanaLogo size={16} />
-                  </View>
-                ) : (
-                  <View style={[styles.assetDot, { backgroundColor: enhancedAssets[selectedAssetIdx]?.color || '#FFD700' }]} />
-                )}
+                <AssetIcon
+                  symbol={enhancedAssets[selectedAssetIdx]?.symbol}
+                  size={16}
+                  style={styles.assetIconCircle}
+                  fallback={<View style={[styles.assetDot, { backgroundColor: enhancedAssets[selectedAssetIdx]?.color || '#FFD700' }]} />}
+                />
                 <Text style={{ fontFamily: 'Sora-Bold', color: '#fff' }}>
                   {enhancedAssets[selectedAssetIdx]?.symbol}
                 </Text>
@@ -1629,7 +1554,7 @@ function _EnhancedCommitPhase({
                   key={index}
                   style={[
                     styles.assetCardEnhanced,
-
+                    enhancedAssets.length > COMPACT_FIELD_SIZE && styles.assetCardCompact,
                     isSelected ? styles.assetCardSelected : isLeading ? styles.assetCardLeading : null,
                     { minHeight: MIN_TOUCH_TARGET + 60 },
                   ]}
@@ -1663,23 +1588,16 @@ function _EnhancedCommitPhase({
                       )}
 
                       <View style={styles.assetHeaderEnhanced}>
-                        {asset.symbol === 'BTC' ? (
-                          <View style={styles.assetIconCircleBtc}>
-                            <MaterialCommunityIcons name="currency-btc" size={16} color="#0B0B0B" />
-                          </View>
-                        ) : asset.symbol === 'ETH' ? (
-                          <View style={styles.assetIconCircleEth}>
-                            <MaterialCommunityIcons name="ethereum" size={16} color="#FFFFFF" />
-                          </View>
-                        ) : asset.symbol === 'SOL' ? (
-                          <View style={styles.assetIconCircleSol}>
-                            <SolanaLogo size={isTablet ? 20 : 16} />
-                          </View>
-                        ) : (
-                          <View style={[styles.assetIconEnhanced, { backgroundColor: asset.color }]}>
-                            <Text style={styles.assetSymbolIconEnhanced}>{asset.symbol[0]}</Text>
-                          </View>
-                        )}
+                        <AssetIcon
+                          symbol={asset.symbol}
+                          size={isTablet ? 20 : 16}
+                          style={styles.assetIconCircle}
+                          fallback={
+                            <View style={[styles.assetIconEnhanced, { backgroundColor: asset.color }]}>
+                              <Text style={styles.assetSymbolIconEnhanced}>{asset.symbol[0]}</Text>
+                            </View>
+                          }
+                        />
                         <View style={styles.assetInfoEnhanced}>
                           <Text style={styles.assetSymbolEnhanced}>{asset.symbol}</Text>
                           <Text style={styles.assetNameEnhanced}>{asset.name}</Text>
@@ -2132,6 +2050,21 @@ function _EnhancedCommitPhase({
                           -${betAmount} (100% loss)
                         </Text>
                       </View>
+                      <PriorityFeeRow
+                        raceId={race.raceId}
+                        playerAddress={playerAddress}
+                        assetIdx={selectedAssetIdx}
+                        amount={Math.floor(parseFloat(betAmount || '0') * 1_000_000)}
+                        style={styles.confirmationRow}
+                        labelStyle={styles.confirmationLabel}
+                        valueStyle={styles.confirmationValue}
+                      />
+                      <TokenAccountRentRow
+                        playerAddress={playerAddress}
+                        style={styles.confirmationRow}
+                        labelStyle={styles.confirmationLabel}
+                        valueStyle={styles.confirmationValue}
+                      />
                       <View style={styles.confirmationRiskWarning}>
                         <MaterialCommunityIcons name="alert" size={14} color="#FFD700" />
                         <Text style={styles.confirmationRiskText}>
@@ -2237,7 +2170,12 @@ function _EnhancedCommitPhase({
                       {isPlacingBet ? (
                         <View style={styles.loadingContainerEnhanced}>
                           <ActivityIndicator size="small" color="#000" />
-                          <Text style={styles.placeBetButtonTextEnhanced}>PLACING BET...</Text>
+                          <TransactionStatusText
+                            kind="place_bet"
+                            fallback="PLACING BET..."
+                            uppercase
+                            style={styles.placeBetButtonTextEnhanced}
+                          />
                         </View>
                       ) : (
                         <View style={styles.betButtonContentEnhanced}>
@@ -2577,6 +2515,15 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.xl,
     paddingHorizontal: isTablet ? SPACING.sm : 0,
   },
+  oddsHistorySection: {
+    marginHorizontal: isTablet ? SPACING.xl : SPACING.lg,
+    marginBottom: SPACING.xl,
+    padding: SPACING.md,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.12)',
+  },
   assetCardsContainer: {
     flexDirection: isTablet && isLandscape ? 'row' : 'row',
     flexWrap: 'wrap',
@@ -2677,6 +2624,12 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(255,255,255,0.1)',
     overflow: 'hidden',
   },
+  // Larger fields switch to three columns on phones and four on tablets
+  assetCardCompact: {
+    width: isTablet ? (screenWidth - 80) / 4 - 16 : undefined,
+    minWidth: isTablet ? 160 : '30%',
+    maxWidth: isTablet ? 200 : '32%',
+  },
   assetCardSelected: {
     borderColor: COLORS.success,
     borderWidth: 3,
@@ -2714,38 +2667,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: SPACING.sm,
   },
-  assetIconCircleBtc: {
-    width: isTablet ? 40 : 32,
-    height: isTablet ? 40 : 32,
-    borderRadius: isTablet ? 20 : 16,
-    backgroundColor: '#F7931A',
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: SPACING.sm,
-    borderWidth: 1,
-    borderColor: 'rgba(0,0,0,0.2)'
-  },
-  assetIconCircleEth: {
-    width: isTablet ? 40 : 32,
-    height: isTablet ? 40 : 32,
-    borderRadius: isTablet ? 20 : 16,
-    backgroundColor: '#627EEA',
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: SPACING.sm,
-    borderWidth: 1,
-    borderColor: 'rgba(0,0,0,0.2)'
-  },
-  assetIconCircleSol: {
+  // Background and border come from the asset's icon spec
+  assetIconCircle: {
     width: isTablet ? 40 : 32,
     height: isTablet ? 40 : 32,
     borderRadius: isTablet ? 20 : 16,
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: SPACING.sm,
-    backgroundColor: '#0B0B0B',
     borderWidth: 1,
-    borderColor: 'rgba(255,255,255,0.08)'
   },
   assetInfoEnhanced: {
     flex: 1,
@@ -14,7 +14,6 @@ import {
   ActivityIndicator,
   Animated,
   Easing,
-  AppState,
   Dimensions,
   Platform,
   ScrollView,
@@ -25,9 +24,14 @@ import {
 } from 'react-native'
 
 import { MaterialCommunityIcons } from '@expo/vector-icons'
-import SolanaLogo from '@/components/ui/SolanaLogo'
+import { useWalletUi } from '@/components/solana/use-wallet-ui'
+import { AssetIcon } from '@/components/ui/AssetIcon'
+import { getPriceDecimals } from '@/services/assetRegistry'
+import { leadingAssets, microToUsdc, netPoolFor, payoutMultiplierFor, settlePayout } from '@/services/payoutMath'
 
 import { useRaceStore } from '../../store/useRaceStore'
+import { RaceOddsHistory } from './RaceOddsHistory'
+import { RacePriceSparklines } from './RacePriceSparklines'
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window')
 
@@ -130,15 +134,10 @@ function _EnhancedPerformancePhase({
   const odds = useRaceStore((s) => s.odds)
   const previousOdds = useRaceStore((s) => s.previousOdds)
   const priceUpdates = useRaceStore((s) => s.priceUpdates)
-  const isConnected = useRaceStore((s) => s.isConnected)
   const liveRaceData = useRaceStore((s) => s.liveRaceData)
   const userBets = useRaceStore((s) => s.userBets)
-
-  // Stable refs for store actions to avoid effect dependency churn
-  const connectWebSocketRef = useRef(useRaceStore.getState().connectWebSocket)
-  const subscribeToRaceRef = useRef(useRaceStore.getState().subscribeToRace)
-  const forceReconnectWebSocketRef = useRef(useRaceStore.getState().forceReconnectWebSocket)
-  const subscribedRaceIdRef = useRef<number | null>(null)
+  const raceSentiment = useRaceStore((s) => s.raceSentiment)
+  const { signMessage } = useWalletUi()
 
   const raceTrackAnim = useRef(new Animated.Value(0)).current
   const pulseAnim = useRef(new Animated.Value(1)).current
@@ -170,11 +169,7 @@ function _EnhancedPerformancePhase({
   const previousProfitLoss = useRef<number | null>(null)
   const previousIntensity = useRef<'low' | 'medium' | 'high' | 'extreme'>('medium')
 
-  const [crowdVotes, setCrowdVotes] = useState<Map<string, { upvotes: number, downvotes: number }>>(new Map())
-  const [userVotes, setUserVotes] = useState<Map<string, 'up' | 'down' | null>>(new Map())
-
-  const appState = useRef(AppState.currentState)
-  const [isAppActive, setIsAppActive] = useState(true)
+  const [pendingVotes, setPendingVotes] = useState<Set<number>>(new Set())
 
   const previousPrices = useRef<Map<string, { price: number, timestamp: number }>>(new Map())
   const [lastPriceUpdate, setLastPriceUpdate] = useState(Date.now())
@@ -348,25 +343,17 @@ function _EnhancedPerformancePhase({
     return Math.max(0, Math.min(1, elapsed / totalDuration))
   }, [race, lastPriceUpdate])
 
+  // Tallies stay current through sentiment_update; this loads the starting point and the wallet's own votes
   useEffect(() => {
-    if (race?.assets && crowdVotes.size === 0) {
-      const initialVotes = new Map()
-      const initialUserVotes = new Map()
-      race.assets.forEach((asset: any) => {
-        const baseVotes = Math.floor(Math.random() * 20) + 10
-        initialVotes.set(asset.symbol, {
-          upvotes: baseVotes + Math.floor(Math.random() * 15),
-          downvotes: baseVotes + Math.floor(Math.random() * 10)
-        })
-        initialUserVotes.set(asset.symbol, null)
-      })
-      setCrowdVotes(initialVotes)
-      setUserVotes(initialUserVotes)
+    if (race?.raceId) {
+      useRaceStore.getState().fetchRaceSentiment(race.raceId, playerAddress)
     }
-  }, [race?.assets])
+  }, [race?.raceId, playerAddress])
+
+  const sentimentForRace = raceSentiment?.raceId === race?.raceId ? raceSentiment : undefined
 
-  const getCrowdSentiment = useCallback((symbol: string) => {
-    const votes = crowdVotes.get(symbol)
+  const getCrowdSentiment = useCallback((assetIdx: number) => {
+    const votes = sentimentForRace?.tallies.find((tally) => tally.assetIdx === assetIdx)
     if (!votes) return { upPercent: 50, downPercent: 50, total: 0 }
     
     const total = votes.upvotes + votes.downvotes
@@ -377,64 +364,7 @@ function _EnhancedPerformancePhase({
       downPercent: Math.round((votes.downvotes / total) * 100),
       total
     }
-  }, [crowdVotes])
-
-  useEffect(() => {
-    const handleAppStateChange = (nextAppState: any) => {
-      if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
-        setIsAppActive(true)
-        
-        if (race?.raceId) {
-          forceReconnectWebSocketRef.current().then(() => {
-            if (subscribedRaceIdRef.current !== race.raceId) {
-              subscribeToRaceRef.current(race.raceId)
-              subscribedRaceIdRef.current = race.raceId
-            }
-            const { wsService } = useRaceStore.getState()
-            wsService.subscribeToPrice()
-          }).catch((error) => {
-            console.error('❌ Failed to reconnect WebSocket:', error)
-          })
-        }
-      } else if (nextAppState.match(/inactive|background/)) {
-        setIsAppActive(false)
-      }
-      
-      appState.current = nextAppState
-    }
-
-    const subscription = AppState.addEventListener('change', handleAppStateChange)
-    
-    return () => {
-      subscription?.remove()
-    }
-  }, [race?.raceId])
-
-  useEffect(() => {
-    if (!race?.raceId || !isAppActive) return
-
-    if (!isConnected) {
-      connectWebSocketRef.current()
-        .then(() => {
-          if (subscribedRaceIdRef.current !== race.raceId) {
-            subscribeToRaceRef.current(race.raceId)
-            subscribedRaceIdRef.current = race.raceId
-          }
-          const { wsService } = useRaceStore.getState()
-          wsService.subscribeToPrice()
-        })
-        .catch((error) => {
-          console.error('❌ Failed to connect to WebSocket:', error)
-        })
-    } else {
-      if (subscribedRaceIdRef.current !== race.raceId) {
-        subscribeToRaceRef.current(race.raceId)
-        subscribedRaceIdRef.current = race.raceId
-      }
-      const { wsService } = useRaceStore.getState()
-      wsService.subscribeToPrice()
-    }
-  }, [race?.raceId, isConnected, isAppActive])
+  }, [sentimentForRace])
 
   useEffect(() => {
     const checkReduceMotion = async () => {
@@ -654,28 +584,25 @@ function _EnhancedPerformancePhase({
     const originalAmount = (typeof currentUserBet.amount === 'number' && !isNaN(currentUserBet.amount)) ? currentUserBet.amount / 1_000_000 : 0
     
     const maxPerformance = Math.max(...assetPerformances.map((a: any) => a.performance))
-    const isActuallyWinning = Math.abs(userAsset.performance - maxPerformance) < 0.001
+    // Every asset tied for the lead would win and share one payout ratio, as on chain
+    const leaders = leadingAssets(assetPerformances)
+    const isActuallyWinning = leaders.includes(currentUserBet.assetIdx)
     
     let currentBetValue = 0
     let profitLoss = 0
     let potentialPayout = 0
     
     if (isActuallyWinning && race?.totalPool && race?.assetPools) {
-      const totalPool = race.totalPool / 1_000_000
-      const feeBps = race.feeBps || 500
-      const netPool = totalPool * (1 - feeBps / 10000)
-      
-      let winningPool = 0
-      assetPerformances.forEach((asset: any) => {
-        if (Math.abs(asset.performance - maxPerformance) < 0.001) {
-          winningPool += (race.assetPools[asset.index] || 0) / 1_000_000
-        }
+      const { winningPool, payout } = settlePayout({
+        pools: race.assetPools,
+        feeBps: race.feeBps,
+        winningAssets: leaders,
+        assetIdx: currentUserBet.assetIdx,
+        stake: currentUserBet.amount,
       })
       
-      if (winningPool > 0) {
-        const SCALING_FACTOR = 1_000_000_000_000
-        const payoutRatio = (netPool * SCALING_FACTOR) / winningPool
-        potentialPayout = (originalAmount * payoutRatio) / SCALING_FACTOR
+      if (winningPool > BigInt(0)) {
+        potentialPayout = microToUsdc(payout)
         
         currentBetValue = potentialPayout
         profitLoss = currentBetValue - originalAmount
@@ -967,8 +894,9 @@ function _EnhancedPerformancePhase({
     }
   }, [assetPerformances, reduceMotion])
 
-  const handleVote = (symbol: string, voteType: 'up' | 'down') => {
-    const currentUserVote = userVotes.get(symbol)
+  const handleVote = async (assetIdx: number, symbol: string, voteType: 'up' | 'down') => {
+    if (!playerAddress || !race?.raceId || pendingVotes.has(assetIdx)) return
+    const currentUserVote = sentimentForRace?.playerVotes?.[assetIdx] ?? null
     
     if (currentUserVote === voteType) {
       triggerHaptic('selection', 'vote removed')
@@ -990,33 +918,23 @@ function _EnhancedPerformancePhase({
       }),
     ]).start()
     
-    setCrowdVotes(prev => {
-      const newVotes = new Map(prev)
-      const current = newVotes.get(symbol) || { upvotes: 0, downvotes: 0 }
-      
-      if (currentUserVote === 'up') {
-        current.upvotes = Math.max(0, current.upvotes - 1)
-      } else if (currentUserVote === 'down') {
-        current.downvotes = Math.max(0, current.downvotes - 1)
-      }
-      
-      if (currentUserVote !== voteType) {
-        if (voteType === 'up') {
-          current.upvotes += 1
-        } else {
-          current.downvotes += 1
-        }
-      }
-      
-      newVotes.set(symbol, current)
-      return newVotes
-    })
-    
-    setUserVotes(prev => {
-      const newUserVotes = new Map(prev)
-      newUserVotes.set(symbol, currentUserVote === voteType ? null : voteType)
-      return newUserVotes
+    setPendingVotes(prev => new Set(prev).add(assetIdx))
+    // Voting the same way again retracts the vote
+    const accepted = await useRaceStore.getState().castSentimentVote(
+      playerAddress,
+      race.raceId,
+      assetIdx,
+      currentUserVote === voteType ? null : voteType,
+      signMessage,
+    )
+    setPendingVotes(prev => {
+      const next = new Set(prev)
+      next.delete(assetIdx)
+      return next
     })
+    if (!accepted) {
+      triggerHaptic('error', `vote on ${symbol} failed`)
+    }
   }
 
 
@@ -1029,27 +947,9 @@ function _EnhancedPerformancePhase({
     }).start()
   }, [])
 
-  useEffect(() => {
-    let pollInterval: ReturnType<typeof setInterval> | null = null;
-    const fetchAll = async () => {
-      if (playerAddress) {
-        try {
-          await Promise.all([
-            useRaceStore.getState().fetchUserBets(playerAddress, false),
-            useRaceStore.getState().fetchCurrentRace(false),
-          ]);
-        } catch (e) {
-        }
-      }
-    };
-    fetchAll();
-    pollInterval = setInterval(fetchAll, 2000);
-    return () => {
-      if (pollInterval) clearInterval(pollInterval);
-    };
-  }, [race?.raceId, playerAddress]);
-
-
+  // Assets that would win if the race settled now, and what each of them pays per unit
+  const leaders = leadingAssets(assetPerformances)
+  const leaderMultiplier = race?.assetPools ? payoutMultiplierFor(race.assetPools, race.feeBps, leaders) : 0
 
   return (
     <View style={styles.performanceContainer}>
@@ -1168,24 +1068,17 @@ function _EnhancedPerformancePhase({
               {/* Left: Asset & Position Info */}
               <View style={styles.ultraThinLeftSection}>
               <View style={styles.assetInfoRow}>
-                {userPosition.asset.symbol === 'BTC' ? (
-                  <View style={[styles.assetIconCircleBtc, { width: 24, height: 24, borderRadius: 12 }]}>
-                    <MaterialCommunityIcons name="currency-btc" size={14} color="#0B0B0B" />
-                  </View>
-                ) : userPosition.asset.symbol === 'ETH' ? (
-                  <View style={[styles.assetIconCircleEth, { width: 24, height: 24, borderRadius: 12 }]}>
-                    <MaterialCommunityIcons name="ethereum" size={14} color="#FFFFFF" />
-                  </View>
-                ) : userPosition.asset.symbol === 'SOL' ? (
-                  <View style={[styles.assetIconCircleSol, { width: 24, height: 24, borderRadius: 12 }]}>
-                    <SolanaLogo size={14} />
-                  </View>
-                ) : (
-                  <View style={styles.assetDotWrapper}>
-                    <Animated.View style={[styles.assetDotRing, { transform: [{ scale: pulseAnim }] }]} />
-                    <View style={[styles.assetDotSmall, { backgroundColor: userPosition.asset.color }]} />
-                  </View>
-                )}
+                <AssetIcon
+                  symbol={userPosition.asset.symbol}
+                  size={14}
+                  style={[styles.assetIconCircle, { width: 24, height: 24, borderRadius: 12 }]}
+                  fallback={
+                    <View style={styles.assetDotWrapper}>
+                      <Animated.View style={[styles.assetDotRing, { transform: [{ scale: pulseAnim }] }]} />
+                      <View style={[styles.assetDotSmall, { backgroundColor: userPosition.asset.color }]} />
+                    </View>
+                  }
+                />
                 <Text style={styles.compactAssetSymbol}>{userPosition.asset.symbol}</Text>
                 <MaterialCommunityIcons 
                   name={userPosition.isCurrentlyWinning ? "trophy" : "account-star"} 
@@ -1444,21 +1337,12 @@ function _EnhancedPerformancePhase({
 
                   <View style={styles.mainInfoRow}>
                     <View style={styles.assetInfo}>
-                      {asset.symbol === 'BTC' ? (
-                        <View style={[styles.assetIconCircleBtc, { width: 20, height: 20, borderRadius: 10 }]}>
-                          <MaterialCommunityIcons name="currency-btc" size={12} color="#0B0B0B" />
-                        </View>
-                      ) : asset.symbol === 'ETH' ? (
-                        <View style={[styles.assetIconCircleEth, { width: 20, height: 20, borderRadius: 10 }]}>
-                          <MaterialCommunityIcons name="ethereum" size={12} color="#FFFFFF" />
-                        </View>
-                      ) : asset.symbol === 'SOL' ? (
-                        <View style={[styles.assetIconCircleSol, { width: 20, height: 20, borderRadius: 10 }]}>
-                          <SolanaLogo size={12} />
-                        </View>
-                      ) : (
-                        <View style={[styles.assetDot, { backgroundColor: asset.color }]} />
-                      )}
+                      <AssetIcon
+                        symbol={asset.symbol}
+                        size={12}
+                        style={[styles.assetIconCircle, { width: 20, height: 20, borderRadius: 10 }]}
+                        fallback={<View style={[styles.assetDot, { backgroundColor: asset.color }]} />}
+                      />
                       <View style={styles.nameSection}>
                         <View style={styles.symbolRow}>
                           <Text style={styles.assetSymbol}>{asset.symbol}</Text>
@@ -1549,8 +1433,8 @@ function _EnhancedPerformancePhase({
                         isRecentlyUpdated && { transform: [{ scale: priceUpdateFlashAnim }] }
                       ]}>
                         ${asset.currentPrice?.toLocaleString('en-US', { 
-                          minimumFractionDigits: asset.symbol === 'BTC' ? 0 : 2, 
-                          maximumFractionDigits: asset.symbol === 'BTC' ? 0 : 2 
+                          minimumFractionDigits: getPriceDecimals(asset.symbol), 
+                          maximumFractionDigits: getPriceDecimals(asset.symbol) 
                         })}
                       </Animated.Text>
                     </View>
@@ -1578,14 +1462,16 @@ function _EnhancedPerformancePhase({
 
                   {/* Crowd sentiment + voting */}
                   {(() => {
-                    const s = getCrowdSentiment(asset.symbol)
-                    const userVote = userVotes.get(asset.symbol)
+                    const s = getCrowdSentiment(asset.index)
+                    const userVote = sentimentForRace?.playerVotes?.[asset.index]
+                    const canVote = !!playerAddress && !pendingVotes.has(asset.index)
                     return (
                       <View style={styles.votingContainer}>
                         <View style={styles.votingButtons}>
                           <TouchableOpacity
-                            onPress={() => handleVote(asset.symbol, 'up')}
-                            style={[styles.voteButton, userVote === 'up' && styles.voteButtonActive]}
+                            onPress={() => handleVote(asset.index, asset.symbol, 'up')}
+                            disabled={!canVote}
+                            style={[styles.voteButton, userVote === 'up' && styles.voteButtonActive, !canVote && styles.voteButtonDisabled]}
                             accessibilityLabel={`Upvote ${asset.symbol}`}
                             accessibilityRole="button"
                           >
@@ -1593,8 +1479,9 @@ function _EnhancedPerformancePhase({
                             <Text style={styles.voteCount}>{s.upPercent}%</Text>
                           </TouchableOpacity>
                           <TouchableOpacity
-                            onPress={() => handleVote(asset.symbol, 'down')}
-                            style={[styles.voteButton, userVote === 'down' && styles.voteButtonActiveRed]}
+                            onPress={() => handleVote(asset.index, asset.symbol, 'down')}
+                            disabled={!canVote}
+                            style={[styles.voteButton, userVote === 'down' && styles.voteButtonActiveRed, !canVote && styles.voteButtonDisabled]}
                             accessibilityLabel={`Downvote ${asset.symbol}`}
                             accessibilityRole="button"
                           >
@@ -1616,6 +1503,22 @@ function _EnhancedPerformancePhase({
         </View>
       </Animated.View>
 
+      <View style={styles.oddsSection}>
+        <LinearGradient
+          colors={['rgba(153, 69, 255, 0.2)', 'rgba(20, 241, 149, 0.08)', 'rgba(0, 0, 0, 0.8)']}
+          style={[styles.oddsContainer, styles.sparklineContainer]}
+        >
+          <View style={styles.oddsHeader}>
+            <View style={styles.oddsHeaderLeft}>
+              <MaterialCommunityIcons name="chart-line" size={20} color="#14F195" />
+              <Text style={styles.oddsTitle}>Price Action</Text>
+            </View>
+            <Text style={styles.oddsSubtitle}>vs start · Pyth confidence</Text>
+          </View>
+          <RacePriceSparklines />
+        </LinearGradient>
+      </View>
+
       <View style={styles.oddsSection}>
         <LinearGradient
           colors={['rgba(255, 215, 0, 0.2)', 'rgba(255, 215, 0, 0.1)', 'rgba(0, 0, 0, 0.8)']}
@@ -1639,27 +1542,8 @@ function _EnhancedPerformancePhase({
                   const foundBet = userBets.find((bet: any) => bet.raceId === race.raceId && bet.assetIdx === asset.index)
                   isUserBet = !!foundBet
                 }
-                const maxPerformance = Math.max(...assetPerformances.map((a: any) => a.performance))
-                const isWinning = Math.abs(asset.performance - maxPerformance) < 0.001
-                
-                let payoutMultiplier = 0
-                
-                if (isWinning && race?.totalPool && race?.assetPools) {
-                  const totalPool = race.totalPool / 1_000_000
-                  const feeBps = race.feeBps || 500
-                  const netPool = totalPool * (1 - feeBps / 10000)
-                  
-                  let winningPool = 0
-                  assetPerformances.forEach((winningAsset: any) => {
-                    if (Math.abs(winningAsset.performance - maxPerformance) < 0.001) {
-                      winningPool += (race.assetPools[winningAsset.index] || 0) / 1_000_000
-                    }
-                  })
-                  
-                  if (winningPool > 0) {
-                    payoutMultiplier = netPool / winningPool
-                  }
-                }
+                const isWinning = leaders.includes(asset.index)
+                const payoutMultiplier = isWinning ? leaderMultiplier : 0
                 
                 return (
                   <View key={asset.index} style={styles.oddsCard}>
@@ -1722,6 +1606,8 @@ function _EnhancedPerformancePhase({
               })}
             </View>
           </ScrollView>
+
+          <RaceOddsHistory title="How the odds moved before lock" />
           
           <View style={styles.poolSummary}>
             <View style={styles.poolSummaryLeft}>
@@ -1731,13 +1617,13 @@ function _EnhancedPerformancePhase({
             <View style={styles.poolSummaryCenter}>
               <Text style={styles.poolSummaryLabel}>Protocol Fee</Text>
               <Text style={styles.poolSummaryValue}>
-                {((race?.feeBps || 500) / 100).toFixed(1)}%
+                {((race?.feeBps ?? 0) / 100).toFixed(1)}%
               </Text>
             </View>
             <View style={styles.poolSummaryRight}>
               <Text style={styles.poolSummaryLabel}>Winner Pool</Text>
               <Text style={styles.poolSummaryValue}>
-                {formatValue((race?.totalPool || 0) * (1 - (race?.feeBps || 500) / 10000))}
+                {formatValue(Number(netPoolFor(race?.totalPool || 0, race?.feeBps ?? 0)))}
               </Text>
             </View>
           </View>
@@ -2301,29 +2187,11 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     marginRight: 8,
   },
-  assetIconCircleBtc: {
-    backgroundColor: '#F7931A',
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: 8,
-    borderWidth: 1,
-    borderColor: 'rgba(0,0,0,0.2)'
-  },
-  assetIconCircleEth: {
-    backgroundColor: '#627EEA',
+  assetIconCircle: {
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: 8,
     borderWidth: 1,
-    borderColor: 'rgba(0,0,0,0.2)'
-  },
-  assetIconCircleSol: {
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: 8,
-    backgroundColor: '#0B0B0B',
-    borderWidth: 1,
-    borderColor: 'rgba(255,255,255,0.08)'
   },
   assetRaceSymbol: {
     fontSize: 16,
@@ -2880,6 +2748,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 215, 0, 0.3)',
   },
+  sparklineContainer: {
+    borderColor: 'rgba(153, 69, 255, 0.3)',
+  },
   oddsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -3175,6 +3046,9 @@ const styles = StyleSheet.create({
     borderColor: '#FF4444',
     backgroundColor: 'rgba(255,68,68,0.1)',
   },
+  voteButtonDisabled: {
+    opacity: 0.5,
+  },
   voteCount: {
     fontSize: 10,
     color: '#fff',
@@ -0,0 +1,38 @@
+import React, { memo, useMemo } from 'react'
+
+import { OddsHistoryChart } from '@/components/ui/OddsHistoryChart'
+import { useRaceStore } from '../../store/useRaceStore'
+
+interface RaceOddsHistoryProps {
+  title?: string
+  height?: number
+}
+
+// Odds history for the current race, with the connected player's bet marked where it landed
+export const RaceOddsHistory = memo(function RaceOddsHistory({ title, height }: RaceOddsHistoryProps) {
+  const race = useRaceStore((s) => s.race)
+  const oddsHistory = useRaceStore((s) => s.oddsHistory)
+  const userBets = useRaceStore((s) => s.userBets)
+
+  const raceId = race?.raceId
+  const startTs = race?.startTs
+  const lockTs = race?.lockTs
+
+  const history = useMemo(() => oddsHistory.filter((snapshot) => snapshot.raceId === raceId), [oddsHistory, raceId])
+
+  const commitWindow = useMemo(
+    () => (startTs && lockTs ? { start: startTs * 1000, end: lockTs * 1000 } : undefined),
+    [startTs, lockTs],
+  )
+
+  // Placement block time is only known once the bet is indexed; until then there's nothing to mark
+  const bet = userBets?.find((summary) => summary.raceId === raceId)
+  const entry = useMemo(
+    () => (bet?.placedAt ? { timestamp: bet.placedAt * 1000, assetIdx: bet.assetIdx } : null),
+    [bet?.placedAt, bet?.assetIdx],
+  )
+
+  if (raceId === undefined) return null
+
+  return <OddsHistoryChart history={history} commitWindow={commitWindow} entry={entry} title={title} height={height} />
+})
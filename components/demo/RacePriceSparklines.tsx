@@ -0,0 +1,34 @@
+import React, { memo, useMemo } from 'react'
+
+import { useAssetRegistry } from '@/hooks/use-asset-registry'
+import { PriceSparklineSeries, PriceSparklines } from '@/components/ui/PriceSparklines'
+import { useRaceStore } from '../../store/useRaceStore'
+
+// Each asset's move from its locked start price over the current race's performance window
+export const RacePriceSparklines = memo(function RacePriceSparklines() {
+  const race = useRaceStore((s) => s.race)
+  const priceHistory = useRaceStore((s) => s.priceHistory)
+  const leaderboard = useRaceStore((s) => s.liveRaceData?.leaderboard)
+  const registry = useAssetRegistry()
+
+  const lockTs = race?.lockTs
+  const settleTs = race?.settleTs
+  const timeWindow = useMemo(
+    () => (lockTs && settleTs ? { start: lockTs * 1000, end: settleTs * 1000 } : undefined),
+    [lockTs, settleTs],
+  )
+
+  const series = useMemo((): PriceSparklineSeries[] => {
+    if (!race?.assets || priceHistory.raceId !== race.raceId) return []
+    return race.assets.map((asset, index) => ({
+      symbol: asset.symbol,
+      color: registry[index]?.color ?? asset.color,
+      startPrice: asset.startPrice ?? leaderboard?.find((entry) => entry.index === index)?.startPrice,
+      samples: priceHistory.samples[asset.symbol] ?? [],
+    }))
+  }, [race?.assets, race?.raceId, priceHistory, leaderboard, registry])
+
+  if (!timeWindow || series.length === 0) return null
+
+  return <PriceSparklines series={series} timeWindow={timeWindow} />
+})
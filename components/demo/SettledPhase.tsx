@@ -32,9 +32,11 @@ import {
 import { useNotification } from '@/components/ui/NotificationProvider'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 
+import { microToUsdc, settlePayout } from '../../services/payoutMath'
 import { useRaceStore } from '../../store/useRaceStore'
 import { useClaimPayout } from './use-claim-payout'
-import SolanaLogo from '@/components/ui/SolanaLogo'
+import { TransactionStatusText } from './use-transaction-status'
+import { AssetIcon } from '@/components/ui/AssetIcon'
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window')
 const isTablet = screenWidth >= 768
@@ -230,9 +232,6 @@ function _EnhancedSettledPhase({
   const userBets = useRaceStore((s) => s.userBets)
   const fetchRaceDetails = useRaceStore((s) => s.fetchRaceDetails)
   const fetchUserBets = useRaceStore((s) => s.fetchUserBets)
-  const connectWebSocket = useRaceStore((s) => s.connectWebSocket)
-  const subscribeToRace = useRaceStore((s) => s.subscribeToRace)
-  const isConnected = useRaceStore((s) => s.isConnected)
   const playerAddress = account?.publicKey?.toBase58 ? account.publicKey.toBase58() : account?.publicKey?.toString?.()
 
   // One-time fetch on mount/when race changes: get final race state, then bets if needed
@@ -245,21 +244,6 @@ function _EnhancedSettledPhase({
     }
   }, [race?.raceId, playerAddress, fetchRaceDetails, fetchUserBets])
 
-  // Connect to websocket for real-time settled phase updates
-  React.useEffect(() => {
-    if (!race?.raceId) return
-    if (!isConnected) {
-      connectWebSocket().then(() => {
-        if (race.raceId) {
-          subscribeToRace(race.raceId)
-          console.log(`🔌 Connected to websocket for settled phase updates on race ${race.raceId}`)
-        }
-      })
-    } else {
-      subscribeToRace(race.raceId)
-    }
-  }, [race?.raceId, isConnected, connectWebSocket, subscribeToRace])
-
   const derivedUserBet = React.useMemo(() => {
     if (userBet) return userBet
     if (userBets && race?.raceId) {
@@ -323,51 +307,6 @@ function _EnhancedSettledPhase({
     } catch (error) {}
   }, [])
 
-  // Poll for final settlement while backend finalizes results, then stop automatically
-  const settlePollRef = useRef<ReturnType<typeof setInterval> | null>(null)
-  useEffect(() => {
-    if (!race?.raceId) return
-
-    const hasFinalizedPrices = Array.isArray(race?.assets)
-      ? race.assets.every((a: any) => typeof a?.endPrice === 'number')
-      : false
-    const fullySettled = race?.state === 'Settled' && hasFinalizedPrices
-
-    if (fullySettled) {
-      if (settlePollRef.current) {
-        clearInterval(settlePollRef.current as any)
-        settlePollRef.current = null
-      }
-      return
-    }
-
-    if (settlePollRef.current) return
-
-    const fetchLatest = async () => {
-      try {
-        await useRaceStore.getState().fetchRaceDetails(race.raceId, false)
-      } catch (_) {}
-    }
-
-    fetchLatest()
-    settlePollRef.current = setInterval(fetchLatest, 2000)
-
-    const stopTimer = setTimeout(() => {
-      if (settlePollRef.current) {
-        clearInterval(settlePollRef.current as any)
-        settlePollRef.current = null
-      }
-    }, 120000) // hard stop after 2 minutes
-
-    return () => {
-      if (settlePollRef.current) {
-        clearInterval(settlePollRef.current as any)
-        settlePollRef.current = null
-      }
-      clearTimeout(stopTimer as any)
-    }
-  }, [race?.raceId, race?.state, Array.isArray(race?.assets) ? race.assets.length : 0, playerAddress])
-
   useEffect(() => {
     const checkReduceMotion = async () => {
       if (Platform.OS === 'ios') {
@@ -551,14 +490,23 @@ function _EnhancedSettledPhase({
     let claimableAmount = 0
 
     if (isActualWinner) {
-      const totalPool = race?.totalPool || 0
-      const winningPool = race?.assetPools?.[derivedUserBet.assetIdx] || 0
-      const feeRate = 0.05
-      const netPool = totalPool * (1 - feeRate)
-
-      if (winningPool > 0 && totalPool > 0) {
-        const userShareOfWinningPool = derivedUserBet.amount / 1_000_000 / (winningPool / 1_000_000)
-        claimableAmount = userShareOfWinningPool * (netPool / 1_000_000)
+      // Exactly what claim_payout transfers: the recorded pools, fee snapshot and any tied winners
+      const { payout } = settlePayout({
+        pools: race?.assetPools || [],
+        feeBps: race?.feeBps ?? 500,
+        winningAssets: race?.winningAssets?.length
+          ? race.winningAssets
+          : raceResults.winnerAssets.map((w: any) => w.index),
+        assetIdx: derivedUserBet.assetIdx,
+        stake: derivedUserBet.amount,
+        netPool: race?.netPool,
+        winningPool: race?.winningPool,
+        // Once claimed, claimedPool already includes this bet and the dust step no longer applies
+        claimedPool: derivedUserBet.claimed ? undefined : race?.claimedPool,
+      })
+
+      if (payout > BigInt(0)) {
+        claimableAmount = microToUsdc(payout)
         actualPayout = claimableAmount - originalAmount
       }
     }
@@ -573,7 +521,18 @@ function _EnhancedSettledPhase({
       finalPerformance: userAsset.performance,
       performanceVsWinner: userAsset.performance - raceResults.maxPerformance,
     }
-  }, [derivedUserBet, assetPerformances, raceResults, race?.totalPool, race?.assetPools, race?.participantCount])
+  }, [
+    derivedUserBet,
+    assetPerformances,
+    raceResults,
+    race?.assetPools,
+    race?.feeBps,
+    race?.winningAssets,
+    race?.netPool,
+    race?.winningPool,
+    race?.claimedPool,
+    race?.participantCount,
+  ])
 
   const isWinner = userPosition?.isWinner || false
   const winnerAsset = raceResults?.winnerAsset
@@ -952,21 +911,12 @@ function _EnhancedSettledPhase({
                 {/* Asset badge for sharing */}
                 <View style={styles.assetBadgeLarge}>
                   <View style={styles.assetRingLarge} />
-                  {userPosition?.asset?.symbol === 'BTC' ? (
-                    <View style={styles.assetIconCircleBtc}>
-                      <MaterialCommunityIcons name="currency-btc" size={18} color="#000" />
-                    </View>
-                  ) : userPosition?.asset?.symbol === 'ETH' ? (
-                    <View style={styles.assetIconCircleEth}>
-                      <MaterialCommunityIcons name="ethereum" size={18} color="#fff" />
-                    </View>
-                  ) : userPosition?.asset?.symbol === 'SOL' ? (
-                    <View style={styles.assetIconCircleSol}>
-                      <SolanaLogo size={18} />
-                    </View>
-                  ) : (
-                    <View style={[styles.assetDotLarge, { backgroundColor: userPosition?.asset.color }]} />
-                  )}
+                  <AssetIcon
+                    symbol={userPosition?.asset?.symbol}
+                    size={18}
+                    style={styles.assetIconCircle}
+                    fallback={<View style={[styles.assetDotLarge, { backgroundColor: userPosition?.asset.color }]} />}
+                  />
                   <Text style={styles.assetBadgeText}>{userPosition?.asset.symbol}</Text>
                 </View>
               </View>
@@ -1173,11 +1123,17 @@ function _EnhancedSettledPhase({
                                 ) : (
                                   <MaterialCommunityIcons name="wallet-plus" size={20} color="#000" />
                                 )}
-                                <Text style={styles.claimButtonText}>
-                                  {isClaimingPayout
-                                    ? 'Claiming...'
-                                    : `Claim $${userPosition?.claimableAmount.toFixed(2)}`}
-                                </Text>
+                                {isClaimingPayout ? (
+                                  <TransactionStatusText
+                                    kind="claim_payout"
+                                    fallback="Claiming..."
+                                    style={styles.claimButtonText}
+                                  />
+                                ) : (
+                                  <Text style={styles.claimButtonText}>
+                                    {`Claim $${userPosition?.claimableAmount.toFixed(2)}`}
+                                  </Text>
+                                )}
                               </LinearGradient>
                             </TouchableOpacity>
                           </Animated.View>
@@ -1566,35 +1522,13 @@ const styles = StyleSheet.create({
     height: 24,
     borderRadius: 12,
   },
-  assetIconCircleBtc: {
-    width: 28,
-    height: 28,
-    borderRadius: 14,
-    backgroundColor: '#F7931A',
-    alignItems: 'center',
-    justifyContent: 'center',
-    borderWidth: 1,
-    borderColor: 'rgba(0,0,0,0.2)',
-  },
-  assetIconCircleEth: {
-    width: 28,
-    height: 28,
-    borderRadius: 14,
-    backgroundColor: '#627EEA',
-    alignItems: 'center',
-    justifyContent: 'center',
-    borderWidth: 1,
-    borderColor: 'rgba(0,0,0,0.2)',
-  },
-  assetIconCircleSol: {
+  assetIconCircle: {
     width: 28,
     height: 28,
     borderRadius: 14,
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#0B0B0B',
     borderWidth: 1,
-    borderColor: 'rgba(255,255,255,0.08)',
   },
   assetBadgeText: {
     position: 'absolute',
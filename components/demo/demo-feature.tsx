@@ -27,6 +27,7 @@ import { useConnection } from '@/components/solana/solana-provider'
 import { useWalletUi } from '@/components/solana/use-wallet-ui'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 
+import { setSyncPlayer, startSyncScheduler } from '../../store/syncScheduler'
 import {
   getCurrentPhase,
   getTimeRemaining,
@@ -172,10 +173,6 @@ export function DemoFeature() {
   const isLoading = useRaceStore((s) => s.isLoading)
   const error = useRaceStore((s) => s.error)
   const fetchCommitPhaseData = useRaceStore((s) => s.fetchCommitPhaseData)
-  const fetchPerformancePhaseData = useRaceStore((s) => s.fetchPerformancePhaseData)
-  const fetchSettledPhaseData = useRaceStore((s) => s.fetchSettledPhaseData)
-  const connectWebSocket = useRaceStore((s) => s.connectWebSocket)
-  const subscribeToRace = useRaceStore((s) => s.subscribeToRace)
   const isConnected = useRaceStore((s) => s.isConnected)
 
   const [currentTime, setCurrentTime] = useState(Date.now() / 1000)
@@ -184,10 +181,8 @@ export function DemoFeature() {
   const [showHelp, setShowHelp] = useState(false)
 
   const animationRefs = useRef<Animated.CompositeAnimation[]>([])
-  const intervalRefs = useRef<number[]>([])
   const [reduceMotion, setReduceMotion] = useState(ANIMATION_REDUCE_MOTION)
   const playerAddress = account?.publicKey?.toBase58 ? account.publicKey.toBase58() : account?.publicKey?.toString?.()
-  const lastSubscribedRaceIdRef = useRef<number | null>(null)
 
   const safeToFixed = useCallback((value: number | undefined | null, decimals: number = 2): string => {
     if (typeof value !== 'number' || isNaN(value)) return '0.00'
@@ -205,9 +200,6 @@ export function DemoFeature() {
     return userBets.find((bet) => bet.raceId === race.raceId)
   }, [userBets, race?.raceId])
 
-  const [lastRaceId, setLastRaceId] = useState<number | undefined>()
-  const [isCheckingForNewRace, setIsCheckingForNewRace] = useState(false)
-
   useEffect(() => {
     if (race) {
       console.log('🏁 Current Race Debug Info:', {
@@ -227,65 +219,6 @@ export function DemoFeature() {
     }
   }, [race, currentPhase])
 
-  useEffect(() => {
-    if (!race) return
-
-    if (lastRaceId !== race.raceId) {
-      console.log(`🔄 Race transition detected: ${lastRaceId} → ${race.raceId}`)
-      setLastRaceId(race.raceId)
-      return
-    }
-
-    if (currentPhase === 'settled' && !isCheckingForNewRace) {
-      setIsCheckingForNewRace(true)
-
-      const checkInterval = setInterval(async () => {
-        try {
-          console.log(`🔍 Checking for new race while current race ${race.raceId} is settled...`)
-
-          const { apiService } = useRaceStore.getState()
-          const response = await apiService.getCurrentRace()
-
-          if (response.success && response.data) {
-            const newRaceId = response.data.raceId
-
-            if (newRaceId && newRaceId !== race.raceId) {
-              console.log(`🎉 New race detected: ${race.raceId} → ${newRaceId}`)
-              clearInterval(checkInterval)
-              setIsCheckingForNewRace(false)
-
-              const newPhase = getCurrentPhase(response.data)
-              console.log(`🔄 New race ${newRaceId} is in ${newPhase} phase`)
-
-              if (newPhase === 'commit') {
-                await fetchCommitPhaseData(undefined, account?.publicKey?.toString(), false)
-              } else if (newPhase === 'performance') {
-                await fetchPerformancePhaseData(undefined, account?.publicKey?.toString(), false)
-              } else {
-                // Settled again; defer to SettledPhase
-              }
-
-              if (!isConnected) {
-                await connectWebSocket()
-              }
-              subscribeToRace(newRaceId)
-            }
-          }
-        } catch (error) {
-          console.error('❌ Error checking for new race:', error)
-        }
-      }, 15000)
-
-      intervalRefs.current.push(checkInterval)
-
-      setTimeout(() => {
-        clearInterval(checkInterval)
-        setIsCheckingForNewRace(false)
-        console.log(`⏰ Stopped checking for new races after 2 minutes`)
-      }, 120000)
-    }
-  }, [race?.raceId, currentPhase, lastRaceId, isCheckingForNewRace, account?.publicKey])
-
   const phaseConfig = PHASE_CONFIG[currentPhase]
 
   useEffect(() => {
@@ -303,56 +236,16 @@ export function DemoFeature() {
       animationRefs.current.forEach((animation) => {
         animation.stop()
       })
-      intervalRefs.current.forEach((interval) => {
-        clearInterval(interval)
-      })
       animationRefs.current = []
-      intervalRefs.current = []
     }
   }, [])
 
-  useEffect(() => {
-    if (currentPhase === 'commit') {
-      fetchCommitPhaseData(undefined, playerAddress)
-    } else if (currentPhase === 'performance') {
-      fetchPerformancePhaseData(undefined, playerAddress)
-      if (!isConnected) {
-        connectWebSocket().then(() => {
-          if (race?.raceId) {
-            subscribeToRace(race.raceId)
-          }
-        })
-      }
-    } else if (currentPhase === 'settled') {
-      // Settled data handled by SettledPhase to avoid duplicate polling.
-    }
-  }, [currentPhase, playerAddress])
+  // Polling cadence, phase-boundary refetches and socket subscriptions all live in the sync scheduler
+  useEffect(() => startSyncScheduler(), [])
 
   useEffect(() => {
-    if (!race && !isLoading) {
-      fetchCommitPhaseData(undefined, playerAddress)
-    }
-  }, [race, isLoading, playerAddress])
-
-  // Force-refresh current race at phase boundaries to avoid stale phase transitions
-  useEffect(() => {
-    if (!race) return
-    const now = Math.floor(currentTime)
-    const secondsToLock = race.lockTs - now
-    const secondsToSettle = race.settleTs - now
-    // When approaching a boundary, refetch aggressively
-    if ((secondsToLock >= -2 && secondsToLock <= 2) || (secondsToSettle >= -2 && secondsToSettle <= 2)) {
-      useRaceStore.getState().fetchCurrentRace(false)
-    }
-  }, [race?.raceId, currentTime])
-
-  useEffect(() => {
-    if (!race?.raceId || !isConnected) return
-    if (lastSubscribedRaceIdRef.current !== race.raceId) {
-      subscribeToRace(race.raceId)
-      lastSubscribedRaceIdRef.current = race.raceId
-    }
-  }, [race?.raceId, isConnected])
+    setSyncPlayer(playerAddress)
+  }, [playerAddress])
 
   const timeCalculations = useMemo(() => {
     if (!race) return { progress: 0, secondsLeft: 0, urgency: 'normal' }
@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useState, useSyncExternalStore } from 'react'
+
+import { StyleProp, Text, TextStyle, View, ViewStyle } from 'react-native'
+
+import { useConnection } from '@/components/solana/solana-provider'
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js'
+import { useQuery } from '@tanstack/react-query'
+
+import { OnChainService } from '../../services/onchainService'
+import {
+  getPriorityFeeLevel,
+  PriorityFeeLevel,
+  setPriorityFeeLevel,
+  subscribeToPriorityFeeLevel,
+} from '../../services/priorityFees'
+
+export const PRIORITY_FEE_LABELS: Record<PriorityFeeLevel, string> = {
+  normal: 'Normal',
+  fast: 'Fast',
+  turbo: 'Turbo',
+}
+
+export function formatPriorityFee(lamports: number): string {
+  return `${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`
+}
+
+export function usePriorityFeeLevel(): [PriorityFeeLevel, (level: PriorityFeeLevel) => void] {
+  const level = useSyncExternalStore(subscribeToPriorityFeeLevel, getPriorityFeeLevel)
+  const setLevel = useCallback((next: PriorityFeeLevel) => setPriorityFeeLevel(next), [])
+  return [level, setLevel]
+}
+
+export interface PlaceBetFeeInput {
+  raceId?: number
+  playerAddress?: string
+  assetIdx: number
+  amount: number // micro-USDC
+}
+
+// Wait for the amount to stop changing before simulating, so typing doesn't quote every keystroke
+const AMOUNT_DEBOUNCE_MS = 400
+
+function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
+
+// The fee the bet transaction would carry: same writable accounts, simulated compute limit and level
+export function usePriorityFeeQuote({ raceId, playerAddress, assetIdx, amount }: PlaceBetFeeInput) {
+  const connection = useConnection()
+  const [level] = usePriorityFeeLevel()
+  const quotedAmount = useDebouncedValue(amount, AMOUNT_DEBOUNCE_MS)
+
+  return useQuery({
+    queryKey: ['priority-fee-quote', connection.rpcEndpoint, raceId, playerAddress, assetIdx, quotedAmount, level],
+    queryFn: () =>
+      new OnChainService(connection).quotePlaceBetPriorityFee({
+        playerPublicKey: new PublicKey(playerAddress!),
+        raceId: raceId!,
+        assetIdx,
+        amount: quotedAmount,
+      }),
+    enabled: raceId !== undefined && !!playerAddress && assetIdx >= 0 && quotedAmount > 0,
+    staleTime: 10_000,
+  })
+}
+
+export function PriorityFeeRow({
+  style,
+  labelStyle,
+  valueStyle,
+  ...input
+}: PlaceBetFeeInput & {
+  style?: StyleProp<ViewStyle>
+  labelStyle?: StyleProp<TextStyle>
+  valueStyle?: StyleProp<TextStyle>
+}) {
+  const { data: quote, isLoading } = usePriorityFeeQuote(input)
+  const [level] = usePriorityFeeLevel()
+
+  return (
+    <View style={style}>
+      <Text style={labelStyle}>
+        Priority Fee ({PRIORITY_FEE_LABELS[level]}
+        {quote ? `, ${quote.computeUnits.toLocaleString()} CU` : ''})
+      </Text>
+      <Text style={valueStyle}>{quote ? formatPriorityFee(quote.lamports) : isLoading ? '...' : '—'}</Text>
+    </View>
+  )
+}
@@ -0,0 +1,44 @@
+import React from 'react'
+
+import { StyleProp, Text, TextStyle, View, ViewStyle } from 'react-native'
+
+import { useConnection } from '@/components/solana/solana-provider'
+import { lamportsToSol } from '@/utils/lamports-to-sol'
+import { PublicKey } from '@solana/web3.js'
+import { useQuery } from '@tanstack/react-query'
+
+import { OnChainService } from '../../services/onchainService'
+
+export function useUsdcAccountSetup(playerAddress?: string) {
+  const connection = useConnection()
+
+  return useQuery({
+    queryKey: ['usdc-account-setup', connection.rpcEndpoint, playerAddress],
+    queryFn: () => new OnChainService(connection).getUsdcAccountSetup(new PublicKey(playerAddress!)),
+    enabled: !!playerAddress,
+    staleTime: 30_000,
+  })
+}
+
+// Only renders for wallets without a USDC account, where the first bet also pays its rent
+export function TokenAccountRentRow({
+  playerAddress,
+  style,
+  labelStyle,
+  valueStyle,
+}: {
+  playerAddress?: string
+  style?: StyleProp<ViewStyle>
+  labelStyle?: StyleProp<TextStyle>
+  valueStyle?: StyleProp<TextStyle>
+}) {
+  const { data: setup } = useUsdcAccountSetup(playerAddress)
+  if (!setup || setup.exists) return null
+
+  return (
+    <View style={style}>
+      <Text style={labelStyle}>USDC Account Setup (one-time)</Text>
+      <Text style={valueStyle}>{lamportsToSol(setup.rentLamports)} SOL</Text>
+    </View>
+  )
+}
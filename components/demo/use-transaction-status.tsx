@@ -0,0 +1,50 @@
+import React, { useSyncExternalStore } from 'react'
+
+import { StyleProp, Text, TextStyle } from 'react-native'
+
+import {
+  getLatestTransaction,
+  isTerminalStatus,
+  subscribeToTransactions,
+  TransactionKind,
+  TransactionStatus,
+  TransactionStatusEvent,
+} from '../../services/transactionLifecycle'
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  built: 'Waiting for wallet',
+  signed: 'Sending',
+  sent: 'Confirming',
+  confirmed: 'Confirmed',
+  finalized: 'Finalized',
+  expired: 'Retrying',
+  failed: 'Failed',
+}
+
+export function describeTransactionStatus(status: TransactionStatus): string {
+  return STATUS_LABELS[status]
+}
+
+export function useTransactionStatus(kind: TransactionKind): TransactionStatusEvent | undefined {
+  return useSyncExternalStore(subscribeToTransactions, () => getLatestTransaction(kind))
+}
+
+// Busy label for submit buttons: shows the pipeline stage while a transaction is in flight
+export function TransactionStatusText({
+  kind,
+  fallback,
+  uppercase = false,
+  style,
+}: {
+  kind: TransactionKind
+  fallback: string
+  uppercase?: boolean
+  style?: StyleProp<TextStyle>
+}) {
+  const event = useTransactionStatus(kind)
+  if (!event || isTerminalStatus(event.status)) {
+    return <Text style={style}>{fallback}</Text>
+  }
+  const label = describeTransactionStatus(event.status)
+  return <Text style={style}>{`${uppercase ? label.toUpperCase() : label}...`}</Text>
+}
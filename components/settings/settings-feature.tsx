@@ -0,0 +1,330 @@
+import React, { useCallback } from 'react'
+
+import * as Haptics from 'expo-haptics'
+import { Alert, Platform, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+
+import { useCluster } from '@/components/cluster/cluster-provider'
+import { PRIORITY_FEE_LABELS, usePriorityFeeLevel } from '@/components/demo/use-priority-fee'
+import { useNotification } from '@/components/ui/NotificationProvider'
+import { usePriceSource } from '@/hooks/use-price-source'
+import { Environment, ENVIRONMENT_NAMES, getConfig, switchEnvironment } from '@/services/config'
+import { PRICE_SOURCES, PriceSourceKind } from '@/services/priceSource'
+import { PRIORITY_FEE_LEVELS, PriorityFeeLevel } from '@/services/priorityFees'
+import { ellipsify } from '@/utils/ellipsify'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+
+const COLORS = {
+  background: '#000814',
+  card: 'rgba(255,255,255,0.04)',
+  border: 'rgba(255,255,255,0.1)',
+  primary: '#9945FF',
+  gold: '#FFD700',
+  text: {
+    primary: '#FFFFFF',
+    secondary: 'rgba(255,255,255,0.7)',
+    tertiary: 'rgba(255,255,255,0.5)',
+  },
+} as const
+
+function EnvironmentCard({
+  environment,
+  isActive,
+  onSelect,
+}: {
+  environment: Environment
+  isActive: boolean
+  onSelect: (environment: Environment) => void
+}) {
+  const config = getConfig(environment)
+  const rows: [string, string][] = [
+    ['RPC', config.rpcEndpoint.replace(/^https?:\/\//, '')],
+    ['Backend', config.backendUrl.replace(/^https?:\/\//, '')],
+    ['Program', ellipsify(config.programId.toBase58(), 6)],
+    ['USDC Mint', ellipsify(config.usdcMint.toBase58(), 6)],
+  ]
+
+  return (
+    <TouchableOpacity
+      style={[styles.envCard, isActive && styles.envCardActive]}
+      onPress={() => onSelect(environment)}
+      disabled={isActive}
+      accessibilityRole="radio"
+      accessibilityState={{ selected: isActive }}
+      accessibilityLabel={`${config.label} network`}
+    >
+      <View style={styles.envHeader}>
+        <Text style={styles.envLabel}>{config.label}</Text>
+        <MaterialCommunityIcons
+          name={isActive ? 'radiobox-marked' : 'radiobox-blank'}
+          size={20}
+          color={isActive ? COLORS.gold : COLORS.text.tertiary}
+        />
+      </View>
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.envRow}>
+          <Text style={styles.envRowLabel}>{label}</Text>
+          <Text style={styles.envRowValue} numberOfLines={1}>
+            {value}
+          </Text>
+        </View>
+      ))}
+    </TouchableOpacity>
+  )
+}
+
+const PRIORITY_FEE_DESCRIPTIONS: Record<PriorityFeeLevel, string> = {
+  normal: 'Median of recent fees. Cheapest, fine outside the last seconds of betting.',
+  fast: '75th percentile. Good default for bets near lock time.',
+  turbo: '95th percentile. Highest chance of landing during congestion.',
+}
+
+function PriorityFeeOption({
+  level,
+  isActive,
+  onSelect,
+}: {
+  level: PriorityFeeLevel
+  isActive: boolean
+  onSelect: (level: PriorityFeeLevel) => void
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.envCard, isActive && styles.envCardActive]}
+      onPress={() => onSelect(level)}
+      disabled={isActive}
+      accessibilityRole="radio"
+      accessibilityState={{ selected: isActive }}
+      accessibilityLabel={`${PRIORITY_FEE_LABELS[level]} transaction speed`}
+    >
+      <View style={styles.envHeader}>
+        <Text style={styles.envLabel}>{PRIORITY_FEE_LABELS[level]}</Text>
+        <MaterialCommunityIcons
+          name={isActive ? 'radiobox-marked' : 'radiobox-blank'}
+          size={20}
+          color={isActive ? COLORS.gold : COLORS.text.tertiary}
+        />
+      </View>
+      <Text style={styles.envRowValue}>{PRIORITY_FEE_DESCRIPTIONS[level]}</Text>
+    </TouchableOpacity>
+  )
+}
+
+const PRICE_SOURCE_LABELS: Record<PriceSourceKind, string> = {
+  backend: 'Race Server',
+  pyth: 'Pyth Direct',
+}
+
+const PRICE_SOURCE_DESCRIPTIONS: Record<PriceSourceKind, string> = {
+  backend: 'Prices pushed with race updates. Matches what the leaderboard scores.',
+  pyth: 'Reads the race feeds from Pyth Hermes. Use it when live prices lag behind.',
+}
+
+function PriceSourceOption({
+  source,
+  isActive,
+  onSelect,
+}: {
+  source: PriceSourceKind
+  isActive: boolean
+  onSelect: (source: PriceSourceKind) => void
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.envCard, isActive && styles.envCardActive]}
+      onPress={() => onSelect(source)}
+      disabled={isActive}
+      accessibilityRole="radio"
+      accessibilityState={{ selected: isActive }}
+      accessibilityLabel={`${PRICE_SOURCE_LABELS[source]} price feed`}
+    >
+      <View style={styles.envHeader}>
+        <Text style={styles.envLabel}>{PRICE_SOURCE_LABELS[source]}</Text>
+        <MaterialCommunityIcons
+          name={isActive ? 'radiobox-marked' : 'radiobox-blank'}
+          size={20}
+          color={isActive ? COLORS.gold : COLORS.text.tertiary}
+        />
+      </View>
+      <Text style={styles.envRowValue}>{PRICE_SOURCE_DESCRIPTIONS[source]}</Text>
+    </TouchableOpacity>
+  )
+}
+
+export function SettingsFeature() {
+  const insets = useSafeAreaInsets()
+  const { environment: activeEnvironment } = useCluster()
+  const { showSuccess } = useNotification()
+  const [priorityFeeLevel, setPriorityFeeLevel] = usePriorityFeeLevel()
+  const [priceSource, setPriceSource] = usePriceSource()
+
+  const handleSelectPriorityFee = useCallback(
+    (level: PriorityFeeLevel) => {
+      Haptics.selectionAsync()
+      setPriorityFeeLevel(level)
+    },
+    [setPriorityFeeLevel],
+  )
+
+  const handleSelectPriceSource = useCallback(
+    (source: PriceSourceKind) => {
+      Haptics.selectionAsync()
+      setPriceSource(source)
+    },
+    [setPriceSource],
+  )
+
+  const handleSelectEnvironment = useCallback(
+    (environment: Environment) => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+      const { label } = getConfig(environment)
+      Alert.alert(
+        `Switch to ${label}?`,
+        'Cached race data and live connections will be reset. You may need to approve your wallet again.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Switch',
+            onPress: () => {
+              switchEnvironment(environment)
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+              showSuccess(`Now connected to ${label}`, '🌐 Network Switched')
+            },
+          },
+        ],
+      )
+    },
+    [showSuccess],
+  )
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={[
+          styles.header,
+          { paddingTop: Math.max(insets.top, Platform.OS === 'android' ? StatusBar.currentHeight || 0 : 0) + 8 },
+        ]}
+      >
+        <Text style={styles.title}>Settings</Text>
+      </View>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Network</Text>
+        <Text style={styles.sectionHint}>Choose which deployment the app reads races from and sends bets to.</Text>
+        {ENVIRONMENT_NAMES.map((environment) => (
+          <EnvironmentCard
+            key={environment}
+            environment={environment}
+            isActive={environment === activeEnvironment}
+            onSelect={handleSelectEnvironment}
+          />
+        ))}
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Transaction Speed</Text>
+        <Text style={styles.sectionHint}>
+          Priority fee paid on bets and claims, based on recent network fees. Faster levels land sooner when the network
+          is busy.
+        </Text>
+        {PRIORITY_FEE_LEVELS.map((level) => (
+          <PriorityFeeOption
+            key={level}
+            level={level}
+            isActive={level === priorityFeeLevel}
+            onSelect={handleSelectPriorityFee}
+          />
+        ))}
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Price Feed</Text>
+        <Text style={styles.sectionHint}>
+          Where live prices during a race come from. Results are always settled on chain from Pyth.
+        </Text>
+        {PRICE_SOURCES.map((source) => (
+          <PriceSourceOption
+            key={source}
+            source={source}
+            isActive={source === priceSource}
+            onSelect={handleSelectPriceSource}
+          />
+        ))}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    paddingBottom: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text.primary,
+    fontFamily: 'Sora-Bold',
+    letterSpacing: 0.5,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    color: COLORS.text.primary,
+    fontFamily: 'Inter-SemiBold',
+    letterSpacing: 0.3,
+    textTransform: 'uppercase',
+  },
+  sectionSpacing: {
+    marginTop: 12,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: COLORS.text.secondary,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 4,
+  },
+  envCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 12,
+    gap: 6,
+  },
+  envCardActive: {
+    borderColor: 'rgba(153, 69, 255, 0.6)',
+    backgroundColor: 'rgba(153, 69, 255, 0.12)',
+  },
+  envHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  envLabel: {
+    fontSize: 16,
+    color: COLORS.text.primary,
+    fontFamily: 'Sora-SemiBold',
+  },
+  envRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  envRowLabel: {
+    fontSize: 12,
+    color: COLORS.text.tertiary,
+    fontFamily: 'Inter-Medium',
+  },
+  envRowValue: {
+    flexShrink: 1,
+    fontSize: 12,
+    color: COLORS.text.secondary,
+    fontFamily: 'Inter-Regular',
+  },
+})
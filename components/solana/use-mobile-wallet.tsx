@@ -69,6 +69,26 @@ export function useMobileWallet() {
     [authorizeSession],
   )
 
+  const signAllTransactions = useCallback(
+    async <T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]> => {
+      return await transact(async (wallet) => {
+        await authorizeSession(wallet)
+        console.log(`🔄 Sending ${transactions.length} transaction(s) to wallet for signing...`)
+        return await wallet.signTransactions({ transactions })
+      })
+    },
+    [authorizeSession],
+  )
+
+  // Sign only: the caller submits and rebroadcasts the signed bytes itself
+  const signTransaction = useCallback(
+    async <T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> => {
+      const [signed] = await signAllTransactions([transaction])
+      return signed
+    },
+    [signAllTransactions],
+  )
+
   const signMessage = useCallback(
     async (message: Uint8Array): Promise<Uint8Array> => {
       return await transact(async (wallet) => {
@@ -89,8 +109,10 @@ export function useMobileWallet() {
       signIn,
       disconnect,
       signAndSendTransaction,
+      signTransaction,
+      signAllTransactions,
       signMessage,
     }),
-    [connect, disconnect, signAndSendTransaction, signIn, signMessage],
+    [connect, disconnect, signAndSendTransaction, signTransaction, signAllTransactions, signIn, signMessage],
   )
 }
@@ -2,7 +2,8 @@ import { useMobileWallet } from '@/components/solana/use-mobile-wallet'
 import { useAuthorization } from '@/components/solana/use-authorization'
 
 export function useWalletUi() {
-  const { connect, signAndSendTransaction, signMessage, signIn } = useMobileWallet()
+  const { connect, signAndSendTransaction, signTransaction, signAllTransactions, signMessage, signIn } =
+    useMobileWallet()
   const { selectedAccount, deauthorizeSessions } = useAuthorization()
 
   return {
@@ -10,6 +11,8 @@ export function useWalletUi() {
     connect,
     disconnect: deauthorizeSessions,
     signAndSendTransaction,
+    signTransaction,
+    signAllTransactions,
     signIn,
     signMessage,
   }
@@ -0,0 +1,28 @@
+import React, { ReactNode } from 'react'
+import { StyleProp, View, ViewStyle } from 'react-native'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+
+import { getAssetIconSpec } from '@/services/assetRegistry'
+import { SolanaLogo } from './SolanaLogo'
+
+interface AssetIconProps {
+  symbol?: string
+  size: number // glyph size; the container is sized by `style`
+  style?: StyleProp<ViewStyle>
+  fallback?: ReactNode // rendered for assets without a brand icon
+}
+
+export function AssetIcon({ symbol, size, style, fallback = null }: AssetIconProps) {
+  const spec = symbol ? getAssetIconSpec(symbol) : undefined
+  if (!spec) return <>{fallback}</>
+
+  return (
+    <View style={[style, { backgroundColor: spec.background, borderColor: spec.border }]}>
+      {spec.kind === 'solana' ? (
+        <SolanaLogo size={size} />
+      ) : (
+        <MaterialCommunityIcons name={spec.name as any} size={size} color={spec.foreground} />
+      )}
+    </View>
+  )
+}
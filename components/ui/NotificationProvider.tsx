@@ -2,9 +2,11 @@ import React, {
   createContext,
   useCallback,
   useContext,
+  useEffect,
   useState,
 } from 'react'
 
+import { subscribeToTransactions } from '../../services/transactionLifecycle'
 import { CustomNotification } from './CustomNotification'
 
 interface NotificationData {
@@ -90,6 +92,15 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     addNotification('info', message, title, duration)
   }, [addNotification])
 
+  // Surface re-sign prompts from the transaction pipeline; success and failure stay with the caller
+  useEffect(() => {
+    return subscribeToTransactions((event) => {
+      if (event.status === 'expired') {
+        showWarning('The network didn\'t confirm in time. Approve the retry in your wallet.', '⌛ Transaction Expired', 4000)
+      }
+    })
+  }, [showWarning])
+
   const contextValue: NotificationContextType = {
     showSuccess,
     showError,
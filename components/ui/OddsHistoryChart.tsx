@@ -0,0 +1,289 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { LayoutChangeEvent, PanResponder, StyleSheet, Text, TouchableOpacity, View } from 'react-native'
+import Svg, { Circle, Line, Path } from 'react-native-svg'
+
+import { useAssetRegistry } from '@/hooks/use-asset-registry'
+import { getAssetSymbol } from '@/services/assetRegistry'
+import type { OddsSnapshot } from '@/store/useRaceStore'
+
+type ChartMode = 'odds' | 'share'
+
+interface OddsHistoryChartProps {
+  history: OddsSnapshot[] // oldest first, one race
+  height?: number
+  // Commit window in ms; the x axis spans it so the chart lines up with the countdown
+  commitWindow?: { start: number; end: number }
+  // The player's bet, marked on its asset's line
+  entry?: { timestamp: number; assetIdx: number } | null
+  title?: string
+}
+
+const PADDING = 8
+const GRID = 'rgba(255,255,255,0.12)'
+
+const formatOdds = (value: number) => (value > 0 ? `${value.toFixed(2)}x` : '—')
+const formatShare = (value: number) => `${(value * 100).toFixed(1)}%`
+
+// m:ss from the start of the chart's time axis
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// Latest snapshot at or before `timestamp`, or the first one if it's earlier than all of them
+const snapshotIndexAt = (history: OddsSnapshot[], timestamp: number) => {
+  let found = 0
+  history.forEach((snapshot, i) => {
+    if (snapshot.timestamp <= timestamp) found = i
+  })
+  return found
+}
+
+export function OddsHistoryChart({
+  history,
+  height = 140,
+  commitWindow,
+  entry,
+  title = 'Odds History',
+}: OddsHistoryChartProps) {
+  const registry = useAssetRegistry()
+  const [mode, setMode] = useState<ChartMode>('odds')
+  const [width, setWidth] = useState(0)
+  const [scrubIndex, setScrubIndex] = useState<number | null>(null)
+
+  const chart = useMemo(() => {
+    if (history.length === 0 || width === 0) return null
+    const first = history[0].timestamp
+    const last = history[history.length - 1].timestamp
+    const start = Math.min(commitWindow?.start ?? first, first)
+    // Pools stop moving at lock, so the last odds hold until the end of the window
+    const end = Math.max(commitWindow ? Math.min(commitWindow.end, Math.max(Date.now(), last)) : last, last, start + 1)
+    const axisEnd = Math.max(commitWindow?.end ?? end, end)
+    const valueOf = (snapshot: OddsSnapshot, assetIdx: number) =>
+      mode === 'odds' ? (snapshot.odds[assetIdx] ?? 0) : (snapshot.poolShares[assetIdx] ?? 0)
+
+    const assetCount = Math.max(...history.map((snapshot) => snapshot.odds.length))
+    const values = history.flatMap((snapshot) =>
+      Array.from({ length: assetCount }, (_, i) => valueOf(snapshot, i)).filter((value) => value > 0),
+    )
+    const min = mode === 'odds' ? Math.min(1, ...values) : 0
+    const max = mode === 'odds' ? Math.max(min + 1, ...values) : Math.max(0.25, ...values)
+    const x = (timestamp: number) => PADDING + ((timestamp - start) / (axisEnd - start)) * (width - PADDING * 2)
+    const y = (value: number) => PADDING + ((max - value) / (max - min)) * (height - PADDING * 2)
+
+    // Odds only move when a bet lands, so each line steps rather than slopes; unbacked stretches are gaps
+    const lines = Array.from({ length: assetCount }, (_, assetIdx) => {
+      let d = ''
+      let previous: number | null = null
+      history.forEach((snapshot, i) => {
+        const value = valueOf(snapshot, assetIdx)
+        const px = x(snapshot.timestamp).toFixed(1)
+        if (value <= 0) {
+          previous = null
+          return
+        }
+        const py = y(value).toFixed(1)
+        d += previous === null ? ` M${px},${py}` : ` L${px},${y(previous).toFixed(1)} L${px},${py}`
+        previous = value
+        if (i === history.length - 1) d += ` L${x(end).toFixed(1)},${py}`
+      })
+      return { assetIdx, d: d.trim() }
+    })
+
+    const entryIndex = entry ? snapshotIndexAt(history, entry.timestamp) : -1
+    const entryValue = entry && entryIndex >= 0 ? valueOf(history[entryIndex], entry.assetIdx) : 0
+    const marker =
+      entry && entryValue > 0 ? { x: x(Math.max(start, Math.min(entry.timestamp, axisEnd))), y: y(entryValue) } : null
+
+    return { start, axisEnd, lines, marker, min, max, x, valueOf }
+  }, [history, width, height, commitWindow, entry, mode])
+
+  // Kept in a ref so the responder, created once, always sees the current scale
+  const scrubRef = useRef<(locationX: number) => void>(() => {})
+  scrubRef.current = (locationX: number) => {
+    if (!chart || history.length === 0) return
+    const fraction = Math.max(0, Math.min(1, (locationX - PADDING) / Math.max(1, width - PADDING * 2)))
+    setScrubIndex(snapshotIndexAt(history, chart.start + fraction * (chart.axisEnd - chart.start)))
+  }
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      // Claim horizontal drags so a parent ScrollView doesn't take the scrub over
+      onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) > Math.abs(gesture.dy),
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => scrubRef.current(event.nativeEvent.locationX),
+      onPanResponderMove: (event) => scrubRef.current(event.nativeEvent.locationX),
+      onPanResponderRelease: () => setScrubIndex(null),
+      onPanResponderTerminate: () => setScrubIndex(null),
+    }),
+  ).current
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(Math.round(event.nativeEvent.layout.width))
+
+  const colorOf = (assetIdx: number) => registry[assetIdx]?.color ?? 'rgba(255,255,255,0.6)'
+  const shown = history.length > 0 ? history[scrubIndex ?? history.length - 1] : undefined
+  const format = mode === 'odds' ? formatOdds : formatShare
+
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{title}</Text>
+        <View style={styles.modeToggle}>
+          {(['odds', 'share'] as ChartMode[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              onPress={() => setMode(option)}
+              style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+              accessibilityRole="button"
+              accessibilityState={{ selected: mode === option }}
+            >
+              <Text style={[styles.modeText, mode === option && styles.modeTextActive]}>
+                {option === 'odds' ? 'Payout' : 'Pool %'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={[styles.plot, { height }]} onLayout={onLayout} {...panResponder.panHandlers}>
+        {chart ? (
+          <Svg width={width} height={height}>
+            {[0, 0.5, 1].map((fraction) => (
+              <Line
+                key={fraction}
+                x1={PADDING}
+                x2={width - PADDING}
+                y1={PADDING + fraction * (height - PADDING * 2)}
+                y2={PADDING + fraction * (height - PADDING * 2)}
+                stroke={GRID}
+                strokeWidth={1}
+                strokeDasharray="3 5"
+              />
+            ))}
+            {chart.lines.map((line) =>
+              line.d ? (
+                <Path
+                  key={line.assetIdx}
+                  d={line.d}
+                  stroke={colorOf(line.assetIdx)}
+                  strokeWidth={entry?.assetIdx === line.assetIdx ? 2.5 : 1.5}
+                  strokeOpacity={entry && entry.assetIdx !== line.assetIdx ? 0.6 : 1}
+                  fill="none"
+                  strokeLinejoin="round"
+                />
+              ) : null,
+            )}
+            {chart.marker && entry && (
+              <>
+                <Line
+                  x1={chart.marker.x}
+                  x2={chart.marker.x}
+                  y1={PADDING}
+                  y2={height - PADDING}
+                  stroke={colorOf(entry.assetIdx)}
+                  strokeWidth={1}
+                  strokeDasharray="2 3"
+                />
+                <Circle
+                  cx={chart.marker.x}
+                  cy={chart.marker.y}
+                  r={5}
+                  fill="#0B0B0B"
+                  stroke={colorOf(entry.assetIdx)}
+                  strokeWidth={2}
+                />
+              </>
+            )}
+            {scrubIndex !== null && shown && (
+              <Line
+                x1={chart.x(Math.max(chart.start, shown.timestamp))}
+                x2={chart.x(Math.max(chart.start, shown.timestamp))}
+                y1={PADDING}
+                y2={height - PADDING}
+                stroke="rgba(255,255,255,0.7)"
+                strokeWidth={1}
+              />
+            )}
+          </Svg>
+        ) : (
+          <Text style={styles.emptyText}>Odds appear once the first bets land</Text>
+        )}
+      </View>
+
+      {chart && shown && (
+        <>
+          <View style={styles.axisRow}>
+            <Text style={styles.axisLabel}>
+              {scrubIndex !== null ? `At ${formatOffset(shown.timestamp - chart.start)}` : 'Now'}
+              {entry && scrubIndex !== null && shown.timestamp >= entry.timestamp && ' · after your bet'}
+            </Text>
+            <Text style={styles.axisLabel}>
+              {format(chart.min)} – {format(chart.max)}
+            </Text>
+          </View>
+          <View style={styles.legend}>
+            {shown.odds.map((_, assetIdx) => (
+              <View key={assetIdx} style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: colorOf(assetIdx) }]} />
+                <Text style={styles.legendSymbol}>{registry[assetIdx]?.symbol ?? getAssetSymbol(assetIdx)}</Text>
+                <Text style={[styles.legendValue, entry?.assetIdx === assetIdx && { color: colorOf(assetIdx) }]}>
+                  {format(chart.valueOf(shown, assetIdx))}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  wrapper: { marginTop: 12 },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.7)',
+    fontFamily: 'Inter-Regular',
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.12)',
+    overflow: 'hidden',
+  },
+  modeButton: { paddingHorizontal: 10, paddingVertical: 4 },
+  modeButtonActive: { backgroundColor: 'rgba(242,201,76,0.2)' },
+  modeText: { fontSize: 11, color: 'rgba(255,255,255,0.6)', fontFamily: 'Inter-Regular' },
+  modeTextActive: { color: '#F2C94C', fontFamily: 'Inter-SemiBold' },
+  plot: { width: '100%', justifyContent: 'center' },
+  emptyText: {
+    textAlign: 'center',
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.45)',
+    fontFamily: 'Inter-Regular',
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  axisLabel: { fontSize: 10, color: 'rgba(255,255,255,0.5)', fontFamily: 'Inter-Regular' },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    gap: 10,
+  },
+  legendItem: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  legendDot: { width: 8, height: 8, borderRadius: 4 },
+  legendSymbol: { fontSize: 11, color: 'rgba(255,255,255,0.7)', fontFamily: 'Inter-Regular' },
+  legendValue: { fontSize: 11, color: '#FFFFFF', fontFamily: 'Sora-Bold' },
+})
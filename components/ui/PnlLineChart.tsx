@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react'
+import { StyleSheet, Text, View } from 'react-native'
+import Svg, { Defs, Line, LinearGradient, Path, Stop } from 'react-native-svg'
+
+interface PnlLineChartProps {
+  values: number[] // cumulative P&L, oldest first
+  width: number
+  height?: number
+  title?: string
+  formatValue?: (value: number) => string
+}
+
+const PADDING = 6
+const POSITIVE = '#00FF88'
+const NEGATIVE = '#FF4444'
+
+export function PnlLineChart({
+  values,
+  width,
+  height = 120,
+  title,
+  formatValue = (v) => v.toFixed(2),
+}: PnlLineChartProps) {
+  const chart = useMemo(() => {
+    // Start from zero so the first bet's result is visible as a segment
+    const series = [0, ...values]
+    const min = Math.min(0, ...series)
+    const max = Math.max(0, ...series)
+    const span = max - min || 1
+    const x = (i: number) => PADDING + (i / Math.max(1, series.length - 1)) * (width - PADDING * 2)
+    const y = (v: number) => PADDING + ((max - v) / span) * (height - PADDING * 2)
+
+    const line = series.map((v, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ')
+    const zeroY = y(0)
+    const area = `${line} L${x(series.length - 1).toFixed(1)},${zeroY.toFixed(1)} L${x(0).toFixed(1)},${zeroY.toFixed(1)} Z`
+    const last = series[series.length - 1]
+    return { line, area, zeroY, last, min, max }
+  }, [values, width, height])
+
+  const color = chart.last >= 0 ? POSITIVE : NEGATIVE
+
+  return (
+    <View style={styles.wrapper}>
+      {title && (
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={[styles.value, { color }]}>
+            {chart.last >= 0 ? '+' : ''}
+            {formatValue(chart.last)}
+          </Text>
+        </View>
+      )}
+      <Svg width={width} height={height}>
+        <Defs>
+          <LinearGradient id="pnlFill" x1="0" y1="0" x2="0" y2="1">
+            <Stop offset="0" stopColor={color} stopOpacity={0.35} />
+            <Stop offset="1" stopColor={color} stopOpacity={0.02} />
+          </LinearGradient>
+        </Defs>
+        <Line
+          x1={PADDING}
+          x2={width - PADDING}
+          y1={chart.zeroY}
+          y2={chart.zeroY}
+          stroke="rgba(255,255,255,0.25)"
+          strokeWidth={1}
+          strokeDasharray="4 4"
+        />
+        <Path d={chart.area} fill="url(#pnlFill)" />
+        <Path d={chart.line} stroke={color} strokeWidth={2} fill="none" strokeLinejoin="round" strokeLinecap="round" />
+      </Svg>
+      <View style={styles.footer}>
+        <Text style={styles.axisLabel}>Low {formatValue(chart.min)}</Text>
+        <Text style={styles.axisLabel}>High {formatValue(chart.max)}</Text>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  wrapper: { marginBottom: 12 },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.7)',
+    fontFamily: 'Inter-Regular',
+  },
+  value: { fontSize: 16, fontFamily: 'Sora-Bold' },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  axisLabel: { fontSize: 10, color: 'rgba(255,255,255,0.5)', fontFamily: 'Inter-Regular' },
+})
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react'
+import { LayoutChangeEvent, StyleSheet, Text, View } from 'react-native'
+import Svg, { Circle, Line, Path } from 'react-native-svg'
+
+import type { PriceSample } from '@/store/priceHistory'
+
+export interface PriceSparklineSeries {
+  symbol: string
+  color: string
+  // Locked start price; the first sample in the window stands in until the race reports it
+  startPrice?: number | null
+  samples: PriceSample[] // oldest first
+}
+
+interface PriceSparklinesProps {
+  series: PriceSparklineSeries[]
+  // Performance window in ms
+  timeWindow: { start: number; end: number }
+  rowHeight?: number
+}
+
+const PADDING = 4
+const LABEL_WIDTH = 52
+const VALUE_WIDTH = 64
+// Keep a flat race from magnifying noise into full-height swings
+const MIN_SPAN_PCT = 0.1
+const UP = '#00FF88'
+const DOWN = '#FF4444'
+
+const formatPct = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(3)}%`
+
+export function PriceSparklines({ series, timeWindow, rowHeight = 40 }: PriceSparklinesProps) {
+  const [width, setWidth] = useState(0)
+  const plotWidth = Math.max(0, width - LABEL_WIDTH - VALUE_WIDTH)
+
+  const rows = useMemo(() => {
+    const prepared = series.map((entry) => {
+      const samples = entry.samples.filter(
+        (sample) => sample.timestamp >= timeWindow.start && sample.timestamp <= timeWindow.end,
+      )
+      const base = entry.startPrice || samples[0]?.price
+      const points = base
+        ? samples.map((sample) => ({
+            timestamp: sample.timestamp,
+            pct: ((sample.price - base) / base) * 100,
+            band: sample.conf !== null ? (sample.conf / base) * 100 : null,
+          }))
+        : []
+      return { ...entry, points }
+    })
+
+    // One scale for every row so moves compare across assets
+    const span = Math.max(
+      MIN_SPAN_PCT,
+      ...prepared.flatMap((row) => row.points.map((point) => Math.abs(point.pct) + (point.band ?? 0))),
+    )
+    const duration = Math.max(1, timeWindow.end - timeWindow.start)
+    const x = (timestamp: number) => PADDING + ((timestamp - timeWindow.start) / duration) * (plotWidth - PADDING * 2)
+    const y = (pct: number) => rowHeight / 2 - (pct / span) * (rowHeight / 2 - PADDING)
+
+    return prepared.map((row) => {
+      const line = row.points
+        .map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.timestamp).toFixed(1)},${y(point.pct).toFixed(1)}`)
+        .join(' ')
+      // Upper edge forward, lower edge back; only ticks that carried a confidence interval count
+      const banded = row.points.filter((point) => point.band !== null)
+      const band =
+        banded.length > 1
+          ? [
+              ...banded.map(
+                (point, i) =>
+                  `${i === 0 ? 'M' : 'L'}${x(point.timestamp).toFixed(1)},${y(point.pct + point.band!).toFixed(1)}`,
+              ),
+              ...banded
+                .slice()
+                .reverse()
+                .map((point) => `L${x(point.timestamp).toFixed(1)},${y(point.pct - point.band!).toFixed(1)}`),
+              'Z',
+            ].join(' ')
+          : ''
+      const last = row.points[row.points.length - 1]
+      return {
+        symbol: row.symbol,
+        color: row.color,
+        line,
+        band,
+        last: last ? { x: x(last.timestamp), y: y(last.pct), pct: last.pct, band: last.band } : null,
+      }
+    })
+  }, [series, timeWindow, plotWidth, rowHeight])
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(Math.round(event.nativeEvent.layout.width))
+
+  return (
+    <View style={styles.wrapper} onLayout={onLayout}>
+      {plotWidth > 0 &&
+        rows.map((row) => (
+          <View key={row.symbol} style={[styles.row, { height: rowHeight }]}>
+            <View style={styles.label}>
+              <View style={[styles.dot, { backgroundColor: row.color }]} />
+              <Text style={styles.symbol}>{row.symbol}</Text>
+            </View>
+            <Svg width={plotWidth} height={rowHeight}>
+              <Line
+                x1={PADDING}
+                x2={plotWidth - PADDING}
+                y1={rowHeight / 2}
+                y2={rowHeight / 2}
+                stroke="rgba(255,255,255,0.2)"
+                strokeWidth={1}
+                strokeDasharray="3 4"
+              />
+              {row.band ? <Path d={row.band} fill={row.color} fillOpacity={0.15} /> : null}
+              {row.line ? (
+                <Path d={row.line} stroke={row.color} strokeWidth={1.75} fill="none" strokeLinejoin="round" />
+              ) : null}
+              {row.last && <Circle cx={row.last.x} cy={row.last.y} r={2.5} fill={row.color} />}
+            </Svg>
+            <View style={styles.value}>
+              {row.last ? (
+                <>
+                  <Text style={[styles.pct, { color: row.last.pct >= 0 ? UP : DOWN }]}>{formatPct(row.last.pct)}</Text>
+                  {row.last.band !== null && <Text style={styles.conf}>±{row.last.band.toFixed(3)}%</Text>}
+                </>
+              ) : (
+                <Text style={styles.conf}>waiting</Text>
+              )}
+            </View>
+          </View>
+        ))}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  wrapper: { width: '100%' },
+  row: { flexDirection: 'row', alignItems: 'center' },
+  label: { width: LABEL_WIDTH, flexDirection: 'row', alignItems: 'center', gap: 6 },
+  dot: { width: 8, height: 8, borderRadius: 4 },
+  symbol: { fontSize: 12, color: 'rgba(255,255,255,0.8)', fontFamily: 'Inter-SemiBold' },
+  value: { width: VALUE_WIDTH, alignItems: 'flex-end' },
+  pct: { fontSize: 12, fontFamily: 'Sora-Bold' },
+  conf: { fontSize: 10, color: 'rgba(255,255,255,0.5)', fontFamily: 'Inter-Regular' },
+})
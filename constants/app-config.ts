@@ -1,6 +1,6 @@
 import { Cluster } from '@/components/cluster/cluster'
 import { ClusterNetwork } from '@/components/cluster/cluster-network'
-import { clusterApiUrl } from '@solana/web3.js'
+import { getConfig } from '@/services/config'
 
 export class AppConfig {
   static name = 'Momentum Madness'
@@ -8,18 +8,13 @@ export class AppConfig {
   static uri = 'https://momentum-madness.app'
   static icon = 'icon.png' // This will resolve to https://momentum-madness.app/icon.png
   static scheme = 'momentum-madness'
+  // One cluster per app environment; selecting a cluster switches the environment (see ClusterProvider)
   static clusters: Cluster[] = [
     {
       id: 'solana:devnet',
       name: 'Devnet',
-      endpoint: clusterApiUrl('devnet'),
+      endpoint: getConfig('devnet').rpcEndpoint,
       network: ClusterNetwork.Devnet,
     },
-    {
-      id: 'solana:testnet',
-      name: 'Testnet',
-      endpoint: clusterApiUrl('testnet'),
-      network: ClusterNetwork.Testnet,
-    },
   ]
 }
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react'
+
+import { AssetMetadata, getAssetRegistry, subscribeToAssetRegistry } from '@/services/assetRegistry'
+
+// Current asset list, re-rendering when the program or backend reports a different set
+export function useAssetRegistry(): readonly AssetMetadata[] {
+  return useSyncExternalStore(subscribeToAssetRegistry, getAssetRegistry)
+}
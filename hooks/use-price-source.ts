@@ -0,0 +1,10 @@
+import { useCallback, useSyncExternalStore } from 'react'
+
+import { getPriceSource, PriceSourceKind, setPriceSource, subscribeToPriceSource } from '@/services/priceSource'
+
+// Persisted live price source, re-rendering when it's switched from anywhere
+export function usePriceSource(): [PriceSourceKind, (source: PriceSourceKind) => void] {
+  const source = useSyncExternalStore(subscribeToPriceSource, getPriceSource)
+  const setSource = useCallback((next: PriceSourceKind) => setPriceSource(next), [])
+  return [source, setSource]
+}
@@ -0,0 +1,8 @@
+module.exports = {
+  preset: 'jest-expo',
+  // The suites cover plain TypeScript services; resolve packages the way Node does rather than as React Native
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+}
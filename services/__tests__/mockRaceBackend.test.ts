@@ -0,0 +1,131 @@
+import { RaceState } from '../backendTypes'
+import { COMMIT_WINDOW, PERFORMANCE_WINDOW } from '../config'
+import { MockRaceBackend } from '../mockRaceBackend'
+import { netPoolFor } from '../payoutMath'
+
+jest.mock('../../store/storage', () => ({
+  storage: { getString: () => null, set: () => undefined, delete: () => undefined },
+}))
+
+// Mirrors the simulator's timeline: commit, performance, 5s settlement-ready, 15s settled
+const CYCLE_LENGTH = COMMIT_WINDOW + PERFORMANCE_WINDOW + 5 + 15
+const RACE_ID = 1_234
+
+const timelineOf = (backend: MockRaceBackend, raceId: number) => {
+  const { startTs, lockTs, settleTs } = backend.buildRace(raceId, 0)
+  return { startTs, lockTs, settleTs, settledAt: settleTs + 5 }
+}
+
+describe('MockRaceBackend determinism', () => {
+  it('replays the same race for the same seed and time on separate instances', () => {
+    const { settledAt } = timelineOf(new MockRaceBackend(), RACE_ID)
+    const first = new MockRaceBackend().buildRace(RACE_ID, settledAt)
+    const second = new MockRaceBackend().buildRace(RACE_ID, settledAt)
+
+    expect(second).toEqual(first)
+    expect(first.assetPools.some((pool) => pool > 0)).toBe(true)
+  })
+
+  it('walks prices identically per race and differently between races', () => {
+    const a = new MockRaceBackend()
+    const b = new MockRaceBackend()
+    const { startTs } = timelineOf(a, RACE_ID)
+
+    for (let step = 0; step <= CYCLE_LENGTH; step += 10) {
+      expect(b.priceAt(RACE_ID, 0, startTs + step)).toBe(a.priceAt(RACE_ID, 0, startTs + step))
+    }
+    expect(a.priceAt(RACE_ID + 1, 0, startTs + CYCLE_LENGTH + 30)).not.toBe(a.priceAt(RACE_ID, 0, startTs + 30))
+  })
+
+  it('maps every second of a cycle to the same race id, back to back', () => {
+    const backend = new MockRaceBackend()
+    const { startTs } = timelineOf(backend, RACE_ID)
+
+    expect(backend.raceIdAt(startTs)).toBe(RACE_ID)
+    expect(backend.raceIdAt(startTs + CYCLE_LENGTH - 1)).toBe(RACE_ID)
+    expect(backend.raceIdAt(startTs + CYCLE_LENGTH)).toBe(RACE_ID + 1)
+  })
+})
+
+describe('MockRaceBackend phase progression', () => {
+  const backend = new MockRaceBackend()
+  const { startTs, lockTs, settleTs, settledAt } = timelineOf(backend, RACE_ID)
+
+  it('moves through betting, running, settlement-ready and settled at the window edges', () => {
+    const stateAt = (ts: number) => backend.buildRace(RACE_ID, ts).state
+
+    expect([startTs, lockTs - 1].map(stateAt)).toEqual([RaceState.Betting, RaceState.Betting])
+    expect([lockTs, settleTs - 1].map(stateAt)).toEqual([RaceState.Running, RaceState.Running])
+    expect([settleTs, settledAt - 1].map(stateAt)).toEqual([RaceState.SettlementReady, RaceState.SettlementReady])
+    expect(stateAt(settledAt)).toBe(RaceState.Settled)
+  })
+
+  it('grows pools while betting is open and freezes them at lock', () => {
+    const early = backend.buildRace(RACE_ID, startTs + 5).totalPool
+    const atLock = backend.buildRace(RACE_ID, lockTs).assetPools
+
+    expect(backend.buildRace(RACE_ID, lockTs - 1).totalPool).toBeGreaterThan(early)
+    expect(backend.buildRace(RACE_ID, settledAt).assetPools).toEqual(atLock)
+  })
+
+  it('only reports performance once the race is running', () => {
+    expect(backend.buildRace(RACE_ID, lockTs - 1).currentChanges.every((change) => change === null)).toBe(true)
+    expect(backend.buildRace(RACE_ID, lockTs + 10).currentChanges.every((change) => typeof change === 'number')).toBe(
+      true,
+    )
+  })
+
+  it('settles on the best performers with the fee taken off the pool', () => {
+    const before = backend.buildRace(RACE_ID, settledAt - 1)
+    const race = backend.buildRace(RACE_ID, settledAt)
+    const best = Math.max(...race.currentChanges.map((change) => change ?? -Infinity))
+
+    expect(before.winningAssets).toEqual([])
+    expect(race.winningAssets.length).toBeGreaterThan(0)
+    race.winningAssets.forEach((assetIdx) => expect(race.currentChanges[assetIdx]).toBe(best))
+    expect(race.netPool).toBe(Number(netPoolFor(race.totalPool, race.feeBps)))
+    expect(race.assets.filter((asset) => asset.isWinner).map((asset) => asset.index)).toEqual(race.winningAssets)
+  })
+})
+
+describe('MockRaceBackend bets', () => {
+  const player = 'SimulatedPlayer1111111111111111111111111111'
+  let backend: MockRaceBackend
+  let timeline: ReturnType<typeof timelineOf>
+
+  beforeEach(() => {
+    backend = new MockRaceBackend()
+    timeline = timelineOf(backend, RACE_ID)
+    jest.useFakeTimers({ now: (timeline.startTs + 10) * 1000 })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('adds a bet to its pool and only accepts it while betting is open', () => {
+    const poolBefore = backend.buildRace(RACE_ID, timeline.lockTs).assetPools[1]
+    backend.placeBet({ playerAddress: player, raceId: RACE_ID, assetIdx: 1, amount: 5_000_000 })
+
+    expect(backend.buildRace(RACE_ID, timeline.lockTs).assetPools[1]).toBe(poolBefore + 5_000_000)
+    expect(() => backend.placeBet({ playerAddress: player, raceId: RACE_ID, assetIdx: 0, amount: 1 })).toThrow(
+      'Bet already placed for this race',
+    )
+
+    jest.setSystemTime(timeline.lockTs * 1000)
+    expect(() => backend.placeBet({ playerAddress: 'late', raceId: RACE_ID, assetIdx: 0, amount: 1 })).toThrow(
+      'Betting is closed for this race',
+    )
+  })
+
+  it('pays a winning bet once and refuses a second claim', () => {
+    const { winningAssets } = backend.buildRace(RACE_ID, timeline.settledAt)
+    backend.placeBet({ playerAddress: player, raceId: RACE_ID, assetIdx: winningAssets[0], amount: 5_000_000 })
+    jest.setSystemTime(timeline.settledAt * 1000)
+
+    const { amount } = backend.claimPayout({ playerAddress: player, raceId: RACE_ID })
+    expect(amount).toBe(backend.getBet(RACE_ID, player)?.potentialPayout)
+    expect(amount).toBeGreaterThan(0)
+    expect(() => backend.claimPayout({ playerAddress: player, raceId: RACE_ID })).toThrow('Payout already claimed')
+  })
+})
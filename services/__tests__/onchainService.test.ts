@@ -0,0 +1,135 @@
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js'
+
+import { getCurrentConfig } from '../config'
+import { OnChainService } from '../onchainService'
+import { encodeAccountData } from '../programClient'
+
+jest.mock('../../store/storage', () => ({
+  storage: { getString: () => null, set: () => undefined, delete: () => undefined },
+}))
+
+const player = Keypair.fromSeed(Uint8Array.from({ length: 32 }, (_, i) => i)).publicKey
+const programId = getCurrentConfig().programId
+const now = Math.floor(Date.now() / 1000)
+
+const accountInfo = (data: Buffer): AccountInfo<Buffer> => ({
+  data,
+  executable: false,
+  lamports: 1,
+  owner: programId,
+})
+
+// Serves Bet and Race accounts from memory, keyed by their PDAs
+const fakeConnection = (
+  races: { raceId: number; winningAssets: number[]; bet?: { assetIdx: number; claimed: boolean } }[],
+) => {
+  const accounts = new Map<string, AccountInfo<Buffer>>()
+  races.forEach(({ raceId, winningAssets, bet }) => {
+    const racePda = OnChainService.getRacePda(raceId, programId)
+    const settled = winningAssets.length > 0
+    accounts.set(
+      racePda.toBase58(),
+      accountInfo(
+        encodeAccountData('Race', {
+          id: BigInt(raceId),
+          startTs: BigInt(now - 120),
+          lockTs: BigInt(now - 60),
+          settleTs: BigInt(settled ? now - 1 : now + 60),
+          startPrice: [1n, 1n, 1n],
+          endPrice: [1n, 1n, 1n],
+          pool: [1_000_000n, 1_000_000n, 0n],
+          totalPool: 2_000_000n,
+          winningAssets,
+          winningPool: settled ? 1_000_000n : 0n,
+          netPool: 1_900_000n,
+          payoutRatioNum: settled ? 1n << 64n : 0n,
+          claimedPool: 0n,
+          feeBpsSnapshot: 500,
+          dustSwept: false,
+          bump: 255,
+        }),
+      ),
+    )
+    if (bet) {
+      accounts.set(
+        OnChainService.getBetPda(racePda, player, programId).toBase58(),
+        accountInfo(
+          encodeAccountData('Bet', {
+            race: racePda,
+            player,
+            assetIdx: bet.assetIdx,
+            amount: 1_000_000n,
+            claimed: bet.claimed,
+            bump: 254,
+          }),
+        ),
+      )
+    }
+  })
+  return {
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map((key) => accounts.get(key.toBase58()) ?? null),
+  } as unknown as Connection
+}
+
+describe('planClaimPayoutBatches', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('packs only claimable races and says why the rest were left out', async () => {
+    const service = new OnChainService(
+      fakeConnection([
+        { raceId: 1, winningAssets: [0], bet: { assetIdx: 0, claimed: false } },
+        { raceId: 2, winningAssets: [0], bet: { assetIdx: 0, claimed: true } },
+        { raceId: 3, winningAssets: [0] },
+        { raceId: 4, winningAssets: [], bet: { assetIdx: 0, claimed: false } },
+        { raceId: 5, winningAssets: [1], bet: { assetIdx: 0, claimed: false } },
+        { raceId: 6, winningAssets: [0, 1], bet: { assetIdx: 1, claimed: false } },
+      ]),
+    )
+
+    const plan = await service.planClaimPayoutBatches(player, [1, 2, 3, 4, 5, 6])
+
+    expect(plan.batches).toEqual([[1, 6]])
+    expect(plan.skipped).toEqual([
+      { raceId: 2, reason: 'This payout has already been claimed' },
+      { raceId: 3, reason: 'No bet found on chain for this race' },
+      { raceId: 4, reason: 'The race has not settled yet' },
+      { raceId: 5, reason: 'This bet did not win' },
+    ])
+  })
+
+  it('reports an RPC failure per race as retryable instead of a missing bet', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const service = new OnChainService({
+      getMultipleAccountsInfo: async () => Promise.reject(new Error('429 Too Many Requests')),
+    } as unknown as Connection)
+
+    const claimability = await service.checkBetsClaimability(player, [1, 2])
+    expect(claimability.map((entry) => entry.rpcError)).toEqual(['429 Too Many Requests', '429 Too Many Requests'])
+
+    const plan = await service.planClaimPayoutBatches(player, [1, 2])
+    expect(plan.batches).toEqual([])
+    expect(plan.skipped).toEqual([
+      { raceId: 1, reason: 'Could not reach the network to check this bet, try again', retryable: true },
+      { raceId: 2, reason: 'Could not reach the network to check this bet, try again', retryable: true },
+    ])
+  })
+
+  it('splits claimable races across transactions once one fills up', async () => {
+    const raceIds = Array.from({ length: 20 }, (_, i) => i + 1)
+    const service = new OnChainService(
+      fakeConnection(raceIds.map((raceId) => ({ raceId, winningAssets: [0], bet: { assetIdx: 0, claimed: false } }))),
+    )
+
+    const plan = await service.planClaimPayoutBatches(player, raceIds)
+
+    expect(plan.skipped).toEqual([])
+    expect(plan.batches.length).toBeGreaterThan(1)
+    expect(plan.batches.flat()).toEqual(raceIds)
+  })
+})
@@ -0,0 +1,258 @@
+import { DUST_THRESHOLD, SCALING_FACTOR } from '../config'
+import {
+  feeFor,
+  impliedOdds,
+  isDustRemainder,
+  leadingAssets,
+  netPoolFor,
+  payoutFor,
+  payoutMultiplierFor,
+  payoutRatioFor,
+  poolSharesFor,
+  projectPayout,
+  roundingRemainder,
+  settlePayout,
+  sweepDust,
+  winningPoolFor,
+} from '../payoutMath'
+
+// Deterministic PRNG (mulberry32) so every run checks the same cases
+const rng = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+const RUNS = 500
+const ASSETS = 3
+
+interface RandomRace {
+  // Every bet as [assetIdx, micro-USDC]; pools are their sums
+  bets: [number, number][]
+  pools: number[]
+  feeBps: number
+  winningAssets: number[]
+}
+
+const randomRaces = (seed: number): RandomRace[] => {
+  const next = rng(seed)
+  const int = (max: number) => Math.floor(next() * max)
+  return Array.from({ length: RUNS }, () => {
+    const bets = Array.from({ length: 1 + int(40) }, (): [number, number] => [int(ASSETS), 1 + int(500_000_000)])
+    const pools = Array.from({ length: ASSETS }, (_, asset) =>
+      bets.filter(([idx]) => idx === asset).reduce((total, [, amount]) => total + amount, 0),
+    )
+    const backed = pools.flatMap((pool, asset) => (pool > 0 ? [asset] : []))
+    // Mostly one winner, sometimes a tie between two or all backed assets
+    const winnerCount = Math.min(backed.length, 1 + (next() < 0.3 ? int(backed.length) : 0))
+    const winningAssets = [...backed].sort(() => next() - 0.5).slice(0, winnerCount)
+    return { bets, pools, feeBps: int(1_001), winningAssets }
+  })
+}
+
+const winningBets = (race: RandomRace) => race.bets.filter(([asset]) => race.winningAssets.includes(asset))
+
+const totalPaid = (race: RandomRace) => {
+  const totalPool = race.pools.reduce((total, pool) => total + pool, 0)
+  const ratio = payoutRatioFor(netPoolFor(totalPool, race.feeBps), winningPoolFor(race.pools, race.winningAssets))
+  return winningBets(race).reduce((total, [, amount]) => total + payoutFor(amount, ratio), 0n)
+}
+
+describe('payout properties', () => {
+  const races = randomRaces(2024)
+
+  it('never pays winners more than the net pool', () => {
+    races.forEach((race) => {
+      const totalPool = race.pools.reduce((total, pool) => total + pool, 0)
+      expect(totalPaid(race)).toBeLessThanOrEqual(netPoolFor(totalPool, race.feeBps))
+    })
+  })
+
+  it('leaves at most one micro-USDC of rounding per winning bet', () => {
+    races.forEach((race) => {
+      const totalPool = race.pools.reduce((total, pool) => total + pool, 0)
+      const remainder = netPoolFor(totalPool, race.feeBps) - totalPaid(race)
+      expect(remainder).toBeLessThanOrEqual(BigInt(winningBets(race).length))
+    })
+  })
+
+  it('keeps the leftover sweepable as dust when there are few enough winning bets', () => {
+    races
+      .map((race) => ({ ...race, bets: winningBets(race).slice(0, DUST_THRESHOLD) }))
+      .map((race) => ({
+        ...race,
+        pools: race.pools.map((_, asset) =>
+          race.bets.filter(([idx]) => idx === asset).reduce((total, [, amount]) => total + amount, 0),
+        ),
+      }))
+      .filter((race) => race.bets.length > 0)
+      .forEach((race) => {
+        const totalPool = race.pools.reduce((total, pool) => total + pool, 0)
+        const remainder = netPoolFor(totalPool, race.feeBps) - totalPaid(race)
+        expect(remainder).toBeGreaterThanOrEqual(0n)
+        expect(remainder).toBeLessThanOrEqual(BigInt(DUST_THRESHOLD))
+      })
+  })
+
+  it('splits tied winners by stake at one shared ratio', () => {
+    const ties = races.filter((race) => race.winningAssets.length > 1)
+    expect(ties.length).toBeGreaterThan(0)
+    ties.forEach((race) => {
+      const ratios = race.winningAssets.map(
+        (assetIdx) =>
+          settlePayout({
+            pools: race.pools,
+            feeBps: race.feeBps,
+            winningAssets: race.winningAssets,
+            assetIdx,
+            stake: race.pools[assetIdx],
+          }).payoutRatio,
+      )
+      expect(new Set(ratios).size).toBe(1)
+
+      // Equal stakes on different tied assets are paid the same
+      const [first, second] = race.winningAssets
+      const equal = (assetIdx: number) =>
+        settlePayout({
+          pools: race.pools,
+          feeBps: race.feeBps,
+          winningAssets: race.winningAssets,
+          assetIdx,
+          stake: 1_000_000,
+        }).payout
+      expect(equal(first)).toBe(equal(second))
+    })
+  })
+
+  it('matches the previous float math on integer inputs to within rounding', () => {
+    races.forEach((race) => {
+      const totalPool = race.pools.reduce((total, pool) => total + pool, 0)
+      const winningPool = race.winningAssets.reduce((total, asset) => total + race.pools[asset], 0)
+      const floatNet = totalPool * (1 - race.feeBps / 10_000)
+
+      winningBets(race).forEach(([assetIdx, amount]) => {
+        const { payout } = settlePayout({
+          pools: race.pools,
+          feeBps: race.feeBps,
+          winningAssets: race.winningAssets,
+          assetIdx,
+          stake: amount,
+        })
+        const floatPayout = (amount / winningPool) * floatNet
+        // Bigint floors the fee and the ratio; each costs at most one micro-USDC
+        expect(Math.abs(Number(payout) - floatPayout)).toBeLessThanOrEqual(2)
+      })
+    })
+  })
+})
+
+describe('dust sweep', () => {
+  const races = randomRaces(7)
+
+  it('pays out the whole net pool once the last winner claims', () => {
+    const netPoolOf = (race: RandomRace) =>
+      netPoolFor(
+        race.pools.reduce((total, pool) => total + pool, 0),
+        race.feeBps,
+      )
+    // Only a race whose rounding stays within the threshold ends in a sweep
+    const sweepable = races.filter((race) => {
+      const ratio = payoutRatioFor(netPoolOf(race), winningPoolFor(race.pools, race.winningAssets))
+      const stakes = winningBets(race).map(([, amount]) => amount)
+      return roundingRemainder(netPoolOf(race), ratio, stakes) <= BigInt(DUST_THRESHOLD)
+    })
+    expect(sweepable.length).toBeGreaterThan(0)
+
+    sweepable.forEach((race) => {
+      const claimed = winningBets(race).reduce((claimedPool, [assetIdx, amount]) => {
+        const { payout } = settlePayout({ ...race, assetIdx, stake: amount, claimedPool })
+        return claimedPool + payout
+      }, 0n)
+      expect(claimed).toBe(netPoolOf(race))
+    })
+  })
+
+  it('only adds the leftover to the claim that brings it under the threshold', () => {
+    expect(sweepDust(300n, 1_000n, 698n)).toEqual({ payout: 302n, dust: 2n })
+    expect(sweepDust(300n, 1_000n, 690n)).toEqual({ payout: 300n, dust: 0n })
+    expect(sweepDust(300n, 1_000n, 700n)).toEqual({ payout: 300n, dust: 0n })
+  })
+
+  it('never sweeps into a losing bet', () => {
+    expect(sweepDust(0n, 1_000n, 999n)).toEqual({ payout: 0n, dust: 0n })
+  })
+
+  it('treats the unclaimed pool as dust only within the threshold', () => {
+    expect(isDustRemainder(1_000, 1_000 - DUST_THRESHOLD)).toBe(true)
+    expect(isDustRemainder(1_000, 1_000 - DUST_THRESHOLD - 1)).toBe(false)
+    // Claims past the net pool are the program's ExcessiveClaims, not dust
+    expect(isDustRemainder(1_000, 1_001)).toBe(false)
+  })
+
+  it('leaves the payout untouched without a claimed pool', () => {
+    const result = settlePayout({ pools: [1, 1, 1], feeBps: 0, winningAssets: [0], assetIdx: 0, stake: 1 })
+    expect(result).toMatchObject({ payout: 3n, dust: 0n })
+  })
+})
+
+describe('payout examples', () => {
+  it('floors the fee and the payout like the program', () => {
+    expect(feeFor(1_000_001, 500)).toBe(50_000n)
+    expect(netPoolFor(1_000_001, 500)).toBe(950_001n)
+    const ratio = payoutRatioFor(950_001, 3)
+    expect(ratio).toBe((950_001n * BigInt(SCALING_FACTOR)) / 3n)
+    expect(payoutFor(1, ratio)).toBe(316_667n)
+  })
+
+  it('pays nothing to losers and reports their loss', () => {
+    const result = settlePayout({ pools: [10, 20, 30], feeBps: 0, winningAssets: [2], assetIdx: 0, stake: 10 })
+    expect(result.payout).toBe(0n)
+    expect(result.profit).toBe(-10n)
+  })
+
+  it('prefers the net and winning pools recorded at settlement', () => {
+    const result = settlePayout({
+      pools: [10, 20, 30],
+      feeBps: 500,
+      winningAssets: [1],
+      assetIdx: 1,
+      stake: 20,
+      netPool: 50,
+      winningPool: 25,
+    })
+    expect(result.netPool).toBe(50n)
+    expect(result.payout).toBe(40n)
+  })
+
+  it('has no ratio when nobody backed the winner', () => {
+    expect(payoutRatioFor(100, 0)).toBe(0n)
+    expect(impliedOdds([0, 50, 50], 0)).toEqual([0, 2, 2])
+  })
+
+  it('projects a top-up into both the pool and the stake', () => {
+    const result = projectPayout({ pools: [100, 100, 0], feeBps: 0, assetIdx: 0, additional: 100, existingStake: 50 })
+    expect(result.stake).toBe(150n)
+    expect(result.winningPool).toBe(200n)
+    expect(result.payout).toBe(225n)
+  })
+
+  it('prices tied leaders at one shared multiplier', () => {
+    expect(payoutMultiplierFor([100, 300, 0], 0, [0, 1])).toBe(1)
+    expect(payoutMultiplierFor([100, 300, 0], 0, [1])).toBe(impliedOdds([100, 300, 0], 0)[1])
+    expect(payoutMultiplierFor([100, 300, 0], 0, [])).toBe(0)
+  })
+
+  it('only counts an exact match as a tie for the lead', () => {
+    const performances = (...values: number[]) => values.map((performance, index) => ({ index, performance }))
+    expect(leadingAssets(performances(1.5, 1.5, -2))).toEqual([0, 1])
+    expect(leadingAssets(performances(1.5, 1.4995, -2))).toEqual([0])
+    expect(leadingAssets([])).toEqual([])
+  })
+
+  it('reports pool shares that add up to one', () => {
+    const shares = poolSharesFor([1, 1, 2])
+    expect(shares).toEqual([0.25, 0.25, 0.5])
+    expect(poolSharesFor([0, 0, 0])).toEqual([0, 0, 0])
+  })
+})
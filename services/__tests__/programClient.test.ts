@@ -0,0 +1,280 @@
+import { createHash } from 'crypto'
+import { PublicKey, SystemProgram } from '@solana/web3.js'
+
+import { MOMENTUM_MADNESS_IDL } from '../idl'
+import {
+  createClaimPayoutInstruction,
+  createPlaceBetInstruction,
+  decodeAccountData,
+  decodeBetAccount,
+  decodeConfigAccount,
+  decodeInstructionData,
+  decodeProgramError,
+  decodeRaceAccount,
+  decodeTreasuryAccount,
+  decodeVaultAccount,
+  encodeAccountData,
+  encodeInstructionData,
+  getAccountDiscriminator,
+  IdlCoderError,
+} from '../programClient'
+
+// Fixtures are written byte by byte in Borsh layout, independently of the coder under test
+
+const key = (seed: number) => new PublicKey(Buffer.alloc(32, seed))
+
+const anchorDiscriminator = (preimage: string) => createHash('sha256').update(preimage).digest().subarray(0, 8)
+
+const u8 = (value: number) => Buffer.from([value])
+const bool = (value: boolean) => u8(value ? 1 : 0)
+const u16 = (value: number) => {
+  const buf = Buffer.alloc(2)
+  buf.writeUInt16LE(value)
+  return buf
+}
+const u32 = (value: number) => {
+  const buf = Buffer.alloc(4)
+  buf.writeUInt32LE(value)
+  return buf
+}
+const u64 = (value: bigint) => {
+  const buf = Buffer.alloc(8)
+  buf.writeBigUInt64LE(value)
+  return buf
+}
+const i64 = (value: bigint) => {
+  const buf = Buffer.alloc(8)
+  buf.writeBigInt64LE(value)
+  return buf
+}
+const u128 = (value: bigint) => Buffer.concat([u64(value & 0xffffffffffffffffn), u64(value >> 64n)])
+const pubkey = (value: PublicKey) => value.toBuffer()
+const str = (value: string) => Buffer.concat([u32(Buffer.byteLength(value)), Buffer.from(value, 'utf8')])
+
+const account = (name: string, ...fields: Buffer[]) =>
+  Buffer.concat([anchorDiscriminator(`account:${name}`), ...fields])
+
+describe('IDL discriminators', () => {
+  it.each(MOMENTUM_MADNESS_IDL.instructions.map((ix) => [ix.name, ix.discriminator] as const))(
+    'instruction %s matches sha256("global:<name>")',
+    (name, discriminator) => {
+      expect(Buffer.from(discriminator)).toEqual(anchorDiscriminator(`global:${name}`))
+    },
+  )
+
+  it.each(MOMENTUM_MADNESS_IDL.accounts.map((acc) => [acc.name, acc.discriminator] as const))(
+    'account %s matches sha256("account:<Name>")',
+    (name, discriminator) => {
+      expect(Buffer.from(discriminator)).toEqual(anchorDiscriminator(`account:${name}`))
+      expect(getAccountDiscriminator(name)).toEqual(anchorDiscriminator(`account:${name}`))
+    },
+  )
+
+  it('has a type definition for every account', () => {
+    const typeNames = MOMENTUM_MADNESS_IDL.types.map((type) => type.name)
+    MOMENTUM_MADNESS_IDL.accounts.forEach((acc) => expect(typeNames).toContain(acc.name))
+  })
+})
+
+describe('instruction coder', () => {
+  const placeBetData = Buffer.concat([anchorDiscriminator('global:place_bet'), u8(2), u64(25_000_000n)])
+
+  it('encodes place_bet args after the discriminator', () => {
+    expect(encodeInstructionData('place_bet', { assetIdx: 2, amount: 25_000_000 })).toEqual(placeBetData)
+    expect(encodeInstructionData('place_bet', { assetIdx: 2, amount: 25_000_000n })).toEqual(placeBetData)
+  })
+
+  it('decodes place_bet data back to its args', () => {
+    expect(decodeInstructionData(placeBetData)).toEqual({
+      name: 'place_bet',
+      args: { assetIdx: 2, amount: 25_000_000n },
+    })
+  })
+
+  it('round-trips claim_payout, which has no args', () => {
+    const data = anchorDiscriminator('global:claim_payout')
+    expect(encodeInstructionData('claim_payout')).toEqual(data)
+    expect(decodeInstructionData(data)).toEqual({ name: 'claim_payout', args: {} })
+  })
+
+  it('returns null for data from another program', () => {
+    expect(decodeInstructionData(Buffer.alloc(16, 7))).toBeNull()
+  })
+
+  it('rejects out-of-range args', () => {
+    expect(() => encodeInstructionData('place_bet', { assetIdx: 256, amount: 1 })).toThrow(IdlCoderError)
+    expect(() => encodeInstructionData('place_bet', { assetIdx: 0, amount: 1.5 })).toThrow(IdlCoderError)
+  })
+
+  it('builds place_bet with account metas in IDL order', () => {
+    const programId = key(99)
+    const accounts = {
+      bet: key(1),
+      race: key(2),
+      config: key(3),
+      playerUsdc: key(4),
+      vault: key(5),
+      vaultUsdc: key(6),
+      usdcMint: key(7),
+      player: key(8),
+    }
+    const ix = createPlaceBetInstruction(accounts, { assetIdx: 2, amount: 25_000_000 }, programId)
+    const idlAccounts = MOMENTUM_MADNESS_IDL.instructions.find((i) => i.name === 'place_bet')!.accounts
+
+    expect(ix.programId.equals(programId)).toBe(true)
+    expect(ix.data).toEqual(placeBetData)
+    expect(ix.keys).toHaveLength(idlAccounts.length)
+    ix.keys.forEach((meta, i) => {
+      expect(meta.isSigner).toBe(idlAccounts[i].signer ?? false)
+      expect(meta.isWritable).toBe(idlAccounts[i].writable ?? false)
+    })
+    expect(ix.keys.some((meta) => meta.pubkey.equals(SystemProgram.programId))).toBe(true)
+  })
+
+  it('builds claim_payout and requires every non-fixed account', () => {
+    const accounts = {
+      bet: key(1),
+      race: key(2),
+      vault: key(5),
+      vaultUsdc: key(6),
+      playerUsdc: key(4),
+      usdcMint: key(7),
+      config: key(3),
+    }
+    const ix = createClaimPayoutInstruction(accounts, key(99))
+    expect(decodeInstructionData(ix.data)?.name).toBe('claim_payout')
+    expect(() => createClaimPayoutInstruction({ ...accounts, bet: undefined! }, key(99))).toThrow(IdlCoderError)
+  })
+})
+
+describe('account coder', () => {
+  it('round-trips Bet', () => {
+    const data = account('Bet', pubkey(key(1)), pubkey(key(2)), u8(1), u64(5_000_000n), bool(true), u8(254))
+
+    expect(decodeBetAccount(data)).toEqual({
+      race: key(1),
+      player: key(2),
+      assetIdx: 1,
+      amount: 5_000_000,
+      claimed: true,
+      bump: 254,
+    })
+    expect(encodeAccountData('Bet', decodeAccountData('Bet', data))).toEqual(data)
+  })
+
+  it('round-trips Race, including fixed arrays, signed prices and the u128 ratio', () => {
+    const payoutRatio = (1n << 64n) + 123_456_789n
+    const data = account(
+      'Race',
+      u64(42n),
+      i64(1_700_000_000n),
+      i64(1_700_000_060n),
+      i64(1_700_000_120n),
+      Buffer.concat([i64(6_500_000_000_000n), i64(-1n), i64(15_000_000_000n)]),
+      Buffer.concat([i64(6_510_000_000_000n), i64(-2n), i64(14_900_000_000n)]),
+      Buffer.concat([u64(10_000_000n), u64(20_000_000n), u64(30_000_000n)]),
+      u64(60_000_000n),
+      Buffer.concat([u32(2), u8(0), u8(2)]),
+      u64(40_000_000n),
+      u64(57_000_000n),
+      u128(payoutRatio),
+      u64(1_000_000n),
+      u16(500),
+      bool(false),
+      u8(253),
+    )
+
+    const raw = decodeAccountData('Race', data)
+    expect(raw.payoutRatioNum).toBe(payoutRatio)
+    expect(raw.startPrice).toEqual([6_500_000_000_000n, -1n, 15_000_000_000n])
+    expect(encodeAccountData('Race', raw)).toEqual(data)
+
+    expect(decodeRaceAccount(data)).toMatchObject({
+      id: 42,
+      lockTs: 1_700_000_060,
+      endPrice: [6_510_000_000_000, -2, 14_900_000_000],
+      pool: [10_000_000, 20_000_000, 30_000_000],
+      totalPool: 60_000_000,
+      winningAssets: [0, 2],
+      netPool: 57_000_000,
+      feeBpsSnapshot: 500,
+      dustSwept: false,
+      bump: 253,
+    })
+  })
+
+  it('round-trips Config with a vec of structs and an option', () => {
+    const feedId = Buffer.alloc(32, 0xab)
+    const body = (proposed: Buffer) => [
+      bool(true),
+      pubkey(key(3)),
+      u16(300),
+      i64(0n),
+      bool(false),
+      Buffer.concat([u32(2), feedId, str('BTC'), feedId, str('ETH')]),
+      i64(1_700_000_000n),
+      i64(1_699_000_000n),
+      proposed,
+      i64(0n),
+      i64(1_698_000_000n),
+      u16(100),
+      u8(252),
+    ]
+
+    const withoutProposal = account('Config', ...body(u8(0)))
+    const config = decodeConfigAccount(withoutProposal)
+    expect(config).toMatchObject({
+      initialized: true,
+      authority: key(3),
+      protocolFeeBps: 300,
+      paused: false,
+      proposedAuthority: null,
+      totalFeeIncreaseBps: 100,
+      bump: 252,
+    })
+    expect(config.assets.map((asset) => asset.symbol)).toEqual(['BTC', 'ETH'])
+    expect(Buffer.from(config.assets[0].feedId)).toEqual(feedId)
+    expect(encodeAccountData('Config', decodeAccountData('Config', withoutProposal))).toEqual(withoutProposal)
+
+    const withProposal = account('Config', ...body(Buffer.concat([u8(1), pubkey(key(4))])))
+    expect(decodeConfigAccount(withProposal).proposedAuthority).toEqual(key(4))
+    expect(encodeAccountData('Config', decodeAccountData('Config', withProposal))).toEqual(withProposal)
+  })
+
+  it.each([
+    ['Treasury', decodeTreasuryAccount],
+    ['Vault', decodeVaultAccount],
+  ] as const)('round-trips %s', (name, decode) => {
+    const data = account(name, pubkey(key(9)), u8(251))
+    expect(decode(data)).toEqual({ authority: key(9), bump: 251 })
+    expect(encodeAccountData(name, decodeAccountData(name, data))).toEqual(data)
+  })
+
+  it('rejects data with another account discriminator', () => {
+    const data = account('Vault', pubkey(key(9)), u8(251))
+    expect(() => decodeTreasuryAccount(data)).toThrow(IdlCoderError)
+  })
+
+  it('rejects truncated data', () => {
+    const data = account('Bet', pubkey(key(1)), pubkey(key(2)), u8(1))
+    expect(() => decodeBetAccount(data)).toThrow()
+  })
+})
+
+describe('program errors', () => {
+  it('resolves custom error codes from the IDL', () => {
+    MOMENTUM_MADNESS_IDL.errors.forEach((error) => {
+      expect(decodeProgramError({ InstructionError: [0, { Custom: error.code }] })).toEqual(error)
+    })
+  })
+
+  it('prefers the error name from Anchor logs', () => {
+    const logs = ['Program log: AnchorError occurred. Error Code: BettingClosed. Error Number: 9999. Error Message: x.']
+    expect(decodeProgramError(null, logs)?.name).toBe('BettingClosed')
+  })
+
+  it('ignores errors the program does not define', () => {
+    expect(decodeProgramError({ InstructionError: [0, { Custom: 1 }] })).toBeUndefined()
+    expect(decodeProgramError('BlockhashNotFound')).toBeUndefined()
+  })
+})
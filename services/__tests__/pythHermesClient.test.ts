@@ -0,0 +1,230 @@
+import { AppStateStatus } from 'react-native'
+
+import { HermesFetch, PythAssetPrice, PythHermesClient, toPriceUpdatePayload } from '../pythHermesClient'
+import { buildHermesUpdate, createReplayFetch, ReplayPriceFeed } from '../pythReplayFeed'
+
+const mockAppState: { currentState: AppStateStatus; listeners: Set<(state: AppStateStatus) => void> } = {
+  currentState: 'active',
+  listeners: new Set(),
+}
+
+jest.mock('react-native', () => ({
+  AppState: {
+    get currentState() {
+      return mockAppState.currentState
+    },
+    addEventListener: (_event: string, listener: (state: AppStateStatus) => void) => {
+      mockAppState.listeners.add(listener)
+      return { remove: () => mockAppState.listeners.delete(listener) }
+    },
+  },
+}))
+
+jest.mock('../../store/storage', () => ({
+  storage: { getString: () => null, set: () => undefined, delete: () => undefined },
+}))
+
+const setAppState = (state: AppStateStatus) => {
+  mockAppState.currentState = state
+  mockAppState.listeners.forEach((listener) => listener(state))
+}
+
+const BTC = '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43'
+const ETH = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace'
+const SOL = '0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d'
+
+const ASSETS = [
+  { index: 0, symbol: 'BTC', feedId: BTC },
+  { index: 1, symbol: 'ETH', feedId: ETH },
+]
+
+const T0 = 1_700_000_000
+
+const FRAMES = [
+  {
+    parsed: [
+      buildHermesUpdate(BTC, 65_000.5, 12.25, T0),
+      buildHermesUpdate(ETH, 3_200.125, 1.5, T0),
+      buildHermesUpdate(SOL, 150, 0.1, T0),
+    ],
+  },
+  // ETH didn't publish again, so only BTC is fresh
+  { parsed: [buildHermesUpdate(BTC, 65_010, 12, T0 + 1), buildHermesUpdate(ETH, 3_200.125, 1.5, T0)] },
+  { parsed: [buildHermesUpdate(BTC, 65_020, 11, T0 + 2), buildHermesUpdate(ETH, 3_210, 1.25, T0 + 2)] },
+]
+
+const POLL_MS = 1000
+
+const startClient = (fetchImpl: HermesFetch) => {
+  const client = new PythHermesClient('https://hermes.test', POLL_MS, fetchImpl)
+  const received: PythAssetPrice[][] = []
+  client.onPrices((prices) => received.push(prices))
+  client.start(ASSETS)
+  return { client, received }
+}
+
+const prices = (batch: PythAssetPrice[]) => batch.map(({ symbol, currentPrice }) => [symbol, currentPrice])
+
+beforeEach(() => {
+  jest.useFakeTimers()
+  mockAppState.currentState = 'active'
+  mockAppState.listeners.clear()
+  jest.spyOn(console, 'log').mockImplementation(() => undefined)
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+  jest.restoreAllMocks()
+})
+
+describe('PythHermesClient', () => {
+  it('normalizes replayed Hermes frames into USD prices', async () => {
+    const { client, received } = startClient(createReplayFetch(FRAMES))
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(received).toHaveLength(1)
+    expect(received[0]).toEqual([
+      expect.objectContaining({ index: 0, symbol: 'BTC', currentExponent: -8, publishTime: T0 * 1000 }),
+      expect.objectContaining({ index: 1, symbol: 'ETH', currentExponent: -8, publishTime: T0 * 1000 }),
+    ])
+    expect(received[0][0].currentPrice).toBeCloseTo(65_000.5, 8)
+    expect(received[0][0].currentConf).toBeCloseTo(12.25, 8)
+    client.stop()
+  })
+
+  it('only reports prices published since the last poll', async () => {
+    const { client, received } = startClient(createReplayFetch(FRAMES))
+    await jest.advanceTimersByTimeAsync(POLL_MS * 2)
+
+    expect(received.map(prices)).toEqual([
+      [
+        ['BTC', expect.closeTo(65_000.5, 6)],
+        ['ETH', expect.closeTo(3_200.125, 6)],
+      ],
+      [['BTC', expect.closeTo(65_010, 6)]],
+      [
+        ['BTC', expect.closeTo(65_020, 6)],
+        ['ETH', expect.closeTo(3_210, 6)],
+      ],
+    ])
+
+    // The recording has run out; repeating its last frame is nothing new
+    await jest.advanceTimersByTimeAsync(POLL_MS * 3)
+    expect(received).toHaveLength(3)
+    client.stop()
+  })
+
+  it('asks Hermes for the subscribed feeds only', async () => {
+    const fetchImpl = jest.fn(createReplayFetch(FRAMES))
+    const { client } = startClient(fetchImpl)
+    await jest.advanceTimersByTimeAsync(0)
+
+    const [url] = fetchImpl.mock.calls[0]
+    expect(url).toBe(
+      `https://hermes.test/v2/updates/price/latest?ids[]=${BTC.slice(2)}&ids[]=${ETH.slice(2)}&parsed=true&ignore_invalid_price_ids=true`,
+    )
+    client.stop()
+  })
+
+  it('stops polling in the background and catches up on return', async () => {
+    const fetchImpl = jest.fn(createReplayFetch(FRAMES))
+    const { client, received } = startClient(fetchImpl)
+    await jest.advanceTimersByTimeAsync(0)
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+
+    setAppState('background')
+    await jest.advanceTimersByTimeAsync(POLL_MS * 10)
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+
+    setAppState('active')
+    await jest.advanceTimersByTimeAsync(0)
+    expect(fetchImpl).toHaveBeenCalledTimes(2)
+    expect(received).toHaveLength(2)
+
+    await jest.advanceTimersByTimeAsync(POLL_MS)
+    expect(fetchImpl).toHaveBeenCalledTimes(3)
+    client.stop()
+  })
+
+  it('waits for the foreground when started in the background', async () => {
+    mockAppState.currentState = 'background'
+    const fetchImpl = jest.fn(createReplayFetch(FRAMES))
+    const { client } = startClient(fetchImpl)
+    await jest.advanceTimersByTimeAsync(POLL_MS * 5)
+    expect(fetchImpl).not.toHaveBeenCalled()
+
+    setAppState('active')
+    await jest.advanceTimersByTimeAsync(0)
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+    client.stop()
+  })
+
+  it('stops polling and listening for app state once stopped', async () => {
+    const fetchImpl = jest.fn(createReplayFetch(FRAMES))
+    const { client } = startClient(fetchImpl)
+    await jest.advanceTimersByTimeAsync(0)
+    client.stop()
+
+    expect(mockAppState.listeners.size).toBe(0)
+    await jest.advanceTimersByTimeAsync(POLL_MS * 5)
+    setAppState('active')
+    await jest.advanceTimersByTimeAsync(POLL_MS)
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps polling through failed requests', async () => {
+    const replay = createReplayFetch(FRAMES)
+    const fetchImpl = jest
+      .fn<ReturnType<HermesFetch>, Parameters<HermesFetch>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable', json: async () => ({}) })
+      .mockImplementation(replay)
+    const { client, received } = startClient(fetchImpl)
+
+    await jest.advanceTimersByTimeAsync(POLL_MS)
+    expect(received).toHaveLength(0)
+    await jest.advanceTimersByTimeAsync(POLL_MS)
+    expect(received).toHaveLength(1)
+    expect(console.warn).toHaveBeenCalledTimes(1)
+    client.stop()
+  })
+})
+
+describe('ReplayPriceFeed', () => {
+  it('steps through frames and loops with fresh publish times', () => {
+    const feed = new ReplayPriceFeed(FRAMES.slice(0, 2), { intervalMs: 0, loop: true })
+    const received: PythAssetPrice[][] = []
+    feed.onPrices((batch) => received.push(batch))
+    feed.start(ASSETS)
+
+    expect(feed.advance()).toBe(true)
+    expect(feed.advance()).toBe(true)
+    expect(feed.advance()).toBe(true)
+    expect(received.map((batch) => batch.length)).toEqual([2, 1, 2])
+  })
+
+  it('reports when a recording without looping runs out', () => {
+    const feed = new ReplayPriceFeed(FRAMES.slice(0, 1), { intervalMs: 0 })
+    feed.start(ASSETS)
+    expect(feed.advance()).toBe(true)
+    expect(feed.advance()).toBe(false)
+  })
+})
+
+describe('toPriceUpdatePayload', () => {
+  it('keys prices by symbol in the backend price_update shape', () => {
+    const feed = new ReplayPriceFeed(FRAMES.slice(0, 1), { intervalMs: 0 })
+    let payload = {}
+    feed.onPrices((batch) => {
+      payload = toPriceUpdatePayload(batch)
+    })
+    feed.start(ASSETS)
+    feed.advance()
+
+    expect(payload).toEqual({
+      BTC: { price: expect.closeTo(65_000.5, 6), confidence: expect.closeTo(12.25, 6), timestamp: T0 * 1000, expo: -8 },
+      ETH: { price: expect.closeTo(3_200.125, 6), confidence: expect.closeTo(1.5, 6), timestamp: T0 * 1000, expo: -8 },
+    })
+  })
+})
@@ -0,0 +1,226 @@
+import { Keypair } from '@solana/web3.js'
+
+import { RaceState } from '../backendTypes'
+import {
+  deriveRaceEvents,
+  getRejectedMessageCounts,
+  PROTOCOL_VERSION,
+  RaceUpdatePayload,
+  recordRejectedMessage,
+  resetRejectedMessageCounts,
+  validatePriceUpdate,
+  validateRaceEvent,
+  validateRaceUpdate,
+  validateUserBetUpdate,
+  validateWelcome,
+} from '../realtimeProtocol'
+
+const player = Keypair.fromSeed(new Uint8Array(32).fill(3)).publicKey.toBase58()
+
+const wireRace = (overrides: Record<string, unknown> = {}) => ({
+  raceId: 7,
+  state: RaceState.Running,
+  startTs: 1_700_000_000,
+  lockTs: 1_700_000_060,
+  settleTs: 1_700_000_120,
+  totalPool: 30_000_000,
+  assetPools: [10_000_000, 20_000_000, 0],
+  winningAssets: [],
+  assets: [
+    { index: 0, symbol: 'BTC' },
+    { index: 1, symbol: 'ETH' },
+    { index: 2, symbol: 'SOL' },
+  ],
+  currentChanges: [0.1, 0.3, null],
+  ...overrides,
+})
+
+const update = (race: Record<string, unknown>, leaderboard?: unknown[]) =>
+  validateRaceUpdate(leaderboard ? { race, leaderboard } : { race })
+
+const expectValue = <T>(result: { ok: true; value: T } | { ok: false; reason: string }): T => {
+  if (!result.ok) throw new Error(`expected a valid payload, got: ${result.reason}`)
+  return result.value
+}
+
+describe('validateWelcome', () => {
+  it('accepts a supported version and keeps only known event types', () => {
+    expect(
+      validateWelcome({ protocolVersion: PROTOCOL_VERSION, events: ['race_settled', 'confetti', 'bet_placed'] }),
+    ).toEqual({ ok: true, value: { protocolVersion: PROTOCOL_VERSION, events: ['race_settled', 'bet_placed'] } })
+  })
+
+  it('treats a server without an event list as emitting none', () => {
+    expect(expectValue(validateWelcome({ protocolVersion: PROTOCOL_VERSION })).events).toEqual([])
+  })
+
+  it.each([
+    ['a non-object', 'hello'],
+    ['a missing version', { events: [] }],
+    ['an unsupported version', { protocolVersion: 99 }],
+  ])('rejects %s', (_label, data) => {
+    expect(validateWelcome(data).ok).toBe(false)
+  })
+})
+
+describe('validatePriceUpdate', () => {
+  it('passes ticks through by symbol', () => {
+    expect(validatePriceUpdate({ BTC: { price: 65_000, confidence: 12, timestamp: 1, expo: -8 } })).toEqual({
+      ok: true,
+      value: { BTC: { price: 65_000, confidence: 12, timestamp: 1, expo: -8 } },
+    })
+  })
+
+  it('fills in confidence and expo for legacy backends that omit them', () => {
+    expect(expectValue(validatePriceUpdate({ SOL: { price: 150, timestamp: 2 } }))).toEqual({
+      SOL: { price: 150, confidence: 100, timestamp: 2, expo: 0 },
+    })
+  })
+
+  it.each([
+    ['an array', []],
+    ['a tick that is not an object', { BTC: 65_000 }],
+    ['a string price', { BTC: { price: '65000', timestamp: 1 } }],
+    ['a missing timestamp', { BTC: { price: 65_000 } }],
+    ['a fractional expo', { BTC: { price: 65_000, timestamp: 1, expo: -8.5 } }],
+    ['a null confidence', { BTC: { price: 65_000, timestamp: 1, confidence: null } }],
+  ])('rejects %s', (_label, data) => {
+    expect(validatePriceUpdate(data).ok).toBe(false)
+  })
+})
+
+describe('validateRaceUpdate', () => {
+  it('accepts a race with a leaderboard', () => {
+    const leaderboard = [{ index: 1, symbol: 'ETH', currentPrice: 3_000, performance: 0.3 }]
+    const value = expectValue(update(wireRace(), leaderboard))
+    expect(value.race.raceId).toBe(7)
+    expect(value.leaderboard).toEqual(leaderboard)
+  })
+
+  it('accepts the legacy shape without a leaderboard', () => {
+    expect(expectValue(update(wireRace()))).toEqual({ race: wireRace() })
+  })
+
+  it.each([
+    ['a missing race', {}],
+    ['an unknown state', { race: wireRace({ state: 'Paused' }) }],
+    ['a negative race id', { race: wireRace({ raceId: -1 }) }],
+    ['a string pool', { race: wireRace({ totalPool: '30' }) }],
+    ['pools that are not numbers', { race: wireRace({ assetPools: [1, 'x'] }) }],
+    ['an asset without a symbol', { race: wireRace({ assets: [{ index: 0 }] }) }],
+    ['a leaderboard entry without performance', { race: wireRace(), leaderboard: [{ index: 0, symbol: 'BTC' }] }],
+  ])('rejects %s', (_label, data) => {
+    expect(validateRaceUpdate(data).ok).toBe(false)
+  })
+})
+
+describe('validateUserBetUpdate', () => {
+  const bet = { raceId: 7, player, assetIdx: 1, amount: 5_000_000, claimed: false, isWinner: true, potentialPayout: 9 }
+
+  it('copies only the known bet fields', () => {
+    expect(validateUserBetUpdate({ bet: { ...bet, extra: 'ignored' } })).toEqual({ ok: true, value: { bet } })
+  })
+
+  it('defaults a missing potential payout to null', () => {
+    const { potentialPayout: _omitted, ...legacy } = bet
+    expect(expectValue(validateUserBetUpdate({ bet: legacy })).bet.potentialPayout).toBeNull()
+  })
+
+  it.each([
+    ['a missing bet', {}],
+    ['a player that is not a public key', { bet: { ...bet, player: 'not-a-key' } }],
+    ['a negative amount', { bet: { ...bet, amount: -1 } }],
+    ['string flags', { bet: { ...bet, claimed: 'false' } }],
+  ])('rejects %s', (_label, data) => {
+    expect(validateUserBetUpdate(data).ok).toBe(false)
+  })
+})
+
+describe('validateRaceEvent', () => {
+  it('turns base58 keys into public keys', () => {
+    const event = expectValue(
+      validateRaceEvent({
+        type: 'bet_placed',
+        data: { raceId: 7, player, assetIdx: 0, amount: 1, totalAmount: 1, assetPoolAfter: 1, totalPoolAfter: 1 },
+      }),
+    )
+    expect(event.type).toBe('bet_placed')
+    expect(event.type === 'bet_placed' && event.event.player.toBase58()).toBe(player)
+  })
+
+  it('rejects unknown event types', () => {
+    expect(validateRaceEvent({ type: 'confetti', data: { raceId: 7 } })).toEqual({
+      ok: false,
+      reason: 'unknown event type "confetti"',
+    })
+  })
+})
+
+describe('rejected message counters', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    resetRejectedMessageCounts()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('counts drops per message type until reset', () => {
+    recordRejectedMessage('price_update', 'price is not a number')
+    recordRejectedMessage('price_update', 'price is not a number')
+    recordRejectedMessage('race_update', 'race.state "Paused" is unknown')
+
+    expect(getRejectedMessageCounts()).toMatchObject({ price_update: 2, race_update: 1, welcome: 0 })
+
+    resetRejectedMessageCounts()
+    expect(Object.values(getRejectedMessageCounts()).every((count) => count === 0)).toBe(true)
+  })
+
+  it('hands out a snapshot rather than the live counters', () => {
+    const snapshot = getRejectedMessageCounts()
+    recordRejectedMessage('welcome', 'missing protocolVersion')
+    expect(snapshot.welcome).toBe(0)
+  })
+})
+
+describe('deriveRaceEvents', () => {
+  const payload = (overrides: Record<string, unknown> = {}, leaderboard?: unknown[]) =>
+    expectValue(update(wireRace(overrides), leaderboard)) as RaceUpdatePayload
+
+  it('emits a state change between consecutive updates of the same race', () => {
+    const events = deriveRaceEvents(payload({ state: RaceState.Betting }), payload())
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'race_state_changed',
+        event: expect.objectContaining({ raceId: 7, oldState: RaceState.Betting, newState: RaceState.Running }),
+      }),
+    ])
+  })
+
+  it('emits a leader change from the live price changes', () => {
+    const events = deriveRaceEvents(payload({ currentChanges: [0.5, 0.3, null] }), payload())
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'asset_leader_changed',
+        event: expect.objectContaining({ oldLeader: 0, newLeader: 1 }),
+      }),
+    ])
+  })
+
+  it('prefers the leaderboard over price changes when the server sends one', () => {
+    const leaderboard = (best: number) =>
+      [0, 1, 2].map((index) => ({ index, symbol: `A${index}`, currentPrice: 1, performance: index === best ? 1 : 0 }))
+    const events = deriveRaceEvents(payload({}, leaderboard(2)), payload({}, leaderboard(0)))
+    expect(events).toEqual([
+      expect.objectContaining({ event: expect.objectContaining({ oldLeader: 2, newLeader: 0 }) }),
+    ])
+  })
+
+  it('derives nothing for the first update, a different race, or types the server already emits', () => {
+    const before = payload({ state: RaceState.Betting, currentChanges: [0.5, 0.3, null] })
+    expect(deriveRaceEvents(undefined, payload())).toEqual([])
+    expect(deriveRaceEvents(payload({ raceId: 6 }), payload())).toEqual([])
+    expect(deriveRaceEvents(before, payload(), ['race_state_changed', 'asset_leader_changed'])).toEqual([])
+  })
+})
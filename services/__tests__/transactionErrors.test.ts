@@ -0,0 +1,59 @@
+import { MOMENTUM_MADNESS_IDL } from '../idl'
+import { describeProgramError, describeTransactionError, PROGRAM_ERROR_MESSAGES } from '../transactionErrors'
+import { TransactionLifecycleError } from '../transactionLifecycle'
+
+describe('program error messages', () => {
+  it('covers exactly the errors in the committed IDL', () => {
+    const idlNames = MOMENTUM_MADNESS_IDL.errors.map((error) => error.name).sort()
+    expect(Object.keys(PROGRAM_ERROR_MESSAGES).sort()).toEqual(idlNames)
+  })
+
+  it('numbers the IDL errors from 6000 without gaps', () => {
+    MOMENTUM_MADNESS_IDL.errors.forEach((error, i) => expect(error.code).toBe(6000 + i))
+  })
+
+  it('falls back to the program message for an unmapped error', () => {
+    expect(describeProgramError({ code: 6999, name: 'SomethingNew', msg: 'Something new went wrong' })).toEqual({
+      title: '⚠️ Transaction Rejected',
+      message: 'Something new went wrong',
+    })
+  })
+})
+
+describe('describeTransactionError', () => {
+  it('uses the decoded program error when the lifecycle has one', () => {
+    const programError = MOMENTUM_MADNESS_IDL.errors.find((error) => error.name === 'BettingClosed')!
+    const error = new TransactionLifecycleError('Simulation failed: BettingClosed', 'failed', undefined, {
+      programError,
+      simulated: true,
+    })
+    expect(describeTransactionError(error, 'place_bet')).toBe(PROGRAM_ERROR_MESSAGES.BettingClosed)
+  })
+
+  it.each([
+    ['an Error', new Error('User rejected the request')],
+    ['a plain object', { message: 'User canceled' }],
+    ['a 4001 code', { code: 4001 }],
+  ])('treats %s from the wallet as a silent cancel', (_label, error) => {
+    expect(describeTransactionError(error, 'claim_payout')).toEqual({
+      title: '⚠️ Claim Failed',
+      message: 'Transaction cancelled by user',
+      silent: true,
+    })
+  })
+
+  it('reads a short USDC balance from the lifecycle logs', () => {
+    const error = new TransactionLifecycleError('Transaction failed', 'failed', undefined, {
+      logs: ['Program log: Error: insufficient funds'],
+    })
+    expect(describeTransactionError(error, 'place_bet').title).toBe('💸 Insufficient Balance')
+  })
+
+  it('falls back to the generic message for values without one', () => {
+    expect(describeTransactionError('boom', 'place_bet')).toEqual({
+      title: '⚠️ Bet Failed',
+      message: 'Failed to place bet',
+    })
+    expect(describeTransactionError(undefined, 'claim_payout').message).toBe('Failed to claim payout')
+  })
+})
@@ -0,0 +1,248 @@
+import { Connection, SignatureStatus, VersionedTransaction } from '@solana/web3.js'
+
+import {
+  sendTransaction,
+  sendTransactionBatch,
+  subscribeToTransactions,
+  TransactionLifecycleError,
+  TransactionRequest,
+  TransactionStatus,
+} from '../transactionLifecycle'
+
+const LAST_VALID_BLOCK_HEIGHT = 100
+
+type StatusStep = Partial<SignatureStatus> | null | Error
+
+// An RPC that answers signature polls from a script, one entry per poll; the last entry repeats
+const stubConnection = ({
+  statuses = [{ confirmationStatus: 'confirmed' }],
+  blockHeight = () => LAST_VALID_BLOCK_HEIGHT,
+  simulationErr = null,
+}: {
+  statuses?: StatusStep[]
+  blockHeight?: () => number
+  simulationErr?: unknown
+} = {}) => {
+  let poll = 0
+  const sent: string[] = []
+  const connection = {
+    simulateTransaction: jest.fn(async () => ({ value: { err: simulationErr, logs: [] } })),
+    sendRawTransaction: jest.fn(async () => {
+      sent.push(`sig-${sent.length + 1}`)
+      return sent[sent.length - 1]
+    }),
+    getSignatureStatuses: jest.fn(async () => {
+      const step = statuses[Math.min(poll, statuses.length - 1)]
+      poll += 1
+      if (step instanceof Error) throw step
+      return { value: [step] }
+    }),
+    getBlockHeight: jest.fn(async () => blockHeight()),
+  }
+  return connection as typeof connection & Connection
+}
+
+const fakeTransaction = (label: string) =>
+  ({ label, serialize: () => new Uint8Array([label.length]) }) as unknown as VersionedTransaction
+
+let built = 0
+const request = (overrides: Partial<TransactionRequest> = {}): TransactionRequest => ({
+  kind: 'place_bet',
+  key: `race-${(built += 1)}`,
+  build: jest.fn(async () => ({
+    transaction: fakeTransaction('unsigned'),
+    latestBlockhash: { blockhash: 'hash', lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT },
+    minContextSlot: 1,
+  })),
+  sign: jest.fn(async (transaction: VersionedTransaction) => transaction),
+  isLanded: jest.fn(async () => false),
+  ...overrides,
+})
+
+// Status events per pipeline, in the order they were published
+const recordStatuses = () => {
+  const byId = new Map<string, TransactionStatus[]>()
+  const unsubscribe = subscribeToTransactions((event) => {
+    byId.set(event.id, [...(byId.get(event.id) ?? []), event.status])
+  })
+  return { all: () => [...byId.values()], unsubscribe }
+}
+
+// Lets the pipeline's poll sleeps run without waiting in real time
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  const outcome = promise.then(
+    (value) => ({ ok: true as const, value }),
+    (error: unknown) => ({ ok: false as const, error }),
+  )
+  await jest.advanceTimersByTimeAsync(10 * 60_000)
+  const result = await outcome
+  if (!result.ok) throw result.error
+  return result.value
+}
+
+describe('transaction lifecycle', () => {
+  let statuses: ReturnType<typeof recordStatuses>
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    statuses = recordStatuses()
+  })
+
+  afterEach(() => {
+    statuses.unsubscribe()
+    jest.clearAllTimers()
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('moves through built, signed, sent and confirmed', async () => {
+    const connection = stubConnection({ statuses: [null, { confirmationStatus: 'confirmed' }] })
+
+    const result = await settle(sendTransaction(connection, request()))
+
+    expect(result).toMatchObject({ signature: 'sig-1', status: 'confirmed', alreadyLanded: false })
+    expect(statuses.all()).toEqual([['built', 'signed', 'sent', 'confirmed']])
+    // Unconfirmed polls rebroadcast the signed bytes
+    expect(connection.sendRawTransaction).toHaveBeenCalledTimes(2)
+  })
+
+  it('re-signs with a fresh blockhash once the first one expires', async () => {
+    let height = LAST_VALID_BLOCK_HEIGHT + 1
+    const connection = stubConnection({
+      statuses: [null, { confirmationStatus: 'confirmed' }],
+      blockHeight: () => height--,
+    })
+    const req = request()
+
+    const result = await settle(sendTransaction(connection, req))
+
+    expect(result.signature).toBe('sig-2')
+    expect(req.build).toHaveBeenCalledTimes(2)
+    expect(req.sign).toHaveBeenCalledTimes(2)
+    expect(statuses.all()).toEqual([['built', 'signed', 'sent', 'expired', 'built', 'signed', 'sent', 'confirmed']])
+  })
+
+  it('skips re-signing when the expired attempt turns out to have landed', async () => {
+    const connection = stubConnection({ statuses: [null], blockHeight: () => LAST_VALID_BLOCK_HEIGHT + 1 })
+    const req = request({ isLanded: jest.fn(async () => true) })
+
+    const result = await settle(sendTransaction(connection, req))
+
+    expect(result).toMatchObject({ signature: 'sig-1', alreadyLanded: true })
+    expect(req.build).toHaveBeenCalledTimes(1)
+    expect(statuses.all()).toEqual([['built', 'signed', 'sent', 'expired', 'confirmed']])
+  })
+
+  it('keeps polling through RPC errors instead of failing the transaction', async () => {
+    const rateLimited = new Error('429 Too Many Requests')
+    const connection = stubConnection({ statuses: [rateLimited, rateLimited, { confirmationStatus: 'confirmed' }] })
+
+    const result = await settle(sendTransaction(connection, request()))
+
+    expect(result.status).toBe('confirmed')
+    expect(statuses.all()).toEqual([['built', 'signed', 'sent', 'confirmed']])
+  })
+
+  it('gives up when the RPC stays unreachable, without calling it a program failure', async () => {
+    const connection = stubConnection({ statuses: [new Error('fetch failed')] })
+
+    const error = await settle(sendTransaction(connection, request())).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(TransactionLifecycleError)
+    expect(error).toMatchObject({ status: 'expired', programError: undefined })
+    expect((error as Error).message).toMatch(/expired before confirmation/)
+  })
+
+  it('fails with the decoded program error when the transaction errors on-chain', async () => {
+    const connection = stubConnection({ statuses: [{ err: { InstructionError: [0, { Custom: 6001 }] } }] })
+
+    const error = await settle(sendTransaction(connection, request())).catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ status: 'failed', programError: { name: 'BettingClosed' } })
+    expect(statuses.all()).toEqual([['built', 'signed', 'sent', 'failed']])
+  })
+
+  it('never asks the wallet to sign a transaction that fails simulation', async () => {
+    const connection = stubConnection({ simulationErr: { InstructionError: [0, { Custom: 6001 }] } })
+    const req = request()
+
+    const error = await settle(sendTransaction(connection, req)).catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ simulated: true, programError: { name: 'BettingClosed' } })
+    expect(req.sign).not.toHaveBeenCalled()
+    expect(statuses.all()).toEqual([['built', 'failed']])
+  })
+
+  it('joins a pipeline already in flight for the same key', async () => {
+    const connection = stubConnection()
+    const req = request()
+
+    const first = sendTransaction(connection, req)
+    const second = sendTransaction(connection, { ...req })
+
+    expect(second).toBe(first)
+    await settle(first)
+    expect(req.build).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('sendTransactionBatch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    jest.clearAllTimers()
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  const batchRequest = (overrides: Partial<TransactionRequest> = {}) => {
+    const { sign: _sign, ...rest } = request({ kind: 'claim_payout', ...overrides })
+    return rest
+  }
+
+  it('collects every first signature into one wallet prompt and keeps results aligned', async () => {
+    const connection = stubConnection()
+    const signAll = jest.fn(async (transactions: VersionedTransaction[]) => transactions)
+
+    const results = await settle(sendTransactionBatch(connection, [batchRequest(), batchRequest()], signAll))
+
+    expect(signAll).toHaveBeenCalledTimes(1)
+    expect(signAll.mock.calls[0][0]).toHaveLength(2)
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled'])
+  })
+
+  it('prompts only for the transactions that pass simulation', async () => {
+    const connection = stubConnection()
+    connection.simulateTransaction
+      .mockResolvedValueOnce({ value: { err: { InstructionError: [0, { Custom: 6009 }] }, logs: [] } })
+      .mockResolvedValue({ value: { err: null, logs: [] } })
+    const signAll = jest.fn(async (transactions: VersionedTransaction[]) => transactions)
+
+    const results = await settle(sendTransactionBatch(connection, [batchRequest(), batchRequest()], signAll))
+
+    expect(signAll).toHaveBeenCalledTimes(1)
+    expect(signAll.mock.calls[0][0]).toHaveLength(1)
+    expect(results[0]).toMatchObject({ status: 'rejected', reason: { programError: { name: 'AlreadyClaimed' } } })
+    expect(results[1].status).toBe('fulfilled')
+  })
+
+  it('fails every pipeline when the wallet prompt is declined', async () => {
+    const connection = stubConnection()
+    const declined = new Error('User rejected the request')
+
+    const results = await settle(
+      sendTransactionBatch(connection, [batchRequest(), batchRequest()], async () => Promise.reject(declined)),
+    )
+
+    expect(results).toEqual([
+      { status: 'rejected', reason: declined },
+      { status: 'rejected', reason: declined },
+    ])
+  })
+})
@@ -3,23 +3,23 @@ import {
   AssetInfo,
   BetDetails,
   EnhancedRaceDetails,
+  RaceSentimentSnapshot,
   RaceServiceResponse,
+  SentimentVoteRequest,
   UserBetSummary,
+  UserBetsPage,
+  UserBetsPageQuery,
+  UserProfile,
+  UserStats,
 } from './backendTypes'
-
-interface PlaceBetRequest {
-  playerAddress: string
-  raceId: number
-  assetIdx: number
-  amount: number
-}
-
-interface ClaimPayoutRequest {
-  playerAddress: string
-  raceId: number
-}
-
-export class ApiService {
+import type {
+  ClaimPayoutRequest,
+  PlaceBetRequest,
+  RaceApi,
+} from './raceDataSource'
+import type { LeaderboardEntry } from './realtimeProtocol'
+
+export class ApiService implements RaceApi {
   private baseUrl: string;
 
   constructor() {
@@ -83,7 +83,7 @@ export class ApiService {
   }
 
   getRaceLeaderboard(raceId: number) {
-    return this.request<any>(`/api/races/${raceId}/leaderboard`);
+    return this.request<LeaderboardEntry[]>(`/api/races/${raceId}/leaderboard`);
   }
 
   // User endpoints
@@ -92,16 +92,27 @@ export class ApiService {
     return this.request<UserBetSummary[]>(url);
   }
 
+  getUserBetsPage(pubkey: string, { cursor, sinceRaceId, limit, force }: UserBetsPageQuery = {}) {
+    const params = [
+      cursor ? `cursor=${encodeURIComponent(cursor)}` : null,
+      sinceRaceId !== undefined ? `since=${sinceRaceId}` : null,
+      limit ? `limit=${limit}` : null,
+      force ? 'force=true' : null,
+    ].filter(Boolean);
+    const url = `/api/users/${pubkey}/bets/history${params.length ? `?${params.join('&')}` : ''}`;
+    return this.request<UserBetsPage>(url);
+  }
+
   getUserStats(pubkey: string) {
-    return this.request<any>(`/api/users/${pubkey}/stats`);
+    return this.request<UserStats>(`/api/users/${pubkey}/stats`);
   }
 
   getUserBalance(pubkey: string) {
     return this.request<{ solBalance: number; usdcBalance: number; timestamp: number }>(`/api/users/${pubkey}/balance`);
   }
 
-  updateUserProfile(pubkey: string, profile: any) {
-    return this.request<any>(`/api/users/${pubkey}/profile`, {
+  updateUserProfile(pubkey: string, profile: UserProfile) {
+    return this.request<UserProfile>(`/api/users/${pubkey}/profile`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(profile),
@@ -130,6 +141,22 @@ export class ApiService {
     return this.request<BetDetails>(`/api/races/${raceId}/bets/${playerAddress}`);
   }
 
+  // Sentiment endpoints
+  getRaceSentiment(raceId: number, playerAddress?: string) {
+    const url = playerAddress
+      ? `/api/races/${raceId}/sentiment?player=${playerAddress}`
+      : `/api/races/${raceId}/sentiment`;
+    return this.request<RaceSentimentSnapshot>(url);
+  }
+
+  castSentimentVote(request: SentimentVoteRequest) {
+    return this.request<RaceSentimentSnapshot>(`/api/races/${request.raceId}/sentiment/vote`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+  }
+
   // Complete race info endpoint (similar to v1's pattern)
   getCompleteRaceInfo(raceId: number, playerAddress?: string) {
     const url = playerAddress 
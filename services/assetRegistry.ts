@@ -0,0 +1,175 @@
+import { getCurrentConfig, subscribeToEnvironment } from './config'
+
+// Rendering hint for an asset's badge. Assets without one fall back to their color.
+export type AssetIconSpec =
+  | { kind: 'material'; name: string; background: string; foreground: string; border: string }
+  | { kind: 'solana'; background: string; border: string }
+
+export interface AssetMetadata {
+  index: number
+  symbol: string
+  name: string
+  color: string
+  feedId: string
+  icon?: AssetIconSpec
+  // Fraction digits when showing a USD price; big-ticket assets read better without cents
+  priceDecimals: number
+}
+
+// What the registry can be fed from: ApiService.getAssets, ConfigAccount.assets or race snapshots
+export interface AssetSource {
+  symbol: string
+  feedId?: string
+  name?: string
+  color?: string
+}
+
+export type AssetRegistryListener = (assets: readonly AssetMetadata[]) => void
+
+// Presentation for symbols we know; anything else still renders, just without a brand icon
+const KNOWN_ASSETS: Record<string, Partial<Omit<AssetMetadata, 'index' | 'symbol' | 'feedId'>>> = {
+  BTC: {
+    name: 'Bitcoin',
+    icon: {
+      kind: 'material',
+      name: 'currency-btc',
+      background: '#F7931A',
+      foreground: '#0B0B0B',
+      border: 'rgba(0,0,0,0.2)',
+    },
+    priceDecimals: 0,
+  },
+  ETH: {
+    name: 'Ethereum',
+    icon: {
+      kind: 'material',
+      name: 'ethereum',
+      background: '#627EEA',
+      foreground: '#FFFFFF',
+      border: 'rgba(0,0,0,0.2)',
+    },
+  },
+  SOL: {
+    name: 'Solana',
+    icon: { kind: 'solana', background: '#0B0B0B', border: 'rgba(255,255,255,0.08)' },
+  },
+  LTC: {
+    name: 'Litecoin',
+    color: '#345D9D',
+    icon: {
+      kind: 'material',
+      name: 'litecoin',
+      background: '#345D9D',
+      foreground: '#FFFFFF',
+      border: 'rgba(0,0,0,0.2)',
+    },
+  },
+  DOGE: {
+    name: 'Dogecoin',
+    color: '#C2A633',
+    icon: { kind: 'material', name: 'dog', background: '#C2A633', foreground: '#0B0B0B', border: 'rgba(0,0,0,0.2)' },
+  },
+  BONK: { name: 'Bonk', color: '#F8A01D' },
+  JUP: { name: 'Jupiter', color: '#9BE37E' },
+  WIF: { name: 'dogwifhat', color: '#C79E7C' },
+  PYTH: { name: 'Pyth Network', color: '#E6DAFE' },
+}
+
+// Distinct colors for assets with no configured one, assigned by index so they're stable across screens
+const FALLBACK_PALETTE = ['#ff5e00', '#ffb800', '#00ffe7', '#9945FF', '#14F195', '#FF4D9D', '#4DA3FF', '#C6FF4D']
+
+const DEFAULT_PRICE_DECIMALS = 2
+
+const listeners = new Set<AssetRegistryListener>()
+let assets: readonly AssetMetadata[] = []
+
+/**
+ * Full metadata for the asset at `index`, merging what the source reported
+ * with environment config and the known-asset table
+ */
+export const describeAsset = (index: number, source: AssetSource): AssetMetadata => {
+  const symbol = source.symbol || `ASSET${index}`
+  // Sources report different subsets (getAssets has no colors, races may lack feed ids), so keep what's already known
+  const registered = assets[index]?.symbol === symbol ? assets[index] : undefined
+  const configured = getCurrentConfig().assets.find((asset) => asset.symbol === symbol)
+  const known = KNOWN_ASSETS[symbol] ?? {}
+  return {
+    index,
+    symbol,
+    name: source.name || registered?.name || configured?.name || known.name || symbol,
+    color:
+      source.color ||
+      registered?.color ||
+      configured?.color ||
+      known.color ||
+      FALLBACK_PALETTE[index % FALLBACK_PALETTE.length],
+    feedId: source.feedId || registered?.feedId || configured?.feedId || getCurrentConfig().pythFeeds[symbol] || '',
+    icon: known.icon,
+    priceDecimals: known.priceDecimals ?? DEFAULT_PRICE_DECIMALS,
+  }
+}
+
+const fromConfig = (): AssetMetadata[] => getCurrentConfig().assets.map((asset, index) => describeAsset(index, asset))
+
+assets = fromConfig()
+
+const notify = () => {
+  listeners.forEach((listener) => {
+    try {
+      listener(assets)
+    } catch (error) {
+      console.error('❌ Asset registry listener threw:', error)
+    }
+  })
+}
+
+const sameAssets = (a: readonly AssetMetadata[], b: readonly AssetMetadata[]) =>
+  a.length === b.length &&
+  a.every((asset, i) => asset.symbol === b[i].symbol && asset.feedId === b[i].feedId && asset.color === b[i].color)
+
+/**
+ * Replaces the asset list with what the program or backend reports, in index
+ * order. No-op (and no notification) when nothing changed.
+ */
+export const registerAssets = (sources: AssetSource[]) => {
+  if (sources.length === 0) return
+  const next = sources.map((source, index) => describeAsset(index, source))
+  if (sameAssets(assets, next)) return
+  if (next.length !== assets.length) console.log(`🧩 Asset registry now has ${next.length} assets`)
+  assets = next
+  notify()
+}
+
+// Stable reference between changes, so it can back useSyncExternalStore
+export const getAssetRegistry = (): readonly AssetMetadata[] => assets
+
+export const getAssetMeta = (index: number): AssetMetadata | undefined => assets[index]
+
+export const getAssetSymbol = (index: number): string => assets[index]?.symbol ?? `ASSET${index}`
+
+export const getAssetBySymbol = (symbol: string): AssetMetadata | undefined =>
+  assets.find((asset) => asset.symbol === symbol)
+
+// Icon for a symbol even before it has been registered (e.g. from a stale race snapshot)
+export const getAssetIconSpec = (symbol: string): AssetIconSpec | undefined => KNOWN_ASSETS[symbol]?.icon
+
+export const getPriceDecimals = (symbol: string): number =>
+  KNOWN_ASSETS[symbol]?.priceDecimals ?? DEFAULT_PRICE_DECIMALS
+
+export const subscribeToAssetRegistry = (listener: AssetRegistryListener): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Pyth feed ids arrive as raw bytes from the program and as 0x-hex from the backend
+export const feedIdToHex = (feedId: Uint8Array): string =>
+  `0x${Array.from(feedId, (byte) => byte.toString(16).padStart(2, '0')).join('')}`
+
+subscribeToEnvironment(() => {
+  // Clear first so describeAsset doesn't carry colors or feed ids over from the old environment
+  assets = []
+  assets = fromConfig()
+  notify()
+})
@@ -1,6 +1,15 @@
 import { Platform } from 'react-native'
 
+import { getCurrentConfig } from './config'
+
+export type RaceDataSourceKind = 'backend' | 'mock';
+
 export const getBackendBaseUrl = (): string => {
-  // Use the hosted backend for all platforms
-  return 'https://mmadness.fly.dev';
-}; 
\ No newline at end of file
+  // Hosted backend for the active environment (same URL on all platforms)
+  return getCurrentConfig().backendUrl;
+};
+
+// Set EXPO_PUBLIC_RACE_DATA_SOURCE=mock to run the racing tab against the local simulator
+export const getRaceDataSourceKind = (): RaceDataSourceKind => {
+  return process.env.EXPO_PUBLIC_RACE_DATA_SOURCE === 'mock' ? 'mock' : 'backend';
+};
@@ -76,6 +76,78 @@ export interface UserBetSummary {
   isWinner: boolean | null;
   claimed: boolean;
   raceState: RaceState;
+  // Race timeline, unix seconds
+  raceStartTs?: number;
+  raceLockTs?: number;
+  raceSettleTs?: number;
+  // Placement transaction and its block time (unix seconds). Undefined when the
+  // source didn't say, null when it was looked up and isn't available.
+  placementSignature?: string | null;
+  placedAt?: number | null;
+  // Backed asset's prices at race start and settlement, null until recorded
+  startPrice?: number | null;
+  endPrice?: number | null;
+  winningAssets?: number[];
+  // Race fee snapshot, basis points of the pool
+  feeBps?: number;
+  claimSignature?: string | null;
+}
+
+// Server-side lifetime totals; the account screen derives richer metrics locally (see portfolioAnalytics)
+export interface UserStats {
+  totalBets: number;
+  totalWagered: number; // micro-USDC
+  wins: number;
+}
+
+export interface BetPlacement {
+  signature: string | null;
+  placedAt: number | null;
+}
+
+// One page of a player's bet history, newest race first
+export interface UserBetsPage {
+  bets: UserBetSummary[];
+  // Opaque; pass back as `cursor` for the next (older) page. Null on the last page.
+  nextCursor: string | null;
+}
+
+export interface UserBetsPageQuery {
+  cursor?: string;
+  // Only races newer than this id, for incremental sync
+  sinceRaceId?: number;
+  limit?: number;
+  force?: boolean;
+}
+
+export type SentimentVote = 'up' | 'down';
+
+export interface AssetSentiment {
+  assetIdx: number;
+  upvotes: number;
+  downvotes: number;
+}
+
+// Crowd tallies for a race; also the `sentiment_update` realtime payload
+export interface RaceSentiment {
+  raceId: number;
+  tallies: AssetSentiment[];
+  updatedAt: number; // ms
+}
+
+export interface RaceSentimentSnapshot extends RaceSentiment {
+  // The requesting wallet's current votes keyed by asset index; absent when no player was given
+  playerVotes?: Record<number, SentimentVote>;
+}
+
+// One vote per wallet per asset per race; a later vote replaces the earlier one and null retracts it
+export interface SentimentVoteRequest {
+  playerAddress: string;
+  raceId: number;
+  assetIdx: number;
+  vote: SentimentVote | null;
+  timestamp: number; // ms, part of the signed message so a signature can't be replayed later
+  signature: string; // base64 ed25519 signature over buildSentimentVoteMessage()
 }
 
 export interface RaceServiceResponse<T> {
@@ -85,6 +157,9 @@ export interface RaceServiceResponse<T> {
   transactionSignature?: string;
 }
 
+// Free-form profile fields; the backend stores them as given and echoes them back
+export type UserProfile = Record<string, unknown>;
+
 export interface GlobalStats {
   racersOnline: number;
   racesToday: number;
@@ -0,0 +1,304 @@
+import { Connection, GetProgramAccountsFilter, PublicKey } from '@solana/web3.js'
+
+import {
+  BetDetails,
+  BetPlacement,
+  EnhancedAssetInfo,
+  EnhancedRaceDetails,
+  RaceServiceResponse,
+  RaceState,
+  UserBetSummary,
+} from './backendTypes'
+import { describeAsset, feedIdToHex, registerAssets } from './assetRegistry'
+import { getCurrentConfig } from './config'
+import { OnChainService } from './onchainService'
+import { payoutFor, payoutRatioFor } from './payoutMath'
+import { decodeBetAccount, decodeConfigAccount, decodeRaceAccount, getAccountDiscriminator } from './programClient'
+import { BetAccount, ConfigAccount, RaceAccount, RaceState as OnChainRaceState } from './types'
+
+// Prices are stored on-chain as raw Pyth integers with this exponent
+const PYTH_PRICE_EXPO = -8
+
+// Bet layout: discriminator (8) + race (32) + player (32) + ...
+const BET_PLAYER_OFFSET = 40
+
+const CONFIG_TTL_MS = 60_000
+
+// A bet account is written by placement and at most a claim, so the oldest of a few signatures is the placement
+const BET_SIGNATURE_LOOKBACK = 10
+
+const toBackendState = (state: OnChainRaceState): RaceState => RaceState[state]
+
+/**
+ * Reads race state straight from the program accounts. Mirrors the shapes
+ * returned by ApiService so the store can fall back to it when the backend is down.
+ */
+export class ChainRaceReader {
+  private connection: Connection
+  private config: ReturnType<typeof getCurrentConfig>
+  private configAccount?: { data: ConfigAccount; fetchedAt: number }
+
+  constructor(connection: Connection) {
+    this.connection = connection
+    this.config = getCurrentConfig()
+  }
+
+  /**
+   * Latest race by id among all Race accounts owned by the program
+   */
+  async getCurrentRace(): Promise<RaceServiceResponse<EnhancedRaceDetails>> {
+    try {
+      const accounts = await this.connection.getProgramAccounts(this.config.programId, {
+        filters: [this.discriminatorFilter('Race')],
+      })
+
+      let latest: RaceAccount | undefined
+      accounts.forEach(({ account }) => {
+        try {
+          const race = decodeRaceAccount(account.data)
+          if (!latest || race.id > latest.id) latest = race
+        } catch (error) {
+          console.warn('⚠️ Skipping undecodable race account:', error)
+        }
+      })
+
+      if (!latest) {
+        return { success: false, error: 'No races found on-chain' }
+      }
+
+      return { success: true, data: await this.toRaceDetails(latest) }
+    } catch (error) {
+      console.error('❌ Chain read failed for current race:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Chain read failed' }
+    }
+  }
+
+  async getRace(raceId: number): Promise<RaceServiceResponse<EnhancedRaceDetails>> {
+    try {
+      const racePda = OnChainService.getRacePda(raceId, this.config.programId)
+      const info = await this.connection.getAccountInfo(racePda)
+      if (!info) {
+        return { success: false, error: `Race ${raceId} not found on-chain` }
+      }
+      return { success: true, data: await this.toRaceDetails(decodeRaceAccount(info.data)) }
+    } catch (error) {
+      console.error(`❌ Chain read failed for race ${raceId}:`, error)
+      return { success: false, error: error instanceof Error ? error.message : 'Chain read failed' }
+    }
+  }
+
+  async getUserBets(pubkey: string): Promise<RaceServiceResponse<UserBetSummary[]>> {
+    try {
+      const player = new PublicKey(pubkey)
+      const accounts = await this.connection.getProgramAccounts(this.config.programId, {
+        filters: [this.discriminatorFilter('Bet'), { memcmp: { offset: BET_PLAYER_OFFSET, bytes: player.toBase58() } }],
+      })
+
+      const bets: BetAccount[] = []
+      accounts.forEach(({ account }) => {
+        try {
+          bets.push(decodeBetAccount(account.data))
+        } catch (error) {
+          console.warn('⚠️ Skipping undecodable bet account:', error)
+        }
+      })
+
+      const races = await this.getRacesByPda(bets.map((bet) => bet.race))
+
+      const scale = Math.pow(10, PYTH_PRICE_EXPO)
+      const summaries: UserBetSummary[] = []
+      bets.forEach((bet) => {
+        const race = races.get(bet.race.toBase58())
+        if (!race) return
+        const state = toBackendState(OnChainService.deriveRaceState(race))
+        const isSettled = state === RaceState.Settled
+        const isWinner = isSettled ? race.winningAssets.includes(bet.assetIdx) : null
+        const startPrice = race.startPrice[bet.assetIdx]
+        const endPrice = race.endPrice[bet.assetIdx]
+        summaries.push({
+          raceId: race.id,
+          assetIdx: bet.assetIdx,
+          amount: bet.amount,
+          potentialPayout: isWinner ? this.calculatePayout(bet.amount, race) : isSettled ? 0 : null,
+          isWinner,
+          claimed: bet.claimed,
+          raceState: state,
+          raceStartTs: race.startTs,
+          raceLockTs: race.lockTs,
+          raceSettleTs: race.settleTs,
+          startPrice: startPrice > 0 ? startPrice * scale : null,
+          endPrice: endPrice > 0 ? endPrice * scale : null,
+          winningAssets: race.winningAssets,
+          feeBps: race.feeBpsSnapshot,
+        })
+      })
+
+      return { success: true, data: summaries.sort((a, b) => b.raceId - a.raceId) }
+    } catch (error) {
+      console.error('❌ Chain read failed for user bets:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Chain read failed' }
+    }
+  }
+
+  /**
+   * Placement transaction for a bet, from the bet account's signature history.
+   * One RPC per bet, so callers resolve these lazily rather than per history page.
+   */
+  async getBetPlacement(raceId: number, pubkey: string): Promise<RaceServiceResponse<BetPlacement>> {
+    try {
+      const racePda = OnChainService.getRacePda(raceId, this.config.programId)
+      const betPda = OnChainService.getBetPda(racePda, new PublicKey(pubkey), this.config.programId)
+      const signatures = await this.connection.getSignaturesForAddress(betPda, { limit: BET_SIGNATURE_LOOKBACK })
+      const placement = signatures.filter((info) => !info.err).pop()
+      return {
+        success: true,
+        data: { signature: placement?.signature ?? null, placedAt: placement?.blockTime ?? null },
+      }
+    } catch (error) {
+      console.error(`❌ Chain read failed for bet placement in race ${raceId}:`, error)
+      return { success: false, error: error instanceof Error ? error.message : 'Chain read failed' }
+    }
+  }
+
+  async getBetDetails(raceId: number, pubkey: string): Promise<RaceServiceResponse<BetDetails>> {
+    try {
+      const player = new PublicKey(pubkey)
+      const racePda = OnChainService.getRacePda(raceId, this.config.programId)
+      const betPda = OnChainService.getBetPda(racePda, player, this.config.programId)
+      const [betInfo, raceInfo] = await this.connection.getMultipleAccountsInfo([betPda, racePda])
+      if (!betInfo || !raceInfo) {
+        return { success: false, error: 'Bet not found on-chain' }
+      }
+
+      const bet = decodeBetAccount(betInfo.data)
+      const race = decodeRaceAccount(raceInfo.data)
+      const isWinner = race.winningAssets.includes(bet.assetIdx)
+      return {
+        success: true,
+        data: {
+          raceId,
+          player,
+          assetIdx: bet.assetIdx,
+          amount: bet.amount,
+          claimed: bet.claimed,
+          isWinner,
+          potentialPayout: isWinner ? this.calculatePayout(bet.amount, race) : null,
+        },
+      }
+    } catch (error) {
+      console.error(`❌ Chain read failed for bet in race ${raceId}:`, error)
+      return { success: false, error: error instanceof Error ? error.message : 'Chain read failed' }
+    }
+  }
+
+  async getConfigAccount(): Promise<ConfigAccount> {
+    if (this.configAccount && Date.now() - this.configAccount.fetchedAt < CONFIG_TTL_MS) {
+      return this.configAccount.data
+    }
+    const info = await this.connection.getAccountInfo(this.config.pdas.config)
+    if (!info) {
+      throw new Error('Config account not found on-chain')
+    }
+    const data = decodeConfigAccount(info.data)
+    this.configAccount = { data, fetchedAt: Date.now() }
+    registerAssets(data.assets.map((asset) => ({ symbol: asset.symbol, feedId: feedIdToHex(asset.feedId) })))
+    return data
+  }
+
+  private discriminatorFilter(name: 'Bet' | 'Race'): GetProgramAccountsFilter {
+    return {
+      memcmp: {
+        offset: 0,
+        bytes: getAccountDiscriminator(name).toString('base64'),
+        encoding: 'base64',
+      },
+    }
+  }
+
+  private async getRacesByPda(pdas: PublicKey[]): Promise<Map<string, RaceAccount>> {
+    const unique = Array.from(new Set(pdas.map((pda) => pda.toBase58()))).map((key) => new PublicKey(key))
+    const races = new Map<string, RaceAccount>()
+
+    // getMultipleAccounts is capped at 100 keys per request
+    for (let i = 0; i < unique.length; i += 100) {
+      const batch = unique.slice(i, i + 100)
+      const infos = await this.connection.getMultipleAccountsInfo(batch)
+      infos.forEach((info, j) => {
+        if (!info) return
+        try {
+          races.set(batch[j].toBase58(), decodeRaceAccount(info.data))
+        } catch (error) {
+          console.warn('⚠️ Skipping undecodable race account:', error)
+        }
+      })
+    }
+    return races
+  }
+
+  // payoutRatioNum is a u128 decoded to a number, so rebuild the exact ratio from the recorded pools
+  private calculatePayout(amount: number, race: RaceAccount): number {
+    if (race.payoutRatioNum <= 0) return 0
+    return Number(payoutFor(amount, payoutRatioFor(race.netPool, race.winningPool)))
+  }
+
+  private async toRaceDetails(race: RaceAccount): Promise<EnhancedRaceDetails> {
+    let onchainAssets: ConfigAccount['assets'] = []
+    try {
+      onchainAssets = (await this.getConfigAccount()).assets
+    } catch (error) {
+      console.warn('⚠️ Falling back to static asset list:', error)
+    }
+
+    const scale = Math.pow(10, PYTH_PRICE_EXPO)
+    const state = toBackendState(OnChainService.deriveRaceState(race))
+
+    const currentChanges = race.startPrice.map((start, i) => {
+      const end = race.endPrice[i]
+      return start > 0 && end > 0 ? ((end - start) / start) * 100 : null
+    })
+
+    const assets: EnhancedAssetInfo[] = race.pool.map((poolAmount, index) => {
+      const onchain = onchainAssets[index]
+      const meta = describeAsset(index, {
+        symbol: onchain?.symbol || this.config.assets[index]?.symbol || '',
+        feedId: onchain ? feedIdToHex(onchain.feedId) : undefined,
+      })
+      const startPrice = race.startPrice[index] > 0 ? race.startPrice[index] * scale : undefined
+      const endPrice = race.endPrice[index] > 0 ? race.endPrice[index] * scale : undefined
+      return {
+        index,
+        symbol: meta.symbol,
+        name: meta.name,
+        color: meta.color,
+        feedId: meta.feedId,
+        currentPrice: endPrice ?? null,
+        currentExponent: PYTH_PRICE_EXPO,
+        currentConf: null,
+        startPrice,
+        endPrice,
+        percentageChange: currentChanges[index] ?? undefined,
+        poolAmount,
+        isWinner: state === RaceState.Settled ? race.winningAssets.includes(index) : undefined,
+      }
+    })
+
+    return {
+      raceId: race.id,
+      state,
+      startTs: race.startTs,
+      lockTs: race.lockTs,
+      settleTs: race.settleTs,
+      totalPool: race.totalPool,
+      assetPools: race.pool,
+      winningAssets: race.winningAssets,
+      winningPool: race.winningPool,
+      netPool: race.netPool,
+      claimedPool: race.claimedPool,
+      feeBps: race.feeBpsSnapshot,
+      payoutRatio: race.payoutRatioNum,
+      dustSwept: race.dustSwept,
+      currentChanges,
+      assets,
+    }
+  }
+}
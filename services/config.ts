@@ -4,17 +4,25 @@ import {
   SystemProgram,
 } from '@solana/web3.js'
 
-export type Environment = 'devnet' | 'mainnet';
+import { storage } from '../store/storage'
+
+// Mainnet is added once the program and backend are deployed there; until then it would
+// silently point at devnet's program and backend
+export type Environment = 'devnet';
 
 export interface Config {
   environment: Environment;
+  label: string;
   rpcEndpoint: string;
+  backendUrl: string;
+  // Pyth Hermes price service, for reading feeds without the backend
+  hermesUrl: string;
   programId: PublicKey;
   adminAuthority: PublicKey;
   usdcMint: PublicKey;
   systemProgram: PublicKey;
   tokenProgram: PublicKey;
-  // PDA addresses (pre-calculated)
+  // PDA addresses (derived from programId)
   pdas: {
     config: PublicKey;
     treasury: PublicKey;
@@ -33,8 +41,13 @@ export interface Config {
   }[];
 }
 
-// Current environment - change this to switch between devnet/mainnet
-export const CURRENT_ENVIRONMENT: Environment = 'devnet';
+// Everything that differs per deployment; the rest of Config is derived
+type EnvironmentDefinition = Omit<Config, 'environment' | 'systemProgram' | 'tokenProgram' | 'pdas'>;
+
+// Environment used on first launch, before the user picks one in settings
+export const DEFAULT_ENVIRONMENT: Environment = 'devnet';
+
+const ENVIRONMENT_STORAGE_KEY = 'environment';
 
 // Program ID - UPDATED with deployed program
 const PROGRAM_ID = new PublicKey('5Ha7KjZ3ggJ3pNea7Q7jdRevQDVuzQzKBm4aPi9JAGS8');
@@ -44,14 +57,6 @@ const ADMIN_AUTHORITY = new PublicKey('3TGYaZaNyCyA74zmM8yyqKAFHLxTrGD46nmxpUKdX
 
 // USDC Mint addresses for different networks
 const USDC_MINT_DEVNET = new PublicKey('DMXms6qWM89Y6HyvDMcRFVSTnVQvAmtXwB5dxsHHW8kK'); // Custom devnet USDC
-const USDC_MINT_MAINNET = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'); // Mainnet USDC
-
-// UPDATED PDA addresses from latest deployment
-const DEVNET_PDAS = {
-  config: new PublicKey('HVU8xLFaRJCFJMM3EF9YJiyuuFASFi6WUr5r75UneCTA'),
-  treasury: new PublicKey('FpcShb3AG5PPEZstWJHn8ju5oZiDNz6TGAirruPBQAQK'),
-  vault: new PublicKey('BjEyPiXzfnZ2S46mbNDcVpyKgnPjvNNRVueYiK26CJWa'),
-};
 
 // Pyth Feed IDs (same for all networks) - Updated to match deployment config
 const PYTH_FEEDS = {
@@ -60,87 +65,112 @@ const PYTH_FEEDS = {
   SOL: "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d"
 };
 
-const CONFIGS: Record<Environment, Config> = {
+const DEFAULT_ASSETS = [
+  {
+    symbol: 'BTC',
+    name: 'Bitcoin',
+    color: '#ff5e00',
+    feedId: PYTH_FEEDS.BTC,
+  },
+  {
+    symbol: 'ETH',
+    name: 'Ethereum',
+    color: '#ffb800',
+    feedId: PYTH_FEEDS.ETH,
+  },
+  {
+    symbol: 'SOL',
+    name: 'Solana',
+    color: '#00ffe7',
+    feedId: PYTH_FEEDS.SOL,
+  },
+];
+
+const ENVIRONMENTS: Record<Environment, EnvironmentDefinition> = {
   devnet: {
-    environment: 'devnet',
+    label: 'Devnet',
     rpcEndpoint: 'https://api.devnet.solana.com',
+    backendUrl: 'https://mmadness.fly.dev',
+    hermesUrl: 'https://hermes.pyth.network',
     programId: PROGRAM_ID,
     adminAuthority: ADMIN_AUTHORITY,
     usdcMint: USDC_MINT_DEVNET,
-    systemProgram: SystemProgram.programId,
-    tokenProgram: TOKEN_PROGRAM_ID,
-    pdas: DEVNET_PDAS,
     pythFeeds: PYTH_FEEDS,
-    assets: [
-      {
-        symbol: 'BTC',
-        name: 'Bitcoin',
-        color: '#ff5e00',
-        feedId: PYTH_FEEDS.BTC,
-      },
-      {
-        symbol: 'ETH',
-        name: 'Ethereum',
-        color: '#ffb800',
-        feedId: PYTH_FEEDS.ETH,
-      },
-      {
-        symbol: 'SOL',
-        name: 'Solana',
-        color: '#00ffe7',
-        feedId: PYTH_FEEDS.SOL,
-      },
-    ],
+    assets: DEFAULT_ASSETS,
   },
-  mainnet: {
-    environment: 'mainnet',
-    rpcEndpoint: 'https://api.mainnet-beta.solana.com',
-    programId: PROGRAM_ID,
-    adminAuthority: ADMIN_AUTHORITY,
-    usdcMint: USDC_MINT_MAINNET,
+};
+
+export const ENVIRONMENT_NAMES = Object.keys(ENVIRONMENTS) as Environment[];
+
+const isEnvironment = (value: unknown): value is Environment =>
+  typeof value === 'string' && ENVIRONMENT_NAMES.includes(value as Environment);
+
+// Derive the program's singleton PDAs from its program id
+export const derivePdas = (programId: PublicKey): Config['pdas'] => ({
+  config: PublicKey.findProgramAddressSync([Buffer.from('config')], programId)[0],
+  treasury: PublicKey.findProgramAddressSync([Buffer.from('treasury')], programId)[0],
+  vault: PublicKey.findProgramAddressSync([Buffer.from('vault')], programId)[0],
+});
+
+const configCache = new Map<Environment, Config>();
+
+const loadPersistedEnvironment = (): Environment => {
+  try {
+    const stored = storage.getString(ENVIRONMENT_STORAGE_KEY);
+    return isEnvironment(stored) ? stored : DEFAULT_ENVIRONMENT;
+  } catch {
+    return DEFAULT_ENVIRONMENT;
+  }
+};
+
+let currentEnvironment: Environment = loadPersistedEnvironment();
+
+type EnvironmentListener = (environment: Environment, config: Config) => void;
+const environmentListeners = new Set<EnvironmentListener>();
+
+export const getConfig = (environment: Environment = currentEnvironment): Config => {
+  const cached = configCache.get(environment);
+  if (cached) return cached;
+
+  const definition = ENVIRONMENTS[environment];
+  const config: Config = {
+    ...definition,
+    environment,
     systemProgram: SystemProgram.programId,
     tokenProgram: TOKEN_PROGRAM_ID,
-    pdas: {
-      // These would need to be calculated for mainnet deployment
-      config: new PublicKey('11111111111111111111111111111111'),
-      treasury: new PublicKey('11111111111111111111111111111111'),
-      vault: new PublicKey('11111111111111111111111111111111'),
-    },
-    pythFeeds: PYTH_FEEDS,
-    assets: [
-      {
-        symbol: 'BTC',
-        name: 'Bitcoin',
-        color: '#ff5e00',
-        feedId: PYTH_FEEDS.BTC,
-      },
-      {
-        symbol: 'ETH',
-        name: 'Ethereum',
-        color: '#ffb800',
-        feedId: PYTH_FEEDS.ETH,
-      },
-      {
-        symbol: 'SOL',
-        name: 'Solana',
-        color: '#00ffe7',
-        feedId: PYTH_FEEDS.SOL,
-      },
-    ],
-  },
+    pdas: derivePdas(definition.programId),
+  };
+  configCache.set(environment, config);
+  return config;
 };
 
-export const getConfig = (environment: Environment = CURRENT_ENVIRONMENT): Config => {
-  return CONFIGS[environment];
-};
+export const getCurrentEnvironment = (): Environment => currentEnvironment;
 
 export const getCurrentConfig = (): Config => {
-  return getConfig(CURRENT_ENVIRONMENT);
+  return getConfig(currentEnvironment);
 };
 
-// Helper to switch environments
+// Switch the active environment at runtime; persisted and broadcast to subscribers
 export const switchEnvironment = (environment: Environment): Config => {
-  return getConfig(environment);
+  const config = getConfig(environment);
+  if (environment === currentEnvironment) return config;
+
+  console.log(`🌐 Switching environment: ${currentEnvironment} → ${environment}`);
+  currentEnvironment = environment;
+  try {
+    storage.set(ENVIRONMENT_STORAGE_KEY, environment);
+  } catch {
+    // ignore
+  }
+  environmentListeners.forEach((listener) => listener(environment, config));
+  return config;
+};
+
+export const subscribeToEnvironment = (listener: EnvironmentListener): (() => void) => {
+  environmentListeners.add(listener);
+  return () => {
+    environmentListeners.delete(listener);
+  };
 };
 
 // Constants
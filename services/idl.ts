@@ -0,0 +1,71 @@
+import idlJson from './idl/momentum_madness.json'
+
+// Momentum Madness program IDL (Anchor 0.30 format), as generated by `anchor build`.
+// Replace `idl/momentum_madness.json` with `target/idl/momentum_madness.json` after every
+// program upgrade; the program client in `programClient.ts` derives all encoding from it.
+
+export type IdlType =
+  | 'bool'
+  | 'u8'
+  | 'u16'
+  | 'u32'
+  | 'u64'
+  | 'i64'
+  | 'u128'
+  | 'pubkey'
+  | 'string'
+  | { readonly vec: IdlType }
+  | { readonly option: IdlType }
+  | { readonly array: readonly [IdlType, number] }
+  | { readonly defined: { readonly name: string } }
+
+export interface IdlField {
+  readonly name: string
+  readonly type: IdlType
+}
+
+export interface IdlInstructionAccount {
+  readonly name: string
+  readonly writable?: boolean
+  readonly signer?: boolean
+  readonly address?: string
+}
+
+export interface IdlInstruction {
+  readonly name: string
+  readonly discriminator: readonly number[]
+  readonly accounts: readonly IdlInstructionAccount[]
+  readonly args: readonly IdlField[]
+}
+
+export interface IdlAccount {
+  readonly name: string
+  readonly discriminator: readonly number[]
+}
+
+export interface IdlErrorCode {
+  readonly code: number
+  readonly name: string
+  readonly msg: string
+}
+
+export interface IdlTypeDef {
+  readonly name: string
+  readonly type: { readonly kind: 'struct'; readonly fields: readonly IdlField[] }
+}
+
+export interface MomentumMadnessIdl {
+  readonly address: string
+  readonly metadata: { readonly name: string; readonly version: string; readonly spec: string }
+  readonly instructions: readonly IdlInstruction[]
+  readonly accounts: readonly IdlAccount[]
+  readonly errors: readonly IdlErrorCode[]
+  readonly types: readonly IdlTypeDef[]
+}
+
+// JSON imports widen the IDL's type literals to plain strings, so the shape is asserted here
+export const MOMENTUM_MADNESS_IDL = idlJson as unknown as MomentumMadnessIdl
+
+export type IdlInstructionName = IdlInstruction['name']
+export type IdlAccountName = IdlAccount['name']
+export type IdlErrorName = IdlErrorCode['name']
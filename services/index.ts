@@ -3,6 +3,7 @@ export * from './apiService';
 export * from './websocketService';
 export * from './backendTypes';
 export * from './backendConfig';
+export * from './raceDataSource';
 
 // Export default instances via named exports are already covered by `export *` above.
 // Helper to create an API service instance (kept for convenience)
@@ -0,0 +1,638 @@
+import {
+  AssetInfo,
+  BetDetails,
+  EnhancedRaceDetails,
+  GlobalStats,
+  RaceSentiment,
+  RaceSentimentSnapshot,
+  RaceServiceResponse,
+  RaceState,
+  SentimentVote,
+  SentimentVoteRequest,
+  UserBetSummary,
+  UserBetsPage,
+  UserBetsPageQuery,
+  UserProfile,
+  UserStats,
+} from './backendTypes'
+import { COMMIT_WINDOW, getCurrentConfig, PERFORMANCE_WINDOW } from './config'
+import { netPoolFor, payoutFor, payoutRatioFor, winningPoolFor } from './payoutMath'
+import type {
+  ClaimPayoutRequest,
+  CompleteRaceInfo,
+  PlaceBetRequest,
+  RaceApi,
+  RaceRealtime,
+  UserBalance,
+} from './raceDataSource'
+import { deriveRaceEvents, LeaderboardEntry, PROTOCOL_VERSION, RaceUpdatePayload } from './realtimeProtocol'
+import { RealtimeEventBus, SubscriptionCounter } from './realtimeBus'
+import { isEncodedSignature, SENTIMENT_VOTE_MAX_AGE_MS } from './sentimentVotes'
+import {
+  ConnectionChangeHandler,
+  PriceUpdateHandler,
+  RaceEventHandler,
+  RaceUpdateHandler,
+  SentimentUpdateHandler,
+  UserBetUpdateHandler,
+} from './websocketService'
+
+// Race timeline (seconds). Races run back-to-back, aligned to SIM_EPOCH, so the
+// same wall-clock time always yields the same race id, phase, prices and pools.
+const SETTLEMENT_READY_WINDOW = 5
+const SETTLED_WINDOW = 15
+const CYCLE_LENGTH = COMMIT_WINDOW + PERFORMANCE_WINDOW + SETTLEMENT_READY_WINDOW + SETTLED_WINDOW
+const SIM_EPOCH = 1_700_000_000
+
+const FEE_BPS = 500
+const PRICE_EXPO = -8
+const TICK_MS = 1000
+const SIMULATED_LATENCY_MS = 40
+const STARTING_USDC_BALANCE = 1000
+const MAX_SYNTHETIC_BET = 50_000_000 // 50 USDC in micro-USDC
+const HISTORY_PAGE_SIZE = 25
+
+const BASE_PRICES: Record<string, number> = {
+  BTC: 65_000,
+  ETH: 3_200,
+  SOL: 150,
+}
+
+interface SimulatedBet {
+  assetIdx: number
+  amount: number
+  claimed: boolean
+  placedAt: number
+}
+
+// mulberry32: tiny deterministic PRNG
+const seededRandom = (seed: number): number => {
+  let t = (seed + 0x6d2b79f5) | 0
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000)
+
+const ok = <T>(data: T): Promise<RaceServiceResponse<T>> =>
+  new Promise((resolve) => setTimeout(() => resolve({ success: true, data }), SIMULATED_LATENCY_MS))
+
+const fail = <T>(error: string): Promise<RaceServiceResponse<T>> =>
+  new Promise((resolve) => setTimeout(() => resolve({ success: false, error }), SIMULATED_LATENCY_MS))
+
+/**
+ * Deterministic in-process race backend. Cycles Betting → Running →
+ * SettlementReady → Settled with synthetic Pyth-like prices and crowd pools,
+ * and exposes the same REST and realtime surfaces as the hosted backend.
+ */
+export class MockRaceBackend {
+  readonly api: RaceApi
+  readonly realtime: RaceRealtime
+
+  // Notified whenever a simulated bet is placed or claimed
+  onBetChanged?: (bet: BetDetails) => void
+  // Notified whenever a sentiment vote changes a race's tallies
+  onSentimentChanged?: (sentiment: RaceSentiment) => void
+
+  private assets = getCurrentConfig().assets
+  private bets = new Map<number, Map<string, SimulatedBet>>()
+  // raceId -> player -> assetIdx -> vote; keying by wallet is what enforces one vote each
+  private sentimentVotes = new Map<number, Map<string, Map<number, SentimentVote>>>()
+
+  constructor() {
+    this.api = new MockRaceApi(this)
+    this.realtime = new MockRaceRealtime(this)
+  }
+
+  // --- Timeline -----------------------------------------------------------
+
+  raceIdAt(ts: number): number {
+    return Math.floor((ts - SIM_EPOCH) / CYCLE_LENGTH) + 1
+  }
+
+  private timeline(raceId: number) {
+    const startTs = SIM_EPOCH + (raceId - 1) * CYCLE_LENGTH
+    const lockTs = startTs + COMMIT_WINDOW
+    const settleTs = lockTs + PERFORMANCE_WINDOW
+    return { startTs, lockTs, settleTs, settledAt: settleTs + SETTLEMENT_READY_WINDOW }
+  }
+
+  private stateAt(raceId: number, ts: number): RaceState {
+    const { lockTs, settleTs, settledAt } = this.timeline(raceId)
+    if (ts < lockTs) return RaceState.Betting
+    if (ts < settleTs) return RaceState.Running
+    if (ts < settledAt) return RaceState.SettlementReady
+    return RaceState.Settled
+  }
+
+  // --- Prices ---------------------------------------------------------------
+
+  /** Random-walk price of an asset at `ts`, seeded per race so it replays identically */
+  priceAt(raceId: number, assetIdx: number, ts: number): number {
+    const { startTs } = this.timeline(raceId)
+    const symbol = this.assets[assetIdx]?.symbol ?? ''
+    let price = (BASE_PRICES[symbol] ?? 100) * (0.98 + seededRandom(raceId * 31 + assetIdx) * 0.04)
+    const steps = Math.max(0, Math.min(ts, startTs + CYCLE_LENGTH) - startTs)
+    for (let s = 1; s <= steps; s++) {
+      const drift = seededRandom(raceId * 100_003 + assetIdx * 7_919 + s) - 0.5
+      price *= 1 + drift * 0.004
+    }
+    return price
+  }
+
+  private confidenceFor(price: number): number {
+    return price * 0.0005
+  }
+
+  // --- Pools ----------------------------------------------------------------
+
+  private poolsAt(raceId: number, ts: number): number[] {
+    const { startTs, lockTs } = this.timeline(raceId)
+    const elapsed = Math.max(0, Math.min(ts, lockTs) - startTs)
+    const pools = this.assets.map(() => 0)
+
+    // One synthetic crowd bet per second of the commit window
+    for (let s = 0; s < elapsed; s++) {
+      const assetIdx = Math.floor(seededRandom(raceId * 7 + s * 13) * this.assets.length)
+      const amount = Math.round((seededRandom(raceId * 17 + s * 19) * MAX_SYNTHETIC_BET) / 1_000_000) * 1_000_000
+      pools[assetIdx] += amount
+    }
+
+    this.bets.get(raceId)?.forEach((bet) => {
+      pools[bet.assetIdx] += bet.amount
+    })
+    return pools
+  }
+
+  // --- Race snapshots -----------------------------------------------------------
+
+  buildRace(raceId: number, ts: number = nowSeconds()): EnhancedRaceDetails {
+    const { startTs, lockTs, settleTs } = this.timeline(raceId)
+    const state = this.stateAt(raceId, ts)
+    const priceTs = Math.min(ts, settleTs)
+
+    const assetPools = this.poolsAt(raceId, ts)
+    const totalPool = assetPools.reduce((sum, p) => sum + p, 0)
+    const netPool = Number(netPoolFor(totalPool, FEE_BPS))
+
+    const startPrices = this.assets.map((_, i) => this.priceAt(raceId, i, lockTs))
+    const currentPrices = this.assets.map((_, i) => this.priceAt(raceId, i, priceTs))
+    const currentChanges = this.assets.map((_, i) =>
+      ts >= lockTs ? ((currentPrices[i] - startPrices[i]) / startPrices[i]) * 100 : null,
+    )
+
+    let winningAssets: number[] = []
+    let winningPool = 0
+    let payoutRatio = BigInt(0)
+    if (state === RaceState.Settled) {
+      const best = Math.max(...currentChanges.map((c) => c ?? -Infinity))
+      winningAssets = currentChanges.flatMap((c, i) => (c === best ? [i] : []))
+      winningPool = Number(winningPoolFor(assetPools, winningAssets))
+      payoutRatio = payoutRatioFor(netPool, winningPool)
+    }
+
+    const claimedPool = Array.from(this.bets.get(raceId)?.values() ?? [])
+      .filter((bet) => bet.claimed)
+      .reduce((sum, bet) => sum + Number(payoutFor(bet.amount, payoutRatio)), 0)
+
+    return {
+      raceId,
+      state,
+      startTs,
+      lockTs,
+      settleTs,
+      totalPool,
+      assetPools,
+      winningAssets,
+      winningPool,
+      netPool,
+      claimedPool,
+      feeBps: FEE_BPS,
+      // u128 on chain; the API carries it as a number, so it's informational only
+      payoutRatio: Number(payoutRatio),
+      dustSwept: false,
+      currentChanges,
+      participantCount: Math.max(1, Math.round(totalPool / 10_000_000)),
+      odds: assetPools.map((pool) => (pool > 0 ? netPool / pool : 0)),
+      assets: this.assets.map((asset, index) => ({
+        index,
+        symbol: asset.symbol,
+        name: asset.name,
+        color: asset.color,
+        feedId: asset.feedId,
+        currentPrice: currentPrices[index],
+        currentExponent: PRICE_EXPO,
+        currentConf: this.confidenceFor(currentPrices[index]),
+        startPrice: ts >= lockTs ? startPrices[index] : undefined,
+        endPrice: state === RaceState.Settled ? currentPrices[index] : undefined,
+        percentageChange: currentChanges[index] ?? undefined,
+        poolAmount: assetPools[index],
+        isWinner: state === RaceState.Settled ? winningAssets.includes(index) : undefined,
+      })),
+    }
+  }
+
+  buildLeaderboard(race: EnhancedRaceDetails): LeaderboardEntry[] {
+    return race.assets
+      .map((asset) => ({
+        index: asset.index,
+        symbol: asset.symbol,
+        startPrice: asset.startPrice,
+        currentPrice: asset.currentPrice,
+        performance: asset.percentageChange ?? 0,
+      }))
+      .sort((a, b) => b.performance - a.performance)
+  }
+
+  buildPriceSnapshot(ts: number = nowSeconds()) {
+    const raceId = this.raceIdAt(ts)
+    const snapshot: Record<string, { price: number; confidence: number; timestamp: number; expo: number }> = {}
+    this.assets.forEach((asset, i) => {
+      const price = this.priceAt(raceId, i, ts)
+      snapshot[asset.symbol] = {
+        price,
+        confidence: this.confidenceFor(price),
+        timestamp: ts * 1000,
+        expo: PRICE_EXPO,
+      }
+    })
+    return snapshot
+  }
+
+  // --- Bets -----------------------------------------------------------------
+
+  getBet(raceId: number, player: string): BetDetails | undefined {
+    const bet = this.bets.get(raceId)?.get(player)
+    if (!bet) return undefined
+    const race = this.buildRace(raceId)
+    const isWinner = race.winningAssets.includes(bet.assetIdx)
+    return {
+      raceId,
+      player,
+      assetIdx: bet.assetIdx,
+      amount: bet.amount,
+      claimed: bet.claimed,
+      isWinner,
+      potentialPayout: isWinner ? Number(payoutFor(bet.amount, payoutRatioFor(race.netPool, race.winningPool))) : null,
+    }
+  }
+
+  getUserBets(player: string): UserBetSummary[] {
+    const summaries: UserBetSummary[] = []
+    this.bets.forEach((raceBets, raceId) => {
+      if (!raceBets.has(player)) return
+      const bet = this.getBet(raceId, player)!
+      const race = this.buildRace(raceId)
+      const asset = race.assets[bet.assetIdx]
+      summaries.push({
+        raceId,
+        assetIdx: bet.assetIdx,
+        amount: bet.amount,
+        potentialPayout: bet.potentialPayout,
+        isWinner: race.state === RaceState.Settled ? bet.isWinner : null,
+        claimed: bet.claimed,
+        raceState: race.state,
+        raceStartTs: race.startTs,
+        raceLockTs: race.lockTs,
+        raceSettleTs: race.settleTs,
+        // Simulated bets never hit a chain
+        placementSignature: null,
+        placedAt: raceBets.get(player)!.placedAt,
+        startPrice: asset?.startPrice ?? null,
+        endPrice: asset?.endPrice ?? null,
+        winningAssets: race.winningAssets,
+        feeBps: race.feeBps,
+      })
+    })
+    return summaries.sort((a, b) => b.raceId - a.raceId)
+  }
+
+  // Cursor is the last race id of the previous page, mirroring the hosted backend's keyset paging
+  getUserBetsPage(
+    player: string,
+    { cursor, sinceRaceId = 0, limit = HISTORY_PAGE_SIZE }: UserBetsPageQuery,
+  ): UserBetsPage {
+    const before = cursor ? Number(cursor) : Infinity
+    const matching = this.getUserBets(player).filter((bet) => bet.raceId < before && bet.raceId > sinceRaceId)
+    const bets = matching.slice(0, limit)
+    return {
+      bets,
+      nextCursor: matching.length > limit ? String(bets[bets.length - 1].raceId) : null,
+    }
+  }
+
+  placeBet({ playerAddress, raceId, assetIdx, amount }: PlaceBetRequest): BetDetails {
+    if (this.stateAt(raceId, nowSeconds()) !== RaceState.Betting) {
+      throw new Error('Betting is closed for this race')
+    }
+    if (assetIdx < 0 || assetIdx >= this.assets.length) {
+      throw new Error('Invalid asset index')
+    }
+    if (this.bets.get(raceId)?.has(playerAddress)) {
+      throw new Error('Bet already placed for this race')
+    }
+    if (!this.bets.has(raceId)) this.bets.set(raceId, new Map())
+    this.bets.get(raceId)!.set(playerAddress, { assetIdx, amount, claimed: false, placedAt: nowSeconds() })
+    const bet = this.getBet(raceId, playerAddress)!
+    this.onBetChanged?.(bet)
+    return bet
+  }
+
+  claimPayout({ playerAddress, raceId }: ClaimPayoutRequest): { claimed: boolean; amount?: number } {
+    const bet = this.getBet(raceId, playerAddress)
+    if (!bet) throw new Error('No bet found for this race')
+    if (bet.claimed) throw new Error('Payout already claimed')
+    if (!bet.isWinner) throw new Error('Only winners can claim payouts')
+    this.bets.get(raceId)!.get(playerAddress)!.claimed = true
+    this.onBetChanged?.({ ...bet, claimed: true })
+    return { claimed: true, amount: bet.potentialPayout ?? 0 }
+  }
+
+  // --- Sentiment --------------------------------------------------------------
+
+  getSentiment(raceId: number, player?: string): RaceSentimentSnapshot {
+    const tallies = this.assets.map((_, assetIdx) => ({ assetIdx, upvotes: 0, downvotes: 0 }))
+    this.sentimentVotes.get(raceId)?.forEach((votes) => {
+      votes.forEach((vote, assetIdx) => {
+        if (vote === 'up') tallies[assetIdx].upvotes += 1
+        else tallies[assetIdx].downvotes += 1
+      })
+    })
+    const snapshot: RaceSentimentSnapshot = { raceId, tallies, updatedAt: Date.now() }
+    if (player) {
+      snapshot.playerVotes = Object.fromEntries(this.sentimentVotes.get(raceId)?.get(player) ?? [])
+    }
+    return snapshot
+  }
+
+  // Signatures aren't verified here (no ed25519 in the simulator), only their shape and freshness
+  castSentimentVote({
+    playerAddress,
+    raceId,
+    assetIdx,
+    vote,
+    timestamp,
+    signature,
+  }: SentimentVoteRequest): RaceSentimentSnapshot {
+    const state = this.stateAt(raceId, nowSeconds())
+    if (state !== RaceState.Betting && state !== RaceState.Running) {
+      throw new Error('Voting is closed for this race')
+    }
+    if (assetIdx < 0 || assetIdx >= this.assets.length) {
+      throw new Error('Invalid asset index')
+    }
+    if (!isEncodedSignature(signature)) {
+      throw new Error('Invalid vote signature')
+    }
+    if (Math.abs(Date.now() - timestamp) > SENTIMENT_VOTE_MAX_AGE_MS) {
+      throw new Error('Vote signature expired')
+    }
+
+    if (!this.sentimentVotes.has(raceId)) this.sentimentVotes.set(raceId, new Map())
+    const raceVotes = this.sentimentVotes.get(raceId)!
+    if (!raceVotes.has(playerAddress)) raceVotes.set(playerAddress, new Map())
+    const playerVotes = raceVotes.get(playerAddress)!
+    if (vote) playerVotes.set(assetIdx, vote)
+    else playerVotes.delete(assetIdx)
+
+    const snapshot = this.getSentiment(raceId, playerAddress)
+    this.onSentimentChanged?.({ raceId, tallies: snapshot.tallies, updatedAt: snapshot.updatedAt })
+    return snapshot
+  }
+
+  getBalance(player: string): UserBalance {
+    let usdc = STARTING_USDC_BALANCE * 1_000_000
+    this.getUserBets(player).forEach((bet) => {
+      usdc -= bet.amount
+      if (bet.claimed) usdc += bet.potentialPayout ?? 0
+    })
+    return { solBalance: 1, usdcBalance: usdc / 1_000_000, timestamp: Date.now() }
+  }
+
+  getAssetInfo(): AssetInfo[] {
+    const ts = nowSeconds()
+    const raceId = this.raceIdAt(ts)
+    return this.assets.map((asset, index) => {
+      const price = this.priceAt(raceId, index, ts)
+      return {
+        index,
+        feedId: asset.feedId,
+        symbol: asset.symbol,
+        currentPrice: price,
+        currentExponent: PRICE_EXPO,
+        currentConf: this.confidenceFor(price),
+      }
+    })
+  }
+
+  getGlobalStats(): GlobalStats {
+    const ts = nowSeconds()
+    const dayStart = ts - (ts % 86_400)
+    return {
+      racersOnline: this.buildRace(this.raceIdAt(ts)).participantCount ?? 0,
+      racesToday: Math.floor((ts - dayStart) / CYCLE_LENGTH),
+      usdcPaid24h: 0,
+      updatedAt: ts,
+    }
+  }
+}
+
+class MockRaceApi implements RaceApi {
+  constructor(private backend: MockRaceBackend) {}
+
+  getAssets() {
+    return ok(this.backend.getAssetInfo())
+  }
+
+  getCurrentRace() {
+    return ok(this.backend.buildRace(this.backend.raceIdAt(nowSeconds())))
+  }
+
+  getRace(raceId: number) {
+    if (raceId < 1 || raceId > this.backend.raceIdAt(nowSeconds())) {
+      return fail<EnhancedRaceDetails>(`Race ${raceId} not found`)
+    }
+    return ok(this.backend.buildRace(raceId))
+  }
+
+  getGlobalStats() {
+    return ok(this.backend.getGlobalStats())
+  }
+
+  getRaceLeaderboard(raceId: number) {
+    return ok(this.backend.buildLeaderboard(this.backend.buildRace(raceId)))
+  }
+
+  getUserBets(pubkey: string, _forceRefresh: boolean = false) {
+    return ok(this.backend.getUserBets(pubkey))
+  }
+
+  getUserBetsPage(pubkey: string, query: UserBetsPageQuery = {}) {
+    return ok(this.backend.getUserBetsPage(pubkey, query))
+  }
+
+  getUserStats(pubkey: string) {
+    const bets = this.backend.getUserBets(pubkey)
+    return ok<UserStats>({
+      totalBets: bets.length,
+      totalWagered: bets.reduce((sum, bet) => sum + bet.amount, 0),
+      wins: bets.filter((bet) => bet.isWinner).length,
+    })
+  }
+
+  getUserBalance(pubkey: string) {
+    return ok(this.backend.getBalance(pubkey))
+  }
+
+  updateUserProfile(_pubkey: string, profile: UserProfile) {
+    return ok(profile)
+  }
+
+  placeBet(request: PlaceBetRequest) {
+    try {
+      return ok(this.backend.placeBet(request))
+    } catch (error) {
+      return fail<BetDetails>(error instanceof Error ? error.message : 'Failed to place bet')
+    }
+  }
+
+  claimPayout(request: ClaimPayoutRequest) {
+    try {
+      return ok(this.backend.claimPayout(request))
+    } catch (error) {
+      return fail<{ claimed: boolean; amount?: number }>(error instanceof Error ? error.message : 'Failed to claim')
+    }
+  }
+
+  getBetDetails(raceId: number, playerAddress: string) {
+    const bet = this.backend.getBet(raceId, playerAddress)
+    return bet ? ok(bet) : fail<BetDetails>('Bet not found')
+  }
+
+  getCompleteRaceInfo(raceId: number, playerAddress?: string) {
+    const race = this.backend.buildRace(raceId)
+    const info: CompleteRaceInfo = {
+      race,
+      userBet: playerAddress ? this.backend.getBet(raceId, playerAddress) : undefined,
+      odds: race.odds,
+    }
+    return ok(info)
+  }
+
+  getRaceSentiment(raceId: number, playerAddress?: string) {
+    return ok(this.backend.getSentiment(raceId, playerAddress))
+  }
+
+  castSentimentVote(request: SentimentVoteRequest) {
+    try {
+      return ok(this.backend.castSentimentVote(request))
+    } catch (error) {
+      return fail<RaceSentimentSnapshot>(error instanceof Error ? error.message : 'Failed to cast vote')
+    }
+  }
+}
+
+class MockRaceRealtime implements RaceRealtime {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private subscribedRaces = new SubscriptionCounter<number>()
+  private pricesSubscribed = false
+  private bus = new RealtimeEventBus()
+  private lastRaceUpdates = new Map<number, RaceUpdatePayload>()
+
+  constructor(private backend: MockRaceBackend) {
+    backend.onBetChanged = (bet) => {
+      if (this.timer) this.bus.emit('user_bet_update', { bet })
+    }
+    backend.onSentimentChanged = (sentiment) => {
+      if (this.timer && this.subscribedRaces.has(sentiment.raceId)) this.bus.emit('sentiment_update', sentiment)
+    }
+  }
+
+  connect(): Promise<void> {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), TICK_MS)
+      this.bus.emit('connection', { quality: 'live', reconnectAttempt: 0, resumedAfterGap: false })
+    }
+    return Promise.resolve()
+  }
+
+  forceReconnect(): Promise<void> {
+    this.disconnect()
+    return this.connect()
+  }
+
+  disconnect() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+      this.bus.emit('connection', { quality: 'polling', reconnectAttempt: 0, resumedAfterGap: false })
+    }
+    this.pricesSubscribed = false
+    this.lastRaceUpdates.clear()
+  }
+
+  subscribeToRace(raceId: number) {
+    this.subscribedRaces.acquire(raceId)
+  }
+
+  unsubscribeFromRace(raceId: number) {
+    if (this.subscribedRaces.release(raceId)) {
+      this.lastRaceUpdates.delete(raceId)
+    }
+  }
+
+  subscribeToPrice() {
+    this.pricesSubscribed = true
+  }
+
+  onRaceUpdate(handler: RaceUpdateHandler) {
+    return this.bus.on('race_update', handler)
+  }
+
+  onPriceUpdate(handler: PriceUpdateHandler) {
+    return this.bus.on('price_update', handler)
+  }
+
+  onUserBetUpdate(handler: UserBetUpdateHandler) {
+    return this.bus.on('user_bet_update', handler)
+  }
+
+  onRaceEvent(handler: RaceEventHandler) {
+    return this.bus.on('race_event', handler)
+  }
+
+  onSentimentUpdate(handler: SentimentUpdateHandler) {
+    return this.bus.on('sentiment_update', handler)
+  }
+
+  onConnectionChange(handler: ConnectionChangeHandler) {
+    return this.bus.on('connection', handler)
+  }
+
+  get connectionStatus() {
+    return {
+      isConnecting: false,
+      isConnected: this.timer !== null,
+      socket: this.timer !== null,
+      protocolVersion: this.timer !== null ? PROTOCOL_VERSION : null,
+      quality: this.timer !== null ? ('live' as const) : ('polling' as const),
+      reconnectAttempt: 0,
+    }
+  }
+
+  private tick() {
+    if (this.pricesSubscribed) {
+      this.bus.emit('price_update', this.backend.buildPriceSnapshot())
+    }
+
+    this.subscribedRaces.keys().forEach((raceId) => {
+      const race = this.backend.buildRace(raceId)
+      const update: RaceUpdatePayload = { race, leaderboard: this.backend.buildLeaderboard(race) }
+      const previous = this.lastRaceUpdates.get(raceId)
+      this.lastRaceUpdates.set(raceId, update)
+      this.bus.emit('race_update', update)
+      deriveRaceEvents(previous, update).forEach((event) => this.bus.emit('race_event', event))
+    })
+  }
+}
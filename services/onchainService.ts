@@ -1,10 +1,14 @@
 import {
+  ACCOUNT_SIZE,
+  createAssociatedTokenAccountIdempotentInstruction,
   getAssociatedTokenAddressSync,
   TOKEN_PROGRAM_ID,
 } from '@solana/spl-token'
 import {
-  AccountMeta,
+  AccountInfo,
+  ComputeBudgetProgram,
   Connection,
+  PACKET_DATA_SIZE,
   PublicKey,
   TransactionInstruction,
   TransactionMessage,
@@ -12,6 +16,64 @@ import {
 } from '@solana/web3.js'
 
 import { getCurrentConfig } from './config'
+import {
+  buildComputeBudgetInstructions,
+  computeUnitLimitFor,
+  getPriorityFeeEstimates,
+  getPriorityFeeLevel,
+  MAX_COMPUTE_UNITS,
+  PriorityFeeQuote,
+  quotePriorityFee,
+} from './priorityFees'
+import {
+  createClaimPayoutInstruction,
+  createPlaceBetInstruction,
+  decodeBetAccount,
+  decodeRaceAccount,
+} from './programClient'
+import { getErrorMessage } from './transactionLifecycle'
+import { BetAccount, RaceAccount, RaceState } from './types'
+
+export interface BetClaimability {
+  exists: boolean
+  claimed: boolean
+  isWinner: boolean
+  canClaim: boolean
+  raceState?: RaceState
+  bet?: BetAccount
+  race?: RaceAccount
+  // Set when the accounts couldn't be fetched; nothing is known about the bet, so check again later
+  rpcError?: string
+}
+
+export interface PreparedTransaction {
+  transaction: VersionedTransaction
+  latestBlockhash: { blockhash: string; lastValidBlockHeight: number }
+  minContextSlot: number
+  priorityFee: PriorityFeeQuote
+  // Rent (lamports) for the player's USDC token account when this transaction creates it, else 0
+  tokenAccountRent: number
+}
+
+export interface PlaceBetParams {
+  playerPublicKey: PublicKey
+  raceId: number
+  assetIdx: number
+  amount: number // micro-USDC
+}
+
+export interface ClaimPayoutPlan {
+  // Claimable race ids, grouped so each group fits in one transaction
+  batches: number[][]
+  // Races left out because their bet can't be claimed right now; retryable ones may succeed on another try
+  skipped: { raceId: number; reason: string; retryable?: boolean }[]
+}
+
+export interface UsdcAccountSetup {
+  address: PublicKey
+  exists: boolean
+  rentLamports: number
+}
 
 export class OnChainService {
   private connection: Connection
@@ -31,69 +93,159 @@ export class OnChainService {
   }: {
     playerPublicKey: PublicKey
     raceId: number
-  }): Promise<{
-    transaction: VersionedTransaction
-    latestBlockhash: { blockhash: string; lastValidBlockHeight: number }
-    minContextSlot: number
-  }> {
+  }): Promise<PreparedTransaction> {
     try {
       console.log(`🔗 Creating claim payout transaction for race ${raceId}, player: ${playerPublicKey.toString()}`)
-      
-      // Get the latest blockhash and slot to use in our transaction
-      const {
-        context: { slot: minContextSlot },
-        value: latestBlockhash,
-      } = await this.connection.getLatestBlockhashAndContext()
-
-      // Derive PDAs based on the IDL structure
-      const raceIdBuffer = Buffer.alloc(8)
-      raceIdBuffer.writeBigUInt64LE(BigInt(raceId), 0)
-      
-      const [racePda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('race'), raceIdBuffer],
-        this.config.programId
-      )
 
-      const [betPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('bet'), racePda.toBuffer(), playerPublicKey.toBuffer()],
-        this.config.programId
-      )
+      const instruction = this.buildClaimPayoutInstruction(playerPublicKey, raceId)
+      const prepared = await this.prepareTransaction(playerPublicKey, [instruction])
 
-      const [vaultPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('vault')],
-        this.config.programId
-      )
+      console.log(`✅ Transaction created successfully`)
 
-      const [configPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('config')],
-        this.config.programId
-      )
+      return prepared
+    } catch (error) {
+      console.error('❌ Error creating claim payout transaction:', error)
+      throw error
+    }
+  }
 
-      console.log(`📍 PDAs derived:`)
-      console.log(`   Race: ${racePda.toString()}`)
-      console.log(`   Bet: ${betPda.toString()}`)
-      console.log(`   Vault: ${vaultPda.toString()}`)
-      console.log(`   Config: ${configPda.toString()}`)
-
-      // Get associated token accounts
-      const vaultUsdc = getAssociatedTokenAddressSync(
-        this.config.usdcMint,
-        vaultPda,
-        true // allowOwnerOffCurve
-      )
+  /**
+   * Create one transaction claiming several races; use `planClaimPayoutBatches` to pick race ids that fit
+   */
+  async createBatchClaimPayoutTransaction({
+    playerPublicKey,
+    raceIds,
+  }: {
+    playerPublicKey: PublicKey
+    raceIds: number[]
+  }): Promise<PreparedTransaction> {
+    try {
+      console.log(`🔗 Creating batch claim transaction for races ${raceIds.join(', ')}`)
 
-      const playerUsdc = getAssociatedTokenAddressSync(
-        this.config.usdcMint,
-        playerPublicKey
-      )
+      const instructions = raceIds.map((raceId) => this.buildClaimPayoutInstruction(playerPublicKey, raceId))
+      const prepared = await this.prepareTransaction(playerPublicKey, instructions)
+
+      console.log(`✅ Batch claim transaction created with ${instructions.length} claim(s)`)
 
-      console.log(`💰 Token accounts:`)
-      console.log(`   Vault USDC: ${vaultUsdc.toString()}`)
-      console.log(`   Player USDC: ${playerUsdc.toString()}`)
-      console.log(`   USDC Mint: ${this.config.usdcMint.toString()}`)
+      return prepared
+    } catch (error) {
+      console.error('❌ Error creating batch claim transaction:', error)
+      throw error
+    }
+  }
 
-      // Build the claim payout instruction based on IDL
-      const instruction = this.createClaimPayoutInstruction({
+  /**
+   * Drop races whose bet can't be claimed right now, then greedily group the rest so
+   * each group's claim_payout instructions, plus the compute-budget instructions, fit
+   * within a single transaction packet
+   */
+  async planClaimPayoutBatches(playerPublicKey: PublicKey, raceIds: number[]): Promise<ClaimPayoutPlan> {
+    const claimability = await this.checkBetsClaimability(playerPublicKey, raceIds)
+    const batches: number[][] = []
+    const skipped: ClaimPayoutPlan['skipped'] = []
+    let current: number[] = []
+    let currentInstructions: TransactionInstruction[] = []
+
+    raceIds.forEach((raceId, i) => {
+      // One unclaimable race would fail the whole transaction it's packed into
+      const reason = OnChainService.unclaimableReason(claimability[i])
+      if (reason) {
+        skipped.push(claimability[i].rpcError ? { raceId, reason, retryable: true } : { raceId, reason })
+        return
+      }
+      const instruction = this.buildClaimPayoutInstruction(playerPublicKey, raceId)
+      if (current.length > 0 && !this.fitsInTransaction(playerPublicKey, [...currentInstructions, instruction])) {
+        batches.push(current)
+        current = []
+        currentInstructions = []
+      }
+      current.push(raceId)
+      currentInstructions.push(instruction)
+    })
+    if (current.length > 0) batches.push(current)
+
+    console.log(
+      `📦 Packed ${raceIds.length - skipped.length} claim(s) into ${batches.length} transaction(s), skipped ${skipped.length}`
+    )
+    return { batches, skipped }
+  }
+
+  // Why a bet can't be claimed, or undefined when it can
+  private static unclaimableReason(claimability: BetClaimability): string | undefined {
+    if (claimability.canClaim) return undefined
+    if (claimability.rpcError) return 'Could not reach the network to check this bet, try again'
+    if (!claimability.exists) return 'No bet found on chain for this race'
+    if (!claimability.bet) return 'Could not read this bet from chain'
+    if (claimability.claimed) return 'This payout has already been claimed'
+    if (claimability.raceState !== RaceState.Settled) return 'The race has not settled yet'
+    return 'This bet did not win'
+  }
+
+  private fitsInTransaction(payer: PublicKey, instructions: TransactionInstruction[]): boolean {
+    try {
+      const messageV0 = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [
+          ...buildComputeBudgetInstructions({ computeUnits: MAX_COMPUTE_UNITS, microLamports: 1 }),
+          // Reserve room in case the player's USDC account has to be created too
+          createAssociatedTokenAccountIdempotentInstruction(
+            payer,
+            getAssociatedTokenAddressSync(this.config.usdcMint, payer),
+            payer,
+            this.config.usdcMint
+          ),
+          ...instructions,
+        ],
+      }).compileToV0Message()
+      // One compact-u16 signature count byte plus the payer's 64-byte signature
+      return 1 + 64 + messageV0.serialize().length <= PACKET_DATA_SIZE
+    } catch {
+      // Too many accounts to even compile
+      return false
+    }
+  }
+
+  private buildClaimPayoutInstruction(playerPublicKey: PublicKey, raceId: number): TransactionInstruction {
+    // Derive PDAs based on the IDL structure
+    const raceIdBuffer = Buffer.alloc(8)
+    raceIdBuffer.writeBigUInt64LE(BigInt(raceId), 0)
+    
+    const [racePda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('race'), raceIdBuffer],
+      this.config.programId
+    )
+
+    const [betPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bet'), racePda.toBuffer(), playerPublicKey.toBuffer()],
+      this.config.programId
+    )
+
+    const [vaultPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('vault')],
+      this.config.programId
+    )
+
+    const [configPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('config')],
+      this.config.programId
+    )
+
+    // Get associated token accounts
+    const vaultUsdc = getAssociatedTokenAddressSync(
+      this.config.usdcMint,
+      vaultPda,
+      true // allowOwnerOffCurve
+    )
+
+    const playerUsdc = getAssociatedTokenAddressSync(
+      this.config.usdcMint,
+      playerPublicKey
+    )
+
+    // Build the claim payout instruction from the typed IDL client
+    const instruction = createClaimPayoutInstruction(
+      {
         bet: betPda,
         race: racePda,
         vault: vaultPda,
@@ -102,76 +254,123 @@ export class OnChainService {
         usdcMint: this.config.usdcMint,
         tokenProgram: TOKEN_PROGRAM_ID,
         config: configPda,
-      })
+      },
+      this.config.programId
+    )
 
-      // Create a new TransactionMessage and compile it
-      const messageV0 = new TransactionMessage({
-        payerKey: playerPublicKey,
-        recentBlockhash: latestBlockhash.blockhash,
-        instructions: [instruction],
-      }).compileToV0Message()
+    return instruction
+  }
 
-      // Create a new VersionedTransaction
-      const transaction = new VersionedTransaction(messageV0)
+  /**
+   * Fetch a blockhash and prepend the setup and compute-budget instructions from quoteComputeBudget
+   */
+  private async prepareTransaction(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+  ): Promise<PreparedTransaction> {
+    const [
+      {
+        context: { slot: minContextSlot },
+        value: latestBlockhash,
+      },
+      usdcSetup,
+    ] = await Promise.all([this.connection.getLatestBlockhashAndContext(), this.getUsdcAccountSetup(payer)])
 
-      console.log(`✅ Transaction created successfully`)
+    const { allInstructions, priorityFee } = await this.quoteComputeBudget(payer, instructions, usdcSetup)
+    if (!usdcSetup.exists) {
+      console.log(`🪙 Player USDC account missing, adding idempotent create (${usdcSetup.rentLamports} lamports rent)`)
+    }
+    console.log(
+      `⚡ Priority fee (${priorityFee.level}): ${priorityFee.microLamports} µlamports/CU × ${priorityFee.computeUnits} CU = ${priorityFee.lamports} lamports`
+    )
 
-      return {
-        transaction,
-        latestBlockhash,
-        minContextSlot,
-      }
-    } catch (error) {
-      console.error('❌ Error creating claim payout transaction:', error)
-      throw error
+    const messageV0 = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: latestBlockhash.blockhash,
+      instructions: [...buildComputeBudgetInstructions(priorityFee), ...allInstructions],
+    }).compileToV0Message()
+
+    return {
+      transaction: new VersionedTransaction(messageV0),
+      latestBlockhash,
+      minContextSlot,
+      priorityFee,
+      tokenAccountRent: usdcSetup.exists ? 0 : usdcSetup.rentLamports,
     }
   }
 
   /**
-   * Create the claim payout instruction based on the IDL discriminator and accounts
+   * Setup instructions the transaction needs plus its compute-budget quote: the unit limit
+   * is sized from a simulation, the price from recent fees on the accounts it writes
    */
-  private createClaimPayoutInstruction({
-    bet,
-    race,
-    vault,
-    vaultUsdc,
-    playerUsdc,
-    usdcMint,
-    tokenProgram,
-    config,
-  }: {
-    bet: PublicKey
-    race: PublicKey
-    vault: PublicKey
-    vaultUsdc: PublicKey
-    playerUsdc: PublicKey
-    usdcMint: PublicKey
-    tokenProgram: PublicKey
-    config: PublicKey
-  }): TransactionInstruction {
-    // Instruction discriminator from IDL: [127, 240, 132, 62, 227, 198, 146, 133]
-    const discriminator = Buffer.from([127, 240, 132, 62, 227, 198, 146, 133])
-
-    // No additional data needed for claim_payout
-    const data = discriminator
-
-    // Account metas based on IDL order
-    const accounts: AccountMeta[] = [
-      { pubkey: bet, isSigner: false, isWritable: true },
-      { pubkey: race, isSigner: false, isWritable: true },
-      { pubkey: vault, isSigner: false, isWritable: false },
-      { pubkey: vaultUsdc, isSigner: false, isWritable: true },
-      { pubkey: playerUsdc, isSigner: false, isWritable: true },
-      { pubkey: usdcMint, isSigner: false, isWritable: false },
-      { pubkey: tokenProgram, isSigner: false, isWritable: false },
-      { pubkey: config, isSigner: false, isWritable: false },
-    ]
-
-    return new TransactionInstruction({
-      keys: accounts,
-      programId: this.config.programId,
-      data,
-    })
+  private async quoteComputeBudget(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    usdcSetup: UsdcAccountSetup,
+  ): Promise<{ allInstructions: TransactionInstruction[]; priorityFee: PriorityFeeQuote }> {
+    const writableAccounts = Array.from(
+      new Set(
+        instructions.flatMap((ix) => ix.keys.filter((key) => key.isWritable && !key.isSigner).map((key) => key.pubkey.toBase58()))
+      )
+    ).map((key) => new PublicKey(key))
+
+    // New wallets have no USDC account yet; the program expects it to exist for bets and payouts
+    const setupInstructions: TransactionInstruction[] = []
+    if (!usdcSetup.exists) {
+      setupInstructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(payer, usdcSetup.address, payer, this.config.usdcMint)
+      )
+    }
+    const allInstructions = [...setupInstructions, ...instructions]
+
+    const level = getPriorityFeeLevel()
+    const [fees, unitsConsumed] = await Promise.all([
+      getPriorityFeeEstimates(this.connection, writableAccounts),
+      this.simulateComputeUnits(payer, allInstructions),
+    ])
+    const priorityFee = quotePriorityFee(level, fees[level], computeUnitLimitFor(unitsConsumed))
+
+    return { allInstructions, priorityFee }
+  }
+
+  /**
+   * Whether the player's USDC associated token account exists, and the rent it would cost to create
+   */
+  async getUsdcAccountSetup(playerPublicKey: PublicKey): Promise<UsdcAccountSetup> {
+    const address = getAssociatedTokenAddressSync(this.config.usdcMint, playerPublicKey)
+    const info = await this.connection.getAccountInfo(address)
+    if (info) {
+      return { address, exists: true, rentLamports: 0 }
+    }
+    const rentLamports = await this.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE)
+    return { address, exists: false, rentLamports }
+  }
+
+  private async simulateComputeUnits(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+  ): Promise<number | undefined> {
+    try {
+      const messageV0 = new TransactionMessage({
+        payerKey: payer,
+        // Replaced by the RPC node; any well-formed hash works here
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+      }).compileToV0Message()
+
+      const { value } = await this.connection.simulateTransaction(new VersionedTransaction(messageV0), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+      })
+      if (value.err) {
+        console.warn('⚠️ Compute unit simulation failed, using default limit:', value.err)
+        return undefined
+      }
+      return value.unitsConsumed
+    } catch (error) {
+      console.warn('⚠️ Compute unit simulation errored, using default limit:', error)
+      return undefined
+    }
   }
 
   /**
@@ -206,194 +405,164 @@ export class OnChainService {
     raceId,
     assetIdx,
     amount,
-  }: {
-    playerPublicKey: PublicKey
-    raceId: number
-    assetIdx: number
-    amount: number
-  }): Promise<{
-    transaction: VersionedTransaction
-    latestBlockhash: { blockhash: string; lastValidBlockHeight: number }
-    minContextSlot: number
-  }> {
+  }: PlaceBetParams): Promise<PreparedTransaction> {
     try {
       console.log(`🎯 Creating place bet transaction for race ${raceId}, player: ${playerPublicKey.toString()}, asset: ${assetIdx}, amount: ${amount}`)
-      
-      // Get the latest blockhash and slot to use in our transaction
-      const {
-        context: { slot: minContextSlot },
-        value: latestBlockhash,
-      } = await this.connection.getLatestBlockhashAndContext()
-
-      // Derive PDAs based on the IDL structure
-      const raceIdBuffer = Buffer.alloc(8)
-      raceIdBuffer.writeBigUInt64LE(BigInt(raceId), 0)
-      
-      const [racePda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('race'), raceIdBuffer],
-        this.config.programId
-      )
 
-      const [betPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('bet'), racePda.toBuffer(), playerPublicKey.toBuffer()],
-        this.config.programId
-      )
+      const instruction = this.buildPlaceBetInstruction({ playerPublicKey, raceId, assetIdx, amount })
+      const prepared = await this.prepareTransaction(playerPublicKey, [instruction])
 
-      const [vaultPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('vault')],
-        this.config.programId
-      )
+      console.log(`✅ Place bet transaction created successfully`)
 
-      const [configPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('config')],
-        this.config.programId
-      )
+      return prepared
+    } catch (error) {
+      console.error('❌ Error creating place bet transaction:', error)
+      throw error
+    }
+  }
 
-      console.log(`📍 PDAs derived:`)
-      console.log(`   Race: ${racePda.toString()}`)
-      console.log(`   Bet: ${betPda.toString()}`)
-      console.log(`   Vault: ${vaultPda.toString()}`)
-      console.log(`   Config: ${configPda.toString()}`)
-
-      // Get associated token accounts
-      const vaultUsdc = getAssociatedTokenAddressSync(
-        this.config.usdcMint,
-        vaultPda,
-        true // allowOwnerOffCurve
-      )
+  /**
+   * The priority fee createPlaceBetTransaction would attach right now: same accounts,
+   * same simulated compute limit, same fee level, just without a blockhash
+   */
+  async quotePlaceBetPriorityFee(params: PlaceBetParams): Promise<PriorityFeeQuote> {
+    const instruction = this.buildPlaceBetInstruction(params)
+    const usdcSetup = await this.getUsdcAccountSetup(params.playerPublicKey)
+    const { priorityFee } = await this.quoteComputeBudget(params.playerPublicKey, [instruction], usdcSetup)
+    return priorityFee
+  }
 
-      const playerUsdc = getAssociatedTokenAddressSync(
-        this.config.usdcMint,
-        playerPublicKey
-      )
+  private buildPlaceBetInstruction({
+    playerPublicKey,
+    raceId,
+    assetIdx,
+    amount,
+  }: PlaceBetParams): TransactionInstruction {
+    // Derive PDAs based on the IDL structure
+    const raceIdBuffer = Buffer.alloc(8)
+    raceIdBuffer.writeBigUInt64LE(BigInt(raceId), 0)
 
-      console.log(`💰 Token accounts:`)
-      console.log(`   Vault USDC: ${vaultUsdc.toString()}`)
-      console.log(`   Player USDC: ${playerUsdc.toString()}`)
-      console.log(`   USDC Mint: ${this.config.usdcMint.toString()}`)
+    const [racePda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('race'), raceIdBuffer],
+      this.config.programId
+    )
+
+    const [betPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bet'), racePda.toBuffer(), playerPublicKey.toBuffer()],
+      this.config.programId
+    )
+
+    const [vaultPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('vault')],
+      this.config.programId
+    )
+
+    const [configPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('config')],
+      this.config.programId
+    )
+
+    // Get associated token accounts
+    const vaultUsdc = getAssociatedTokenAddressSync(
+      this.config.usdcMint,
+      vaultPda,
+      true // allowOwnerOffCurve
+    )
+
+    const playerUsdc = getAssociatedTokenAddressSync(
+      this.config.usdcMint,
+      playerPublicKey
+    )
 
-      // Build the place bet instruction based on IDL
-      const instruction = this.createPlaceBetInstruction({
+    // Build the place bet instruction from the typed IDL client
+    return createPlaceBetInstruction(
+      {
         bet: betPda,
         race: racePda,
+        config: configPda,
+        playerUsdc,
         vault: vaultPda,
         vaultUsdc,
-        playerUsdc,
         usdcMint: this.config.usdcMint,
-        tokenProgram: TOKEN_PROGRAM_ID,
-        config: configPda,
         player: playerPublicKey,
-        assetIdx,
-        amount,
-      })
-
-      // Create a new TransactionMessage and compile it
-      const messageV0 = new TransactionMessage({
-        payerKey: playerPublicKey,
-        recentBlockhash: latestBlockhash.blockhash,
-        instructions: [instruction],
-      }).compileToV0Message()
-
-      // Create a new VersionedTransaction
-      const transaction = new VersionedTransaction(messageV0)
-
-      console.log(`✅ Place bet transaction created successfully`)
-
-      return {
-        transaction,
-        latestBlockhash,
-        minContextSlot,
-      }
-    } catch (error) {
-      console.error('❌ Error creating place bet transaction:', error)
-      throw error
-    }
+        systemProgram: this.config.systemProgram,
+        tokenProgram: TOKEN_PROGRAM_ID,
+      },
+      { assetIdx, amount },
+      this.config.programId
+    )
   }
 
   /**
-   * Create the place bet instruction based on the IDL discriminator and accounts
+   * Derive the race state from an on-chain Race account (the account stores no explicit state)
    */
-  private createPlaceBetInstruction({
-    bet,
-    race,
-    vault,
-    vaultUsdc,
-    playerUsdc,
-    usdcMint,
-    tokenProgram,
-    config,
-    player,
-    assetIdx,
-    amount,
-  }: {
-    bet: PublicKey
-    race: PublicKey
-    vault: PublicKey
-    vaultUsdc: PublicKey
-    playerUsdc: PublicKey
-    usdcMint: PublicKey
-    tokenProgram: PublicKey
-    config: PublicKey
-    player: PublicKey
-    assetIdx: number
-    amount: number
-  }): TransactionInstruction {
-    // Correct instruction discriminator for place_bet from IDL: [222, 62, 67, 220, 63, 166, 126, 33]
-    const discriminator = Buffer.from([222, 62, 67, 220, 63, 166, 126, 33])
-
-    // Serialize instruction data: asset_idx (u8) + amount (u64)
-    const data = Buffer.alloc(8 + 1 + 8) // discriminator + asset_idx + amount
-    discriminator.copy(data, 0)
-    data.writeUInt8(assetIdx, 8) // asset_idx as u8
-    data.writeBigUInt64LE(BigInt(amount), 9) // amount as u64
-
-    // Account metas based on EXACT IDL order for place_bet
-    const accounts: AccountMeta[] = [
-      { pubkey: bet, isSigner: false, isWritable: true },           // bet
-      { pubkey: race, isSigner: false, isWritable: true },          // race  
-      { pubkey: config, isSigner: false, isWritable: false },       // config
-      { pubkey: playerUsdc, isSigner: false, isWritable: true },    // player_usdc
-      { pubkey: vault, isSigner: false, isWritable: true },         // vault (writable per IDL)
-      { pubkey: vaultUsdc, isSigner: false, isWritable: true },     // vault_usdc
-      { pubkey: usdcMint, isSigner: false, isWritable: false },     // usdc_mint
-      { pubkey: player, isSigner: true, isWritable: true },         // player (writable per IDL)
-      { pubkey: this.config.systemProgram, isSigner: false, isWritable: false }, // system_program
-      { pubkey: tokenProgram, isSigner: false, isWritable: false }, // token_program
-    ]
-
-    return new TransactionInstruction({
-      keys: accounts,
-      programId: this.config.programId,
-      data,
-    })
+  static deriveRaceState(race: RaceAccount, nowTs: number = Math.floor(Date.now() / 1000)): RaceState {
+    if (race.winningAssets.length > 0 || race.payoutRatioNum > 0) return RaceState.Settled
+    if (nowTs >= race.settleTs) return RaceState.SettlementReady
+    if (nowTs >= race.lockTs) return RaceState.Running
+    return RaceState.Betting
   }
 
   /**
    * Helper to check if a bet exists and is claimable
    */
-  async checkBetClaimability(playerPublicKey: PublicKey, raceId: number): Promise<{
-    exists: boolean
-    claimed: boolean
-    isWinner: boolean
-    canClaim: boolean
-  }> {
+  async checkBetClaimability(playerPublicKey: PublicKey, raceId: number): Promise<BetClaimability> {
+    const [result] = await this.checkBetsClaimability(playerPublicKey, [raceId])
+    return result
+  }
+
+  /**
+   * Check claimability for several races at once by decoding the Bet and Race accounts from chain
+   */
+  async checkBetsClaimability(playerPublicKey: PublicKey, raceIds: number[]): Promise<BetClaimability[]> {
+    const missing: BetClaimability = { exists: false, claimed: false, isWinner: false, canClaim: false }
+    if (raceIds.length === 0) return []
+
     try {
-      const racePda = OnChainService.getRacePda(raceId, this.config.programId)
-      const betPda = OnChainService.getBetPda(racePda, playerPublicKey, this.config.programId)
-      
-      const betAccount = await this.connection.getAccountInfo(betPda)
-      
-      if (!betAccount) {
-        return { exists: false, claimed: false, isWinner: false, canClaim: false }
+      const racePdas = raceIds.map((raceId) => OnChainService.getRacePda(raceId, this.config.programId))
+      const betPdas = racePdas.map((racePda) => OnChainService.getBetPda(racePda, playerPublicKey, this.config.programId))
+
+      // getMultipleAccounts is capped at 100 keys per request
+      const keys = [...betPdas, ...racePdas]
+      const infos: (AccountInfo<Buffer> | null)[] = []
+      for (let i = 0; i < keys.length; i += 100) {
+        infos.push(...(await this.connection.getMultipleAccountsInfo(keys.slice(i, i + 100))))
       }
 
-      // Parse bet account data to check claim status
-      // This would need to match the Bet struct from the IDL
-      // For now, we'll assume it exists and can be claimed
-      return { exists: true, claimed: false, isWinner: true, canClaim: true }
+      return raceIds.map((raceId, i) => {
+        const betInfo = infos[i]
+        const raceInfo = infos[raceIds.length + i]
+        if (!betInfo) return missing
+
+        try {
+          const bet = decodeBetAccount(betInfo.data)
+          if (!raceInfo) {
+            return { exists: true, claimed: bet.claimed, isWinner: false, canClaim: false, bet }
+          }
+
+          const race = decodeRaceAccount(raceInfo.data)
+          const raceState = OnChainService.deriveRaceState(race)
+          const isWinner = raceState === RaceState.Settled && race.winningAssets.includes(bet.assetIdx)
+
+          return {
+            exists: true,
+            claimed: bet.claimed,
+            isWinner,
+            canClaim: isWinner && !bet.claimed,
+            raceState,
+            bet,
+            race,
+          }
+        } catch (decodeError) {
+          console.error(`❌ Failed to decode bet/race accounts for race ${raceId}:`, decodeError)
+          return { ...missing, exists: true }
+        }
+      })
     } catch (error) {
       console.error('Error checking bet claimability:', error)
-      return { exists: false, claimed: false, isWinner: false, canClaim: false }
+      // Not knowing is different from there being no bet; callers should retry rather than give up on these races
+      const rpcError = getErrorMessage(error) || 'RPC request failed'
+      return raceIds.map(() => ({ ...missing, rpcError }))
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,193 @@
+import { DUST_THRESHOLD, SCALING_FACTOR } from './config'
+
+// Integer mirror of the program's settlement arithmetic. Everything is micro-USDC
+// and every division floors, exactly like the u64/u128 math on chain, so what the
+// app shows is what claim_payout will transfer. Inputs accept plain numbers (as
+// they arrive from the API) or bigints; results stay bigint until display.
+
+export type MicroAmount = number | bigint
+
+export interface PayoutBreakdown {
+  totalPool: bigint
+  fee: bigint
+  netPool: bigint
+  // Combined pool of every winning asset; tied winners share one ratio
+  winningPool: bigint
+  // netPool / winningPool scaled by SCALING_FACTOR, floored (payout_ratio_num on chain)
+  payoutRatio: bigint
+  stake: bigint
+  payout: bigint
+  // Rounding leftover folded into this payout because it is the race's last claim; part of payout
+  dust: bigint
+  // payout - stake; negative when the bet lost
+  profit: bigint
+}
+
+const BPS_DENOMINATOR = BigInt(10_000)
+const SCALE = BigInt(SCALING_FACTOR)
+const DUST = BigInt(DUST_THRESHOLD)
+const ZERO = BigInt(0)
+const MICRO_PER_USDC = 1_000_000
+
+const toBig = (value: MicroAmount): bigint => {
+  if (typeof value === 'bigint') return value
+  if (!Number.isFinite(value)) return ZERO
+  // Amounts are integers on chain; anything fractional is a display value that leaked in
+  return BigInt(Math.trunc(value))
+}
+
+const sum = (values: MicroAmount[]): bigint => values.reduce<bigint>((total, value) => total + toBig(value), ZERO)
+
+// Protocol fee taken off the whole pool at the race's fee_bps_snapshot
+export const feeFor = (totalPool: MicroAmount, feeBps: number): bigint =>
+  (toBig(totalPool) * BigInt(feeBps)) / BPS_DENOMINATOR
+
+export const netPoolFor = (totalPool: MicroAmount, feeBps: number): bigint =>
+  toBig(totalPool) - feeFor(totalPool, feeBps)
+
+export const winningPoolFor = (pools: MicroAmount[], winningAssets: number[]): bigint =>
+  sum(Array.from(new Set(winningAssets)).map((index) => pools[index] ?? 0))
+
+export const payoutRatioFor = (netPool: MicroAmount, winningPool: MicroAmount): bigint => {
+  const winning = toBig(winningPool)
+  return winning > ZERO ? (toBig(netPool) * SCALE) / winning : ZERO
+}
+
+export const payoutFor = (stake: MicroAmount, payoutRatio: bigint): bigint => (toBig(stake) * payoutRatio) / SCALE
+
+/**
+ * Net pool left over once every winning stake is paid. Each payout floors, so
+ * this is never negative and is under one micro-USDC per winning bet.
+ */
+export const roundingRemainder = (netPool: MicroAmount, payoutRatio: bigint, winningStakes: MicroAmount[]): bigint =>
+  toBig(netPool) - sum(winningStakes.map((stake) => payoutFor(stake, payoutRatio)))
+
+// What's still unclaimed is only rounding dust, so the program sweeps it out with the claim
+export const isDustRemainder = (netPool: MicroAmount, claimedPool: MicroAmount): boolean => {
+  const remaining = toBig(netPool) - toBig(claimedPool)
+  return remaining >= ZERO && remaining <= DUST
+}
+
+/**
+ * The dust step of claim_payout: once this claim leaves no more than
+ * DUST_THRESHOLD of the net pool unclaimed, the claimer receives that remainder
+ * too and the race is marked dust_swept.
+ */
+export const sweepDust = (
+  payout: bigint,
+  netPool: MicroAmount,
+  claimedPool: MicroAmount,
+): { payout: bigint; dust: bigint } => {
+  if (payout === ZERO) return { payout, dust: ZERO }
+  const claimedAfter = toBig(claimedPool) + payout
+  if (!isDustRemainder(netPool, claimedAfter)) return { payout, dust: ZERO }
+  const dust = toBig(netPool) - claimedAfter
+  return { payout: payout + dust, dust }
+}
+
+/**
+ * Payout for a stake on `assetIdx` once `winningAssets` are decided. A settled
+ * race already recorded its net and winning pools; pass them so the ratio is
+ * rebuilt from the same numbers the program used. Passing the race's
+ * `claimedPool` as well applies the dust sweep the final claim receives.
+ */
+export const settlePayout = ({
+  pools,
+  feeBps,
+  winningAssets,
+  assetIdx,
+  stake,
+  netPool,
+  winningPool,
+  claimedPool,
+}: {
+  pools: MicroAmount[]
+  feeBps: number
+  winningAssets: number[]
+  assetIdx: number
+  stake: MicroAmount
+  netPool?: MicroAmount
+  winningPool?: MicroAmount
+  claimedPool?: MicroAmount
+}): PayoutBreakdown => {
+  const totalPool = sum(pools)
+  const net = netPool !== undefined && toBig(netPool) > ZERO ? toBig(netPool) : netPoolFor(totalPool, feeBps)
+  const winning =
+    winningPool !== undefined && toBig(winningPool) > ZERO ? toBig(winningPool) : winningPoolFor(pools, winningAssets)
+  const payoutRatio = payoutRatioFor(net, winning)
+  const stakeBig = toBig(stake)
+  const floored = winningAssets.includes(assetIdx) ? payoutFor(stakeBig, payoutRatio) : ZERO
+  const { payout, dust } =
+    claimedPool !== undefined ? sweepDust(floored, net, claimedPool) : { payout: floored, dust: ZERO }
+  return {
+    totalPool,
+    fee: totalPool - net,
+    netPool: net,
+    winningPool: winning,
+    payoutRatio,
+    stake: stakeBig,
+    payout,
+    dust,
+    profit: payout - stakeBig,
+  }
+}
+
+/**
+ * What a bet would pay if `assetIdx` won outright, after `additional` more
+ * micro-USDC goes onto it on top of the player's `existingStake`
+ */
+export const projectPayout = ({
+  pools,
+  feeBps,
+  assetIdx,
+  additional = 0,
+  existingStake = 0,
+}: {
+  pools: MicroAmount[]
+  feeBps: number
+  assetIdx: number
+  additional?: MicroAmount
+  existingStake?: MicroAmount
+}): PayoutBreakdown => {
+  const extra = toBig(additional)
+  return settlePayout({
+    pools: pools.map((pool, index) => (index === assetIdx ? toBig(pool) + extra : toBig(pool))),
+    feeBps,
+    winningAssets: [assetIdx],
+    assetIdx,
+    stake: toBig(existingStake) + extra,
+  })
+}
+
+/**
+ * What one unit on each asset pays back if it wins alone, at the current pools.
+ * Assets nobody has backed yet have no price and read 0.
+ */
+export const impliedOdds = (pools: MicroAmount[], feeBps: number): number[] => {
+  const net = netPoolFor(sum(pools), feeBps)
+  return pools.map((pool) => Number(payoutRatioFor(net, pool)) / SCALING_FACTOR)
+}
+
+/**
+ * What one unit on a winner pays back if `winningAssets` settle together. Tied
+ * winners share one ratio; with a single winner this matches impliedOdds.
+ */
+export const payoutMultiplierFor = (pools: MicroAmount[], feeBps: number, winningAssets: number[]): number =>
+  Number(payoutRatioFor(netPoolFor(sum(pools), feeBps), winningPoolFor(pools, winningAssets))) / SCALING_FACTOR
+
+// Assets tied for the best performance. Winners are picked by exact comparison, so a tie means an identical move
+export const leadingAssets = (performances: { index: number; performance: number }[]): number[] => {
+  const best = Math.max(...performances.map(({ performance }) => performance))
+  return performances.filter(({ performance }) => performance === best).map(({ index }) => index)
+}
+
+// Each asset's slice of the whole pool, 0..1
+export const poolSharesFor = (pools: MicroAmount[]): number[] => {
+  const total = sum(pools)
+  if (total === ZERO) return pools.map(() => 0)
+  return pools.map((pool) => Number((toBig(pool) * SCALE) / total) / SCALING_FACTOR)
+}
+
+// For display only; compare and sum in bigint
+export const microToUsdc = (micro: bigint): number =>
+  Number(micro / BigInt(MICRO_PER_USDC)) + Number(micro % BigInt(MICRO_PER_USDC)) / MICRO_PER_USDC
@@ -0,0 +1,48 @@
+import { storage } from '../store/storage'
+
+// Where live prices come from: the backend's `price_update` events, or Pyth Hermes directly
+export type PriceSourceKind = 'backend' | 'pyth'
+
+export const PRICE_SOURCES: PriceSourceKind[] = ['backend', 'pyth']
+
+export const DEFAULT_PRICE_SOURCE: PriceSourceKind = 'backend'
+
+const PRICE_SOURCE_STORAGE_KEY = 'priceSource'
+
+const isPriceSource = (value: unknown): value is PriceSourceKind =>
+  typeof value === 'string' && (PRICE_SOURCES as string[]).includes(value)
+
+const loadPersistedSource = (): PriceSourceKind => {
+  try {
+    const stored = storage.getString(PRICE_SOURCE_STORAGE_KEY)
+    return isPriceSource(stored) ? stored : DEFAULT_PRICE_SOURCE
+  } catch {
+    return DEFAULT_PRICE_SOURCE
+  }
+}
+
+let currentSource: PriceSourceKind = loadPersistedSource()
+
+type PriceSourceListener = (source: PriceSourceKind) => void
+const sourceListeners = new Set<PriceSourceListener>()
+
+export const getPriceSource = (): PriceSourceKind => currentSource
+
+export const setPriceSource = (source: PriceSourceKind) => {
+  if (source === currentSource) return
+  console.log(`📈 Switching price source: ${currentSource} → ${source}`)
+  currentSource = source
+  try {
+    storage.set(PRICE_SOURCE_STORAGE_KEY, source)
+  } catch {
+    // ignore
+  }
+  sourceListeners.forEach((listener) => listener(source))
+}
+
+export const subscribeToPriceSource = (listener: PriceSourceListener): (() => void) => {
+  sourceListeners.add(listener)
+  return () => {
+    sourceListeners.delete(listener)
+  }
+}
@@ -0,0 +1,151 @@
+import { ComputeBudgetProgram, Connection, PublicKey, TransactionInstruction } from '@solana/web3.js'
+
+import { storage } from '../store/storage'
+
+export type PriorityFeeLevel = 'normal' | 'fast' | 'turbo'
+
+export const PRIORITY_FEE_LEVELS: PriorityFeeLevel[] = ['normal', 'fast', 'turbo']
+
+export const DEFAULT_PRIORITY_FEE_LEVEL: PriorityFeeLevel = 'fast'
+
+export interface PriorityFeeQuote {
+  level: PriorityFeeLevel
+  microLamports: number // price per compute unit
+  computeUnits: number
+  lamports: number // total priority fee for the transaction
+}
+
+// Percentile of recent non-zero prioritization fees each level pays
+const LEVEL_PERCENTILES: Record<PriorityFeeLevel, number> = {
+  normal: 0.5,
+  fast: 0.75,
+  turbo: 0.95,
+}
+
+// Floors (micro-lamports per CU) so a quiet fee market still buys some priority
+const LEVEL_FLOORS: Record<PriorityFeeLevel, number> = {
+  normal: 1_000,
+  fast: 10_000,
+  turbo: 100_000,
+}
+
+// Upper bound so a single spike in the sample can't drain the wallet
+const MAX_MICRO_LAMPORTS = 5_000_000
+
+export const DEFAULT_COMPUTE_UNITS = 200_000
+export const MAX_COMPUTE_UNITS = 1_400_000
+// Headroom on top of simulated usage; the limit, not actual usage, is what gets billed
+const COMPUTE_UNIT_MARGIN = 1.2
+
+const PRIORITY_FEE_STORAGE_KEY = 'priorityFeeLevel'
+const FEE_CACHE_TTL_MS = 10_000
+
+const isPriorityFeeLevel = (value: unknown): value is PriorityFeeLevel =>
+  typeof value === 'string' && (PRIORITY_FEE_LEVELS as string[]).includes(value)
+
+const loadPersistedLevel = (): PriorityFeeLevel => {
+  try {
+    const stored = storage.getString(PRIORITY_FEE_STORAGE_KEY)
+    return isPriorityFeeLevel(stored) ? stored : DEFAULT_PRIORITY_FEE_LEVEL
+  } catch {
+    return DEFAULT_PRIORITY_FEE_LEVEL
+  }
+}
+
+let currentLevel: PriorityFeeLevel = loadPersistedLevel()
+
+type PriorityFeeLevelListener = (level: PriorityFeeLevel) => void
+const levelListeners = new Set<PriorityFeeLevelListener>()
+
+export const getPriorityFeeLevel = (): PriorityFeeLevel => currentLevel
+
+export const setPriorityFeeLevel = (level: PriorityFeeLevel) => {
+  if (level === currentLevel) return
+  currentLevel = level
+  try {
+    storage.set(PRIORITY_FEE_STORAGE_KEY, level)
+  } catch {
+    // ignore
+  }
+  levelListeners.forEach((listener) => listener(level))
+}
+
+export const subscribeToPriorityFeeLevel = (listener: PriorityFeeLevelListener): (() => void) => {
+  levelListeners.add(listener)
+  return () => {
+    levelListeners.delete(listener)
+  }
+}
+
+const feeCache = new Map<string, { fees: Record<PriorityFeeLevel, number>; fetchedAt: number }>()
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0
+  const index = Math.min(sorted.length - 1, Math.floor(p * sorted.length))
+  return sorted[index]
+}
+
+/**
+ * Per-level fee (micro-lamports per CU) from the last ~150 slots of fees paid to
+ * write-lock the given accounts
+ */
+export const getPriorityFeeEstimates = async (
+  connection: Connection,
+  writableAccounts: PublicKey[],
+): Promise<Record<PriorityFeeLevel, number>> => {
+  const cacheKey = [connection.rpcEndpoint, ...writableAccounts.map((account) => account.toBase58())].join(':')
+  const cached = feeCache.get(cacheKey)
+  if (cached && Date.now() - cached.fetchedAt < FEE_CACHE_TTL_MS) {
+    return cached.fees
+  }
+
+  let samples: number[] = []
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts })
+    samples = recent
+      .map((entry) => entry.prioritizationFee)
+      .filter((fee) => fee > 0)
+      .sort((a, b) => a - b)
+  } catch (error) {
+    console.warn('⚠️ Failed to fetch recent prioritization fees, using floors:', error)
+  }
+
+  const fees = PRIORITY_FEE_LEVELS.reduce(
+    (acc, level) => {
+      const sampled = percentile(samples, LEVEL_PERCENTILES[level])
+      acc[level] = Math.min(MAX_MICRO_LAMPORTS, Math.max(LEVEL_FLOORS[level], sampled))
+      return acc
+    },
+    {} as Record<PriorityFeeLevel, number>,
+  )
+
+  feeCache.set(cacheKey, { fees, fetchedAt: Date.now() })
+  return fees
+}
+
+export const priorityFeeLamports = (microLamports: number, computeUnits: number): number =>
+  Math.ceil((microLamports * computeUnits) / 1_000_000)
+
+export const computeUnitLimitFor = (unitsConsumed?: number): number => {
+  if (!unitsConsumed) return DEFAULT_COMPUTE_UNITS
+  return Math.min(MAX_COMPUTE_UNITS, Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN))
+}
+
+export const quotePriorityFee = (
+  level: PriorityFeeLevel,
+  microLamports: number,
+  computeUnits: number,
+): PriorityFeeQuote => ({
+  level,
+  microLamports,
+  computeUnits,
+  lamports: priorityFeeLamports(microLamports, computeUnits),
+})
+
+export const buildComputeBudgetInstructions = ({
+  computeUnits,
+  microLamports,
+}: Pick<PriorityFeeQuote, 'computeUnits' | 'microLamports'>): TransactionInstruction[] => [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+]
@@ -0,0 +1,526 @@
+import { AccountMeta, PublicKey, TransactionInstruction } from '@solana/web3.js'
+
+import { IdlAccountName, IdlErrorName, IdlField, IdlInstructionName, IdlType, MOMENTUM_MADNESS_IDL } from './idl'
+import { AssetMeta, BetAccount, ConfigAccount, RaceAccount, TreasuryAccount, VaultAccount } from './types'
+
+// Typed client for the Momentum Madness program, driven entirely by `idl.ts`.
+// Instruction data and account layouts are Borsh-encoded exactly as Anchor does:
+// an 8-byte discriminator followed by the fields in IDL order.
+
+export type DecodedValue =
+  | boolean
+  | number
+  | bigint
+  | string
+  | PublicKey
+  | Uint8Array
+  | null
+  | DecodedValue[]
+  | { [field: string]: DecodedValue }
+
+type DecodedStruct = { [field: string]: DecodedValue }
+
+export class IdlCoderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IdlCoderError'
+  }
+}
+
+const DISCRIMINATOR_SIZE = 8
+
+/** Convert an IDL snake_case name to the camelCase key used in TS objects */
+export function idlNameToCamel(name: string): string {
+  return name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase())
+}
+
+function findTypeDef(name: string): readonly IdlField[] {
+  const def = MOMENTUM_MADNESS_IDL.types.find((t) => t.name === name)
+  if (!def) {
+    throw new IdlCoderError(`Unknown IDL type: ${name}`)
+  }
+  return def.type.fields
+}
+
+function findInstruction(name: IdlInstructionName) {
+  const ix = MOMENTUM_MADNESS_IDL.instructions.find((i) => i.name === name)
+  if (!ix) {
+    throw new IdlCoderError(`Unknown IDL instruction: ${name}`)
+  }
+  return ix
+}
+
+function findAccount(name: IdlAccountName) {
+  const account = MOMENTUM_MADNESS_IDL.accounts.find((a) => a.name === name)
+  if (!account) {
+    throw new IdlCoderError(`Unknown IDL account: ${name}`)
+  }
+  return account
+}
+
+function matchesDiscriminator(data: Uint8Array, discriminator: readonly number[]): boolean {
+  if (data.length < DISCRIMINATOR_SIZE) return false
+  for (let i = 0; i < DISCRIMINATOR_SIZE; i++) {
+    if (data[i] !== discriminator[i]) return false
+  }
+  return true
+}
+
+// ---------------------------------------------------------------------------
+// Borsh encoding
+// ---------------------------------------------------------------------------
+
+function toBigInt(value: unknown, type: string): bigint {
+  if (typeof value === 'bigint') return value
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value)
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) return BigInt(value)
+  throw new IdlCoderError(`Expected integer for ${type}, got ${String(value)}`)
+}
+
+function toSmallInt(value: unknown, type: string, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > max) {
+    throw new IdlCoderError(`Expected ${type} in range 0..${max}, got ${String(value)}`)
+  }
+  return value
+}
+
+function encodeValue(type: IdlType, value: unknown, out: Buffer[]): void {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'bool':
+        out.push(Buffer.from([value ? 1 : 0]))
+        return
+      case 'u8':
+        out.push(Buffer.from([toSmallInt(value, type, 0xff)]))
+        return
+      case 'u16': {
+        const buf = Buffer.alloc(2)
+        buf.writeUInt16LE(toSmallInt(value, type, 0xffff), 0)
+        out.push(buf)
+        return
+      }
+      case 'u32': {
+        const buf = Buffer.alloc(4)
+        buf.writeUInt32LE(toSmallInt(value, type, 0xffffffff), 0)
+        out.push(buf)
+        return
+      }
+      case 'u64': {
+        const buf = Buffer.alloc(8)
+        buf.writeBigUInt64LE(toBigInt(value, type), 0)
+        out.push(buf)
+        return
+      }
+      case 'i64': {
+        const buf = Buffer.alloc(8)
+        buf.writeBigInt64LE(toBigInt(value, type), 0)
+        out.push(buf)
+        return
+      }
+      case 'u128': {
+        const n = toBigInt(value, type)
+        if (n < BigInt(0)) {
+          throw new IdlCoderError(`Expected unsigned u128, got ${n.toString()}`)
+        }
+        const buf = Buffer.alloc(16)
+        buf.writeBigUInt64LE(n & BigInt('0xffffffffffffffff'), 0)
+        buf.writeBigUInt64LE(n >> BigInt(64), 8)
+        out.push(buf)
+        return
+      }
+      case 'pubkey': {
+        if (!(value instanceof PublicKey)) {
+          throw new IdlCoderError(`Expected PublicKey, got ${String(value)}`)
+        }
+        out.push(value.toBuffer())
+        return
+      }
+      case 'string': {
+        if (typeof value !== 'string') {
+          throw new IdlCoderError(`Expected string, got ${String(value)}`)
+        }
+        const bytes = Buffer.from(value, 'utf8')
+        const len = Buffer.alloc(4)
+        len.writeUInt32LE(bytes.length, 0)
+        out.push(len, bytes)
+        return
+      }
+    }
+  }
+
+  if ('vec' in type) {
+    if (!Array.isArray(value)) {
+      throw new IdlCoderError(`Expected array for vec, got ${String(value)}`)
+    }
+    const len = Buffer.alloc(4)
+    len.writeUInt32LE(value.length, 0)
+    out.push(len)
+    value.forEach((item) => encodeValue(type.vec, item, out))
+    return
+  }
+
+  if ('option' in type) {
+    if (value === null || value === undefined) {
+      out.push(Buffer.from([0]))
+      return
+    }
+    out.push(Buffer.from([1]))
+    encodeValue(type.option, value, out)
+    return
+  }
+
+  if ('array' in type) {
+    const [inner, size] = type.array
+    const items = value instanceof Uint8Array ? Array.from(value) : value
+    if (!Array.isArray(items) || items.length !== size) {
+      throw new IdlCoderError(`Expected array of length ${size}`)
+    }
+    items.forEach((item) => encodeValue(inner, item, out))
+    return
+  }
+
+  encodeStruct(findTypeDef(type.defined.name), value, out)
+}
+
+function encodeStruct(fields: readonly IdlField[], value: unknown, out: Buffer[]): void {
+  if (!value || typeof value !== 'object') {
+    throw new IdlCoderError(`Expected object for struct, got ${String(value)}`)
+  }
+  const record = value as Record<string, unknown>
+  fields.forEach((field) => {
+    encodeValue(field.type, record[idlNameToCamel(field.name)], out)
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Borsh decoding
+// ---------------------------------------------------------------------------
+
+class Reader {
+  private offset: number
+
+  constructor(
+    private readonly buf: Buffer,
+    offset = 0,
+  ) {
+    this.offset = offset
+  }
+
+  take(size: number): Buffer {
+    if (this.offset + size > this.buf.length) {
+      throw new IdlCoderError(`Buffer underflow reading ${size} bytes at offset ${this.offset}`)
+    }
+    const slice = this.buf.subarray(this.offset, this.offset + size)
+    this.offset += size
+    return slice
+  }
+}
+
+function decodeValue(type: IdlType, reader: Reader): DecodedValue {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'bool':
+        return reader.take(1)[0] !== 0
+      case 'u8':
+        return reader.take(1)[0]
+      case 'u16':
+        return reader.take(2).readUInt16LE(0)
+      case 'u32':
+        return reader.take(4).readUInt32LE(0)
+      case 'u64':
+        return reader.take(8).readBigUInt64LE(0)
+      case 'i64':
+        return reader.take(8).readBigInt64LE(0)
+      case 'u128': {
+        const bytes = reader.take(16)
+        return (bytes.readBigUInt64LE(8) << BigInt(64)) | bytes.readBigUInt64LE(0)
+      }
+      case 'pubkey':
+        return new PublicKey(reader.take(32))
+      case 'string': {
+        const len = reader.take(4).readUInt32LE(0)
+        return reader.take(len).toString('utf8')
+      }
+    }
+  }
+
+  if ('vec' in type) {
+    const len = reader.take(4).readUInt32LE(0)
+    const items: DecodedValue[] = []
+    for (let i = 0; i < len; i++) {
+      items.push(decodeValue(type.vec, reader))
+    }
+    return items
+  }
+
+  if ('option' in type) {
+    const tag = reader.take(1)[0]
+    return tag === 0 ? null : decodeValue(type.option, reader)
+  }
+
+  if ('array' in type) {
+    const [inner, size] = type.array
+    // Fixed byte arrays (e.g. Pyth feed ids) are surfaced as raw bytes
+    if (inner === 'u8') {
+      return new Uint8Array(reader.take(size))
+    }
+    const items: DecodedValue[] = []
+    for (let i = 0; i < size; i++) {
+      items.push(decodeValue(inner, reader))
+    }
+    return items
+  }
+
+  return decodeStruct(findTypeDef(type.defined.name), reader)
+}
+
+function decodeStruct(fields: readonly IdlField[], reader: Reader): DecodedStruct {
+  const result: DecodedStruct = {}
+  fields.forEach((field) => {
+    result[idlNameToCamel(field.name)] = decodeValue(field.type, reader)
+  })
+  return result
+}
+
+// ---------------------------------------------------------------------------
+// Instructions
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode instruction data (discriminator + Borsh args) for any IDL instruction
+ */
+export function encodeInstructionData(name: IdlInstructionName, args: Record<string, unknown> = {}): Buffer {
+  const ix = findInstruction(name)
+  const out: Buffer[] = [Buffer.from(ix.discriminator)]
+  encodeStruct(ix.args, args, out)
+  return Buffer.concat(out)
+}
+
+/**
+ * Decode instruction data back into its IDL name and camelCase args
+ */
+export function decodeInstructionData(data: Uint8Array): { name: IdlInstructionName; args: DecodedStruct } | null {
+  const buf = Buffer.from(data)
+  const ix = MOMENTUM_MADNESS_IDL.instructions.find((i) => matchesDiscriminator(buf, i.discriminator))
+  if (!ix) return null
+  const reader = new Reader(buf, DISCRIMINATOR_SIZE)
+  return { name: ix.name, args: decodeStruct(ix.args, reader) }
+}
+
+/**
+ * Build account metas in IDL order. Accounts with a fixed address in the IDL
+ * (system/token program) may be omitted.
+ */
+function buildAccountMetas(name: IdlInstructionName, accounts: Record<string, PublicKey | undefined>): AccountMeta[] {
+  const ix = findInstruction(name)
+  return ix.accounts.map((account) => {
+    const key = idlNameToCamel(account.name)
+    const fixedAddress = account.address
+    const pubkey = accounts[key] ?? (fixedAddress ? new PublicKey(fixedAddress) : undefined)
+    if (!pubkey) {
+      throw new IdlCoderError(`Missing account "${key}" for instruction ${name}`)
+    }
+    return {
+      pubkey,
+      isSigner: account.signer ?? false,
+      isWritable: account.writable ?? false,
+    }
+  })
+}
+
+export interface PlaceBetAccounts {
+  bet: PublicKey
+  race: PublicKey
+  config: PublicKey
+  playerUsdc: PublicKey
+  vault: PublicKey
+  vaultUsdc: PublicKey
+  usdcMint: PublicKey
+  player: PublicKey
+  systemProgram?: PublicKey
+  tokenProgram?: PublicKey
+}
+
+export interface PlaceBetArgs {
+  assetIdx: number
+  amount: number | bigint
+}
+
+export interface ClaimPayoutAccounts {
+  bet: PublicKey
+  race: PublicKey
+  vault: PublicKey
+  vaultUsdc: PublicKey
+  playerUsdc: PublicKey
+  usdcMint: PublicKey
+  tokenProgram?: PublicKey
+  config: PublicKey
+}
+
+/**
+ * Build a place_bet instruction
+ */
+export function createPlaceBetInstruction(
+  accounts: PlaceBetAccounts,
+  args: PlaceBetArgs,
+  programId: PublicKey,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: buildAccountMetas('place_bet', { ...accounts }),
+    programId,
+    data: encodeInstructionData('place_bet', { ...args }),
+  })
+}
+
+/**
+ * Build a claim_payout instruction
+ */
+export function createClaimPayoutInstruction(
+  accounts: ClaimPayoutAccounts,
+  programId: PublicKey,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: buildAccountMetas('claim_payout', { ...accounts }),
+    programId,
+    data: encodeInstructionData('claim_payout'),
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Accounts
+// ---------------------------------------------------------------------------
+
+/**
+ * 8-byte Anchor discriminator for an account type
+ */
+export function getAccountDiscriminator(name: IdlAccountName): Buffer {
+  return Buffer.from(findAccount(name).discriminator)
+}
+
+/**
+ * Encode a camelCase account object into raw account data (discriminator + Borsh)
+ */
+export function encodeAccountData(name: IdlAccountName, value: Record<string, unknown>): Buffer {
+  const out: Buffer[] = [getAccountDiscriminator(name)]
+  encodeStruct(findTypeDef(name), value, out)
+  return Buffer.concat(out)
+}
+
+/**
+ * Decode raw account data into camelCase fields; 64/128-bit integers stay bigint
+ */
+export function decodeAccountData(name: IdlAccountName, data: Uint8Array): DecodedStruct {
+  const buf = Buffer.from(data)
+  if (!matchesDiscriminator(buf, findAccount(name).discriminator)) {
+    throw new IdlCoderError(`Account data is not a ${name} account`)
+  }
+  return decodeStruct(findTypeDef(name), new Reader(buf, DISCRIMINATOR_SIZE))
+}
+
+const num = (value: DecodedValue): number => Number(value as number | bigint)
+const nums = (value: DecodedValue): number[] => (value as (number | bigint)[]).map((v) => Number(v))
+
+export function decodeBetAccount(data: Uint8Array): BetAccount {
+  const raw = decodeAccountData('Bet', data)
+  return {
+    race: raw.race as PublicKey,
+    player: raw.player as PublicKey,
+    assetIdx: num(raw.assetIdx),
+    amount: num(raw.amount),
+    claimed: raw.claimed as boolean,
+    bump: num(raw.bump),
+  }
+}
+
+export function decodeRaceAccount(data: Uint8Array): RaceAccount {
+  const raw = decodeAccountData('Race', data)
+  return {
+    id: num(raw.id),
+    startTs: num(raw.startTs),
+    lockTs: num(raw.lockTs),
+    settleTs: num(raw.settleTs),
+    startPrice: nums(raw.startPrice),
+    endPrice: nums(raw.endPrice),
+    pool: nums(raw.pool),
+    totalPool: num(raw.totalPool),
+    winningAssets: nums(raw.winningAssets),
+    winningPool: num(raw.winningPool),
+    netPool: num(raw.netPool),
+    payoutRatioNum: num(raw.payoutRatioNum),
+    claimedPool: num(raw.claimedPool),
+    feeBpsSnapshot: num(raw.feeBpsSnapshot),
+    dustSwept: raw.dustSwept as boolean,
+    bump: num(raw.bump),
+  }
+}
+
+export function decodeConfigAccount(data: Uint8Array): ConfigAccount {
+  const raw = decodeAccountData('Config', data)
+  return {
+    initialized: raw.initialized as boolean,
+    authority: raw.authority as PublicKey,
+    protocolFeeBps: num(raw.protocolFeeBps),
+    feeChangeEffectiveTs: num(raw.feeChangeEffectiveTs),
+    paused: raw.paused as boolean,
+    assets: (raw.assets as DecodedStruct[]).map(
+      (asset) =>
+        ({
+          feedId: asset.feedId as Uint8Array,
+          symbol: asset.symbol as string,
+        }) as AssetMeta,
+    ),
+    lastRaceCreationTs: num(raw.lastRaceCreationTs),
+    lastFeeChangeTs: num(raw.lastFeeChangeTs),
+    proposedAuthority: raw.proposedAuthority as PublicKey | null,
+    authorityChangeTs: num(raw.authorityChangeTs),
+    feeIncreaseWindowStart: num(raw.feeIncreaseWindowStart),
+    totalFeeIncreaseBps: num(raw.totalFeeIncreaseBps),
+    bump: num(raw.bump),
+  }
+}
+
+export function decodeTreasuryAccount(data: Uint8Array): TreasuryAccount {
+  const raw = decodeAccountData('Treasury', data)
+  return { authority: raw.authority as PublicKey, bump: num(raw.bump) }
+}
+
+export function decodeVaultAccount(data: Uint8Array): VaultAccount {
+  const raw = decodeAccountData('Vault', data)
+  return { authority: raw.authority as PublicKey, bump: num(raw.bump) }
+}
+
+export interface ProgramError {
+  code: number
+  name: IdlErrorName
+  msg: string
+}
+
+// Anchor logs `Error Code: <Name>. Error Number: <code>. Error Message: <msg>.` on every custom error
+const ANCHOR_ERROR_LOG = /Error Code: (\w+)\. Error Number: (\d+)/
+
+export function getProgramError(codeOrName: number | string): ProgramError | undefined {
+  const entry = MOMENTUM_MADNESS_IDL.errors.find((error) =>
+    typeof codeOrName === 'number' ? error.code === codeOrName : error.name === codeOrName,
+  )
+  return entry ? { code: entry.code, name: entry.name, msg: entry.msg } : undefined
+}
+
+/**
+ * Resolve a program error from a transaction error (`{ InstructionError: [i, { Custom: n }] }`)
+ * and/or its logs. Logs win because they carry the name even if the IDL's codes drift.
+ */
+export function decodeProgramError(err: unknown, logs?: readonly string[] | null): ProgramError | undefined {
+  for (const line of logs ?? []) {
+    const match = ANCHOR_ERROR_LOG.exec(line)
+    if (match) {
+      const byName = getProgramError(match[1])
+      if (byName) return byName
+      const byCode = getProgramError(Number(match[2]))
+      if (byCode) return byCode
+    }
+  }
+
+  const instructionError = (err as { InstructionError?: [number, unknown] } | null)?.InstructionError
+  const custom = (instructionError?.[1] as { Custom?: number } | undefined)?.Custom
+  return typeof custom === 'number' ? getProgramError(custom) : undefined
+}
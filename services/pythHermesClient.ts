@@ -0,0 +1,240 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native'
+
+import { AssetInfo } from './backendTypes'
+import { getCurrentConfig } from './config'
+import type { PriceUpdatePayload } from './realtimeProtocol'
+
+// Hermes publishes new prices about every 400ms; once a second matches the backend's price_update rate
+export const HERMES_POLL_INTERVAL_MS = 1000
+const HERMES_TIMEOUT_MS = 4000
+
+// Hermes v2 wire format. Price and confidence are integers sent as strings, scaled by 10^expo.
+interface HermesPrice {
+  price: string
+  conf: string
+  expo: number
+  publish_time: number // unix seconds
+}
+
+export interface HermesParsedUpdate {
+  id: string // feed id, hex without 0x
+  price: HermesPrice
+  ema_price?: HermesPrice
+}
+
+export interface HermesLatestResponse {
+  parsed?: HermesParsedUpdate[]
+}
+
+export interface PriceFeedAsset {
+  index: number
+  symbol: string
+  feedId: string
+}
+
+// AssetInfo as the backend reports it, plus when Pyth published the price
+export interface PythAssetPrice extends AssetInfo {
+  publishTime: number // ms
+}
+
+export type PythPricesHandler = (prices: PythAssetPrice[]) => void
+
+// The slice of fetch the client uses, so tests and offline runs can serve recorded responses
+export type HermesFetch = (
+  url: string,
+  init: { signal: AbortSignal },
+) => Promise<Pick<Response, 'ok' | 'status' | 'statusText' | 'json'>>
+
+// A price stream that can stand in for the backend's price_update events
+export interface PriceFeed {
+  start(assets: PriceFeedAsset[]): void
+  stop(): void
+  // Any number of listeners; each call returns its disposer
+  onPrices(handler: PythPricesHandler): () => void
+}
+
+// iOS reports 'unknown' before the first change event, so only an explicit background pauses polling
+const isBackgrounded = (state: AppStateStatus | null): boolean => state === 'background' || state === 'inactive'
+
+// Config and the registry use 0x-prefixed ids, Hermes answers without the prefix
+export const normalizeFeedId = (feedId: string): string => feedId.toLowerCase().replace(/^0x/, '')
+
+/**
+ * Applies the exponent to price and confidence so both read in USD, the same
+ * units the backend uses for currentPrice and currentConf
+ */
+export const normalizeHermesUpdate = (update: HermesParsedUpdate, asset: PriceFeedAsset): PythAssetPrice | null => {
+  const { price, conf, expo, publish_time: publishTime } = update.price
+  const mantissa = Number(price)
+  const confidence = Number(conf)
+  if (!Number.isFinite(mantissa) || !Number.isFinite(confidence) || !Number.isInteger(expo)) return null
+  const scale = 10 ** expo
+  return {
+    index: asset.index,
+    feedId: asset.feedId,
+    symbol: asset.symbol,
+    currentPrice: mantissa * scale,
+    currentExponent: expo,
+    currentConf: confidence * scale,
+    publishTime: publishTime * 1000,
+  }
+}
+
+/**
+ * Matches Hermes updates to the subscribed assets and keeps only prices
+ * published after the last ones seen, recording them in `lastPublished`
+ */
+export const collectFreshPrices = (
+  updates: HermesParsedUpdate[],
+  assets: PriceFeedAsset[],
+  lastPublished: Map<string, number>,
+): PythAssetPrice[] => {
+  const byFeed = new Map(assets.map((asset) => [normalizeFeedId(asset.feedId), asset]))
+  const fresh: PythAssetPrice[] = []
+  updates.forEach((update) => {
+    const asset = byFeed.get(normalizeFeedId(update.id))
+    const normalized = asset ? normalizeHermesUpdate(update, asset) : null
+    if (!normalized || normalized.publishTime <= (lastPublished.get(normalized.symbol) ?? 0)) return
+    lastPublished.set(normalized.symbol, normalized.publishTime)
+    fresh.push(normalized)
+  })
+  return fresh
+}
+
+// Same shape as a validated price_update, so the store handles both sources alike
+export const toPriceUpdatePayload = (prices: PythAssetPrice[]): PriceUpdatePayload =>
+  prices.reduce<PriceUpdatePayload>((payload, price) => {
+    if (price.currentPrice === null) return payload
+    payload[price.symbol] = {
+      price: price.currentPrice,
+      confidence: price.currentConf ?? 0,
+      timestamp: price.publishTime,
+      expo: price.currentExponent ?? 0,
+    }
+    return payload
+  }, {})
+
+export const notifyPriceHandlers = (handlers: Set<PythPricesHandler>, prices: PythAssetPrice[]) => {
+  if (prices.length === 0) return
+  handlers.forEach((handler) => {
+    try {
+      handler(prices)
+    } catch (error) {
+      console.error('❌ Price feed listener threw:', error)
+    }
+  })
+}
+
+/**
+ * Reads the race's feeds straight from Pyth Hermes. Hermes also serves these
+ * as server-sent events, but React Native's fetch can't read a streaming body,
+ * so this polls the latest-price endpoint instead. Polling pauses while the app
+ * is in the background and catches up as soon as it returns.
+ */
+export class PythHermesClient implements PriceFeed {
+  private baseUrl: string
+  private pollIntervalMs: number
+  private fetchImpl: HermesFetch
+  private assets: PriceFeedAsset[] = []
+  private handlers = new Set<PythPricesHandler>()
+  private lastPublished = new Map<string, number>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private appStateSubscription: NativeEventSubscription | null = null
+  private inFlight = false
+  private failures = 0
+
+  constructor(
+    baseUrl: string = getCurrentConfig().hermesUrl,
+    pollIntervalMs: number = HERMES_POLL_INTERVAL_MS,
+    fetchImpl: HermesFetch = (url, init) => fetch(url, init),
+  ) {
+    this.baseUrl = baseUrl
+    this.pollIntervalMs = pollIntervalMs
+    this.fetchImpl = fetchImpl
+  }
+
+  start(assets: PriceFeedAsset[]) {
+    this.stop()
+    this.assets = assets.filter((asset) => asset.feedId)
+    if (this.assets.length === 0) {
+      console.warn('⚠️ No Pyth feed ids to read prices for')
+      return
+    }
+    console.log(`📡 Reading ${this.assets.map((asset) => asset.symbol).join(', ')} prices from Pyth Hermes`)
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange)
+    if (!isBackgrounded(AppState.currentState)) this.resume()
+  }
+
+  stop() {
+    this.appStateSubscription?.remove()
+    this.appStateSubscription = null
+    this.pause()
+    this.assets = []
+    this.lastPublished.clear()
+    this.failures = 0
+  }
+
+  onPrices(handler: PythPricesHandler) {
+    this.handlers.add(handler)
+    return () => {
+      this.handlers.delete(handler)
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (isBackgrounded(state)) this.pause()
+    else this.resume()
+  }
+
+  private resume() {
+    if (this.timer || this.assets.length === 0) return
+    this.poll()
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs)
+  }
+
+  private pause() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async poll() {
+    // A slow response shouldn't stack requests behind it
+    if (this.inFlight) return
+    this.inFlight = true
+    const assets = this.assets
+    try {
+      const response = await this.fetchLatest(assets)
+      // Restarted or stopped while the request was out
+      if (assets !== this.assets) return
+      if (this.failures > 0) console.log('✅ Pyth Hermes reachable again')
+      this.failures = 0
+      notifyPriceHandlers(this.handlers, collectFreshPrices(response.parsed ?? [], assets, this.lastPublished))
+    } catch (error) {
+      // Polling keeps retrying; report the first failure of a streak only
+      if (this.failures === 0) console.warn('⚠️ Pyth Hermes request failed:', error)
+      this.failures += 1
+    } finally {
+      this.inFlight = false
+    }
+  }
+
+  private async fetchLatest(assets: PriceFeedAsset[]): Promise<HermesLatestResponse> {
+    const ids = assets.map((asset) => `ids[]=${normalizeFeedId(asset.feedId)}`).join('&')
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), HERMES_TIMEOUT_MS)
+    try {
+      const res = await this.fetchImpl(
+        `${this.baseUrl}/v2/updates/price/latest?${ids}&parsed=true&ignore_invalid_price_ids=true`,
+        {
+          signal: controller.signal,
+        },
+      )
+      if (!res.ok) throw new Error(`Hermes responded ${res.status} ${res.statusText}`)
+      return await res.json()
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  collectFreshPrices,
+  HermesFetch,
+  HermesLatestResponse,
+  HermesParsedUpdate,
+  normalizeFeedId,
+  notifyPriceHandlers,
+  PriceFeed,
+  PriceFeedAsset,
+  PythPricesHandler,
+} from './pythHermesClient'
+
+/**
+ * Hermes update for a USD price, the inverse of normalizeHermesUpdate. For
+ * building replay frames by hand instead of recording them.
+ */
+export const buildHermesUpdate = (
+  feedId: string,
+  price: number,
+  conf: number,
+  publishTime: number, // unix seconds
+  expo: number = -8,
+): HermesParsedUpdate => {
+  const scale = 10 ** -expo
+  return {
+    id: normalizeFeedId(feedId),
+    price: {
+      price: String(Math.round(price * scale)),
+      conf: String(Math.round(conf * scale)),
+      expo,
+      publish_time: publishTime,
+    },
+  }
+}
+
+/**
+ * A fetch for PythHermesClient that answers each request with the next recorded
+ * frame, trimmed to the feeds the request asked for. Once the recording runs out
+ * it keeps serving the last frame, like a market that stopped moving.
+ */
+export const createReplayFetch = (frames: HermesLatestResponse[]): HermesFetch => {
+  let cursor = 0
+  return async (url) => {
+    const requested = new Set(
+      Array.from(url.matchAll(/[?&]ids\[\]=([0-9a-fA-F]+)/g), (match) => normalizeFeedId(match[1])),
+    )
+    const frame = frames[Math.min(cursor, frames.length - 1)] ?? {}
+    cursor += 1
+    const body: HermesLatestResponse = {
+      parsed: (frame.parsed ?? []).filter((update) => requested.has(normalizeFeedId(update.id))),
+    }
+    return { ok: true, status: 200, statusText: 'OK', json: async () => body }
+  }
+}
+
+/**
+ * Plays recorded Hermes responses back through the same normalization as
+ * PythHermesClient, for tests and offline runs. With `intervalMs: 0` nothing
+ * is timed and frames are stepped with `advance()`.
+ */
+export class ReplayPriceFeed implements PriceFeed {
+  private frames: HermesLatestResponse[]
+  private intervalMs: number
+  private loop: boolean
+  private assets: PriceFeedAsset[] = []
+  private handlers = new Set<PythPricesHandler>()
+  private lastPublished = new Map<string, number>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private cursor = 0
+
+  constructor(
+    frames: HermesLatestResponse[],
+    { intervalMs = 1000, loop = false }: { intervalMs?: number; loop?: boolean } = {},
+  ) {
+    this.frames = frames
+    this.intervalMs = intervalMs
+    this.loop = loop
+  }
+
+  start(assets: PriceFeedAsset[]) {
+    this.stop()
+    this.assets = assets
+    console.log(`🎞️ Replaying ${this.frames.length} recorded Pyth frames`)
+    if (this.intervalMs > 0) {
+      this.advance()
+      this.timer = setInterval(() => this.advance(), this.intervalMs)
+    }
+  }
+
+  stop() {
+    this.clearTimer()
+    this.cursor = 0
+    this.lastPublished.clear()
+  }
+
+  onPrices(handler: PythPricesHandler) {
+    this.handlers.add(handler)
+    return () => {
+      this.handlers.delete(handler)
+    }
+  }
+
+  // Emits the next frame; false once the recording has run out
+  advance(): boolean {
+    if (this.cursor >= this.frames.length) {
+      if (!this.loop || this.frames.length === 0) {
+        this.clearTimer()
+        return false
+      }
+      // Publish times repeat on a loop, so forget them or every replayed frame reads as stale
+      this.cursor = 0
+      this.lastPublished.clear()
+    }
+    const frame = this.frames[this.cursor]
+    this.cursor += 1
+    notifyPriceHandlers(this.handlers, collectFreshPrices(frame.parsed ?? [], this.assets, this.lastPublished))
+    return true
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { ApiService } from './apiService'
+import { getRaceDataSourceKind, RaceDataSourceKind } from './backendConfig'
+import {
+  AssetInfo,
+  BetDetails,
+  EnhancedRaceDetails,
+  GlobalStats,
+  RaceSentimentSnapshot,
+  RaceServiceResponse,
+  SentimentVoteRequest,
+  UserBetSummary,
+  UserBetsPage,
+  UserBetsPageQuery,
+  UserProfile,
+  UserStats,
+} from './backendTypes'
+import { MockRaceBackend } from './mockRaceBackend'
+import type { ConnectionQuality } from './realtimeBus'
+import type { LeaderboardEntry } from './realtimeProtocol'
+import {
+  ConnectionChangeHandler,
+  PriceUpdateHandler,
+  RaceEventHandler,
+  RaceUpdateHandler,
+  SentimentUpdateHandler,
+  UserBetUpdateHandler,
+  WebSocketService,
+} from './websocketService'
+
+export interface PlaceBetRequest {
+  playerAddress: string
+  raceId: number
+  assetIdx: number
+  amount: number
+}
+
+export interface ClaimPayoutRequest {
+  playerAddress: string
+  raceId: number
+}
+
+export interface CompleteRaceInfo {
+  race: EnhancedRaceDetails
+  userBet?: BetDetails
+  odds?: number[]
+}
+
+export interface UserBalance {
+  solBalance: number
+  usdcBalance: number
+  timestamp: number
+}
+
+// REST surface shared by the hosted backend and the local simulator
+export interface RaceApi {
+  getAssets(): Promise<RaceServiceResponse<AssetInfo[]>>
+  getCurrentRace(): Promise<RaceServiceResponse<EnhancedRaceDetails>>
+  getRace(raceId: number): Promise<RaceServiceResponse<EnhancedRaceDetails>>
+  getGlobalStats(): Promise<RaceServiceResponse<GlobalStats>>
+  getRaceLeaderboard(raceId: number): Promise<RaceServiceResponse<LeaderboardEntry[]>>
+  getUserBets(pubkey: string, forceRefresh?: boolean): Promise<RaceServiceResponse<UserBetSummary[]>>
+  // Cursor-paginated history; prefer this over getUserBets for anything beyond the current race
+  getUserBetsPage(pubkey: string, query?: UserBetsPageQuery): Promise<RaceServiceResponse<UserBetsPage>>
+  getUserStats(pubkey: string): Promise<RaceServiceResponse<UserStats>>
+  getUserBalance(pubkey: string): Promise<RaceServiceResponse<UserBalance>>
+  updateUserProfile(pubkey: string, profile: UserProfile): Promise<RaceServiceResponse<UserProfile>>
+  placeBet(request: PlaceBetRequest): Promise<RaceServiceResponse<BetDetails>>
+  claimPayout(request: ClaimPayoutRequest): Promise<RaceServiceResponse<{ claimed: boolean; amount?: number }>>
+  getBetDetails(raceId: number, playerAddress: string): Promise<RaceServiceResponse<BetDetails>>
+  getCompleteRaceInfo(raceId: number, playerAddress?: string): Promise<RaceServiceResponse<CompleteRaceInfo>>
+  // Crowd sentiment; pass the player to also get their own votes back
+  getRaceSentiment(raceId: number, playerAddress?: string): Promise<RaceServiceResponse<RaceSentimentSnapshot>>
+  castSentimentVote(request: SentimentVoteRequest): Promise<RaceServiceResponse<RaceSentimentSnapshot>>
+}
+
+// Realtime surface: validated `race_update`, `price_update`, `user_bet_update` and
+// `sentiment_update` payloads plus typed race events (see realtimeProtocol)
+export interface RaceRealtime {
+  connect(): Promise<void>
+  forceReconnect(): Promise<void>
+  disconnect(): void
+  // Race subscriptions are reference-counted: every subscribeToRace needs a matching unsubscribeFromRace
+  subscribeToRace(raceId: number): void
+  unsubscribeFromRace(raceId: number): void
+  subscribeToPrice(): void
+  // Any number of listeners; each call returns its disposer
+  onRaceUpdate(handler: RaceUpdateHandler): () => void
+  onPriceUpdate(handler: PriceUpdateHandler): () => void
+  onUserBetUpdate(handler: UserBetUpdateHandler): () => void
+  onRaceEvent(handler: RaceEventHandler): () => void
+  // Tallies for subscribed races, pushed whenever a vote lands
+  onSentimentUpdate(handler: SentimentUpdateHandler): () => void
+  // Replays the current state immediately; resumedAfterGap marks when a refetch is needed
+  onConnectionChange(handler: ConnectionChangeHandler): () => void
+  readonly connectionStatus: {
+    isConnecting: boolean
+    isConnected: boolean
+    socket: boolean
+    protocolVersion: number | null
+    quality: ConnectionQuality
+    reconnectAttempt: number
+  }
+}
+
+export interface RaceDataSource {
+  kind: RaceDataSourceKind
+  api: RaceApi
+  realtime: RaceRealtime
+}
+
+// The simulator keeps its own ledger with no program behind it, so in mock mode bets and claims go
+// through its API instead of a transaction. Failures throw like a rejected transaction would.
+export const placeSimulatedBet = async (api: RaceApi, request: PlaceBetRequest): Promise<BetDetails> => {
+  const response = await api.placeBet(request)
+  if (!response.success || !response.data) throw new Error(response.error ?? 'Bet was not accepted')
+  return response.data
+}
+
+export const claimSimulatedPayout = async (api: RaceApi, request: ClaimPayoutRequest): Promise<number> => {
+  const response = await api.claimPayout(request)
+  if (!response.success || !response.data?.claimed) throw new Error(response.error ?? 'Claim was not accepted')
+  return response.data.amount ?? 0
+}
+
+export const createRaceDataSource = (kind: RaceDataSourceKind = getRaceDataSourceKind()): RaceDataSource => {
+  if (kind === 'mock') {
+    console.log('🧪 Using in-process race simulator as data source')
+    const backend = new MockRaceBackend()
+    return { kind, api: backend.api, realtime: backend.realtime }
+  }
+  return { kind, api: new ApiService(), realtime: new WebSocketService() }
+}
@@ -0,0 +1,126 @@
+import {
+  PriceUpdatePayload,
+  RaceProtocolEvent,
+  RaceUpdatePayload,
+  SentimentUpdatePayload,
+  UserBetUpdatePayload,
+} from './realtimeProtocol'
+
+// live: socket up and payloads flowing; degraded: reconnecting or the stream went quiet;
+// polling: the socket has been down long enough that REST fetches are carrying the app
+export type ConnectionQuality = 'live' | 'degraded' | 'polling'
+
+export interface RealtimeConnectionState {
+  quality: ConnectionQuality
+  reconnectAttempt: number
+  // Set on the transition back to live when updates may have been missed meanwhile
+  resumedAfterGap: boolean
+}
+
+export interface RealtimeEventMap {
+  race_update: RaceUpdatePayload
+  price_update: PriceUpdatePayload
+  user_bet_update: UserBetUpdatePayload
+  race_event: RaceProtocolEvent
+  sentiment_update: SentimentUpdatePayload
+  connection: RealtimeConnectionState
+}
+
+export type RealtimeEventName = keyof RealtimeEventMap
+export type RealtimeListener<E extends RealtimeEventName> = (data: RealtimeEventMap[E]) => void
+
+// Snapshots are worth replaying to late subscribers; race_event is a one-off notification
+const REPLAYED_EVENTS: RealtimeEventName[] = [
+  'race_update',
+  'price_update',
+  'user_bet_update',
+  'sentiment_update',
+  'connection',
+]
+
+/**
+ * Fan-out for realtime payloads. Any number of listeners per event, each
+ * subscription returns its own disposer, and late subscribers immediately
+ * receive the last value seen for snapshot events.
+ */
+export class RealtimeEventBus {
+  private listeners: { [E in RealtimeEventName]: Set<RealtimeListener<E>> } = {
+    race_update: new Set(),
+    price_update: new Set(),
+    user_bet_update: new Set(),
+    race_event: new Set(),
+    sentiment_update: new Set(),
+    connection: new Set(),
+  }
+  private lastValues: { [E in RealtimeEventName]?: RealtimeEventMap[E] } = {}
+
+  on<E extends RealtimeEventName>(event: E, listener: RealtimeListener<E>): () => void {
+    const listeners = this.listeners[event] as Set<RealtimeListener<E>>
+    listeners.add(listener)
+    const last = this.lastValues[event]
+    if (last !== undefined && REPLAYED_EVENTS.includes(event)) {
+      listener(last as RealtimeEventMap[E])
+    }
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  emit<E extends RealtimeEventName>(event: E, data: RealtimeEventMap[E]) {
+    this.lastValues[event] = data
+    // Copy so a listener disposing itself mid-dispatch doesn't skip its neighbour
+    Array.from(this.listeners[event] as Set<RealtimeListener<E>>).forEach((listener) => {
+      try {
+        listener(data)
+      } catch (error) {
+        console.error(`❌ ${event} listener threw:`, error)
+      }
+    })
+  }
+
+  getLastValue<E extends RealtimeEventName>(event: E): RealtimeEventMap[E] | undefined {
+    return this.lastValues[event] as RealtimeEventMap[E] | undefined
+  }
+
+  listenerCount(event: RealtimeEventName): number {
+    return this.listeners[event].size
+  }
+}
+
+/**
+ * Reference counts for server-side subscriptions so one screen leaving a race
+ * doesn't cut the feed another screen still relies on
+ */
+export class SubscriptionCounter<K> {
+  private counts = new Map<K, number>()
+
+  // true when this is the first holder and the subscription should be opened
+  acquire(key: K): boolean {
+    const count = this.counts.get(key) ?? 0
+    this.counts.set(key, count + 1)
+    return count === 0
+  }
+
+  // true when the last holder let go and the subscription should be closed
+  release(key: K): boolean {
+    const count = this.counts.get(key) ?? 0
+    if (count <= 1) {
+      this.counts.delete(key)
+      return count === 1
+    }
+    this.counts.set(key, count - 1)
+    return false
+  }
+
+  has(key: K): boolean {
+    return this.counts.has(key)
+  }
+
+  keys(): K[] {
+    return Array.from(this.counts.keys())
+  }
+
+  clear() {
+    this.counts.clear()
+  }
+}
@@ -0,0 +1,400 @@
+import { PublicKey } from '@solana/web3.js'
+
+import { BetDetails, EnhancedRaceDetails, RaceSentiment, RaceState } from './backendTypes'
+import { AssetLeaderChangedEvent, BetPlacedEvent, RaceSettledEvent, RaceStateChangedEvent } from './types'
+
+// Bump when a payload shape changes incompatibly; the server answers `hello` with the version it speaks
+export const PROTOCOL_VERSION = 1
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1]
+
+export type RealtimeMessageName =
+  | 'welcome'
+  | 'race_update'
+  | 'price_update'
+  | 'user_bet_update'
+  | 'race_event'
+  | 'sentiment_update'
+
+// ---------------------------------------------------------------------------
+// Payloads
+// ---------------------------------------------------------------------------
+
+export interface PriceTick {
+  price: number
+  confidence: number
+  timestamp: number
+  expo: number
+}
+
+export type PriceUpdatePayload = Record<string, PriceTick>
+
+export interface LivePriceUpdate extends PriceTick {
+  symbol: string
+}
+
+export interface LeaderboardEntry {
+  index: number
+  symbol: string
+  startPrice?: number
+  currentPrice: number | null
+  performance: number
+}
+
+export interface RaceUpdatePayload {
+  race: EnhancedRaceDetails
+  leaderboard?: LeaderboardEntry[]
+}
+
+export interface UserBetUpdatePayload {
+  bet: BetDetails
+}
+
+export type SentimentUpdatePayload = RaceSentiment
+
+export interface HelloMessage {
+  protocolVersion: number
+  supportedVersions: readonly number[]
+}
+
+export interface WelcomeMessage {
+  protocolVersion: number
+  // Typed race events the server emits on `race_event`; anything missing is derived client-side
+  events: RaceEventType[]
+}
+
+export type RaceEventType = 'race_state_changed' | 'asset_leader_changed' | 'bet_placed' | 'race_settled'
+
+export type RaceProtocolEvent =
+  | { type: 'race_state_changed'; event: RaceStateChangedEvent }
+  | { type: 'asset_leader_changed'; event: AssetLeaderChangedEvent }
+  | { type: 'bet_placed'; event: BetPlacedEvent }
+  | { type: 'race_settled'; event: RaceSettledEvent }
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; reason: string }
+
+// ---------------------------------------------------------------------------
+// Reject accounting
+// ---------------------------------------------------------------------------
+
+const rejectedCounts: Record<RealtimeMessageName, number> = {
+  welcome: 0,
+  race_update: 0,
+  price_update: 0,
+  user_bet_update: 0,
+  race_event: 0,
+  sentiment_update: 0,
+}
+
+export const recordRejectedMessage = (name: RealtimeMessageName, reason: string) => {
+  rejectedCounts[name] += 1
+  console.warn(`⚠️ Dropped malformed ${name} (${reason}), ${rejectedCounts[name]} rejected so far`)
+}
+
+export const getRejectedMessageCounts = (): Readonly<Record<RealtimeMessageName, number>> => ({ ...rejectedCounts })
+
+export const resetRejectedMessageCounts = () => {
+  ;(Object.keys(rejectedCounts) as RealtimeMessageName[]).forEach((name) => {
+    rejectedCounts[name] = 0
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Validators
+// ---------------------------------------------------------------------------
+
+const RACE_STATES = Object.values(RaceState) as string[]
+const RACE_EVENT_TYPES: RaceEventType[] = ['race_state_changed', 'asset_leader_changed', 'bet_placed', 'race_settled']
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const isRaceState = (value: unknown): value is RaceState => RACE_STATES.includes(value as string)
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0
+
+const isNumberArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(isFiniteNumber)
+
+const isNullableNumber = (value: unknown): value is number | null => value === null || isFiniteNumber(value)
+
+const toPublicKey = (value: unknown): PublicKey | null => {
+  if (typeof value !== 'string') return null
+  try {
+    return new PublicKey(value)
+  } catch {
+    return null
+  }
+}
+
+const fail = (reason: string): { ok: false; reason: string } => ({ ok: false, reason })
+
+export const buildHelloMessage = (): HelloMessage => ({
+  protocolVersion: PROTOCOL_VERSION,
+  supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+})
+
+export const validateWelcome = (data: unknown): ValidationResult<WelcomeMessage> => {
+  if (!isObject(data)) return fail('expected an object')
+  if (!isIndex(data.protocolVersion)) return fail('missing protocolVersion')
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(data.protocolVersion)) {
+    return fail(`unsupported protocol version ${data.protocolVersion}`)
+  }
+  const events = Array.isArray(data.events)
+    ? data.events.filter((type: unknown): type is RaceEventType => RACE_EVENT_TYPES.includes(type as RaceEventType))
+    : []
+  return { ok: true, value: { protocolVersion: data.protocolVersion, events } }
+}
+
+export const validatePriceUpdate = (data: unknown): ValidationResult<PriceUpdatePayload> => {
+  if (!isObject(data)) return fail('expected an object keyed by symbol')
+  const prices: PriceUpdatePayload = {}
+  for (const [symbol, tick] of Object.entries(data)) {
+    if (!isObject(tick)) return fail(`${symbol}: expected an object`)
+    if (!isFiniteNumber(tick.price)) return fail(`${symbol}: price is not a number`)
+    if (!isFiniteNumber(tick.timestamp)) return fail(`${symbol}: timestamp is not a number`)
+    const { expo = 0, confidence = 0 } = tick
+    if (!Number.isInteger(expo)) return fail(`${symbol}: expo is not an integer`)
+    if (!isFiniteNumber(confidence)) return fail(`${symbol}: confidence is not a number`)
+    prices[symbol] = {
+      price: tick.price,
+      // Older backends omit confidence; treat as a fully trusted print like the store always has
+      confidence: confidence || 100,
+      timestamp: tick.timestamp,
+      expo: expo as number,
+    }
+  }
+  return { ok: true, value: prices }
+}
+
+const validateRace = (race: unknown): ValidationResult<EnhancedRaceDetails> => {
+  if (!isObject(race)) return fail('race: expected an object')
+  if (!isIndex(race.raceId)) return fail('race.raceId is not an integer')
+  if (!isRaceState(race.state)) return fail(`race.state "${race.state}" is unknown`)
+  for (const field of ['startTs', 'lockTs', 'settleTs', 'totalPool'] as const) {
+    if (!isFiniteNumber(race[field])) return fail(`race.${field} is not a number`)
+  }
+  if (!isNumberArray(race.assetPools)) return fail('race.assetPools is not a number array')
+  if (!isNumberArray(race.winningAssets)) return fail('race.winningAssets is not a number array')
+  if (!Array.isArray(race.assets)) return fail('race.assets is not an array')
+  for (const asset of race.assets) {
+    if (!isObject(asset) || !isIndex(asset.index) || typeof asset.symbol !== 'string') {
+      return fail('race.assets has an entry without index/symbol')
+    }
+  }
+  return { ok: true, value: race as unknown as EnhancedRaceDetails }
+}
+
+const validateLeaderboard = (leaderboard: unknown): ValidationResult<LeaderboardEntry[]> => {
+  if (!Array.isArray(leaderboard)) return fail('leaderboard is not an array')
+  for (const entry of leaderboard) {
+    if (!isObject(entry) || !isIndex(entry.index) || typeof entry.symbol !== 'string') {
+      return fail('leaderboard has an entry without index/symbol')
+    }
+    if (!isFiniteNumber(entry.performance)) return fail(`leaderboard ${entry.symbol}: performance is not a number`)
+    if (!isNullableNumber(entry.currentPrice ?? null)) return fail(`leaderboard ${entry.symbol}: bad currentPrice`)
+  }
+  return { ok: true, value: leaderboard as LeaderboardEntry[] }
+}
+
+export const validateRaceUpdate = (data: unknown): ValidationResult<RaceUpdatePayload> => {
+  if (!isObject(data)) return fail('expected an object')
+  const race = validateRace(data.race)
+  if (!race.ok) return race
+  if (data.leaderboard === undefined) return { ok: true, value: { race: race.value } }
+  const leaderboard = validateLeaderboard(data.leaderboard)
+  if (!leaderboard.ok) return leaderboard
+  return { ok: true, value: { race: race.value, leaderboard: leaderboard.value } }
+}
+
+export const validateUserBetUpdate = (data: unknown): ValidationResult<UserBetUpdatePayload> => {
+  if (!isObject(data) || !isObject(data.bet)) return fail('missing bet')
+  const { bet } = data
+  if (!isIndex(bet.raceId)) return fail('bet.raceId is not an integer')
+  if (typeof bet.player !== 'string' || !toPublicKey(bet.player)) return fail('bet.player is not a public key')
+  if (!isIndex(bet.assetIdx)) return fail('bet.assetIdx is not an integer')
+  if (!isFiniteNumber(bet.amount) || bet.amount < 0) return fail('bet.amount is not a positive number')
+  if (typeof bet.claimed !== 'boolean' || typeof bet.isWinner !== 'boolean') return fail('bet flags are not booleans')
+  const potentialPayout = bet.potentialPayout ?? null
+  if (!isNullableNumber(potentialPayout)) return fail('bet.potentialPayout is not a number')
+  return {
+    ok: true,
+    value: {
+      bet: {
+        raceId: bet.raceId,
+        player: bet.player,
+        assetIdx: bet.assetIdx,
+        amount: bet.amount,
+        claimed: bet.claimed,
+        isWinner: bet.isWinner,
+        potentialPayout,
+      },
+    },
+  }
+}
+
+export const validateSentimentUpdate = (data: unknown): ValidationResult<SentimentUpdatePayload> => {
+  if (!isObject(data)) return fail('expected an object')
+  if (!isIndex(data.raceId)) return fail('raceId is not an integer')
+  if (!Array.isArray(data.tallies)) return fail('tallies is not an array')
+  const tallies = []
+  for (const tally of data.tallies) {
+    if (!isObject(tally) || !isIndex(tally.assetIdx)) return fail('tallies has an entry without assetIdx')
+    if (!isIndex(tally.upvotes) || !isIndex(tally.downvotes))
+      return fail(`tally ${tally.assetIdx}: counts are not integers`)
+    tallies.push({ assetIdx: tally.assetIdx, upvotes: tally.upvotes, downvotes: tally.downvotes })
+  }
+  return {
+    ok: true,
+    value: { raceId: data.raceId, tallies, updatedAt: isFiniteNumber(data.updatedAt) ? data.updatedAt : Date.now() },
+  }
+}
+
+/**
+ * `race_event` envelopes: `{ type, data }` where keys are base58 strings on the
+ * wire and become PublicKeys here, matching the on-chain event interfaces
+ */
+export const validateRaceEvent = (envelope: unknown): ValidationResult<RaceProtocolEvent> => {
+  if (!isObject(envelope) || !isObject(envelope.data)) return fail('expected { type, data }')
+  const { type, data } = envelope
+  if (!isIndex(data.raceId)) return fail(`${type}: raceId is not an integer`)
+
+  switch (type) {
+    case 'race_state_changed': {
+      if (!isRaceState(data.oldState) || !isRaceState(data.newState)) {
+        return fail('race_state_changed: unknown state')
+      }
+      if (!isFiniteNumber(data.timestamp)) return fail('race_state_changed: timestamp is not a number')
+      return {
+        ok: true,
+        value: {
+          type,
+          event: { raceId: data.raceId, oldState: data.oldState, newState: data.newState, timestamp: data.timestamp },
+        },
+      }
+    }
+    case 'asset_leader_changed': {
+      if (data.oldLeader !== null && !isIndex(data.oldLeader)) return fail('asset_leader_changed: bad oldLeader')
+      if (!isIndex(data.newLeader)) return fail('asset_leader_changed: bad newLeader')
+      if (!isFiniteNumber(data.timestamp)) return fail('asset_leader_changed: timestamp is not a number')
+      return {
+        ok: true,
+        value: {
+          type,
+          event: {
+            raceId: data.raceId,
+            oldLeader: data.oldLeader,
+            newLeader: data.newLeader,
+            timestamp: data.timestamp,
+          },
+        },
+      }
+    }
+    case 'bet_placed': {
+      const player = toPublicKey(data.player)
+      if (!player) return fail('bet_placed: player is not a public key')
+      if (!isIndex(data.assetIdx)) return fail('bet_placed: assetIdx is not an integer')
+      // Checked field by field, so the loop can't narrow them; the casts below rely on it
+      for (const field of ['amount', 'totalAmount', 'assetPoolAfter', 'totalPoolAfter'] as const) {
+        if (!isFiniteNumber(data[field])) return fail(`bet_placed: ${field} is not a number`)
+      }
+      return {
+        ok: true,
+        value: {
+          type,
+          event: {
+            raceId: data.raceId,
+            player,
+            assetIdx: data.assetIdx,
+            amount: data.amount as number,
+            totalAmount: data.totalAmount as number,
+            assetPoolAfter: data.assetPoolAfter as number,
+            totalPoolAfter: data.totalPoolAfter as number,
+          },
+        },
+      }
+    }
+    case 'race_settled': {
+      const authority = toPublicKey(data.authority)
+      if (!authority) return fail('race_settled: authority is not a public key')
+      // The casts below rely on these loops
+      for (const field of ['totalPool', 'winningPool', 'netPool'] as const) {
+        if (!isFiniteNumber(data[field])) return fail(`race_settled: ${field} is not a number`)
+      }
+      for (const field of ['winningAssets', 'startPrices', 'endPrices', 'percentageChanges'] as const) {
+        if (!isNumberArray(data[field])) return fail(`race_settled: ${field} is not a number array`)
+      }
+      return {
+        ok: true,
+        value: {
+          type,
+          event: {
+            raceId: data.raceId,
+            winningAssets: data.winningAssets as number[],
+            totalPool: data.totalPool as number,
+            winningPool: data.winningPool as number,
+            netPool: data.netPool as number,
+            authority,
+            startPrices: data.startPrices as number[],
+            endPrices: data.endPrices as number[],
+            percentageChanges: data.percentageChanges as number[],
+          },
+        },
+      }
+    }
+    default:
+      return fail(`unknown event type "${type}"`)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Client-side derivation for servers that don't emit race_event
+// ---------------------------------------------------------------------------
+
+const leaderOf = (update: RaceUpdatePayload): number | null => {
+  if (update.leaderboard && update.leaderboard.length > 0) {
+    return update.leaderboard.reduce((best, entry) => (entry.performance > best.performance ? entry : best)).index
+  }
+  let leader: number | null = null
+  let best = -Infinity
+  update.race.currentChanges?.forEach((change, index) => {
+    if (change !== null && change > best) {
+      best = change
+      leader = index
+    }
+  })
+  return leader
+}
+
+/**
+ * State and leader changes between two consecutive race_update payloads for the
+ * same race. Bets and settlement need data only the server has (player,
+ * authority), so those arrive exclusively via race_event.
+ */
+export const deriveRaceEvents = (
+  previous: RaceUpdatePayload | undefined,
+  next: RaceUpdatePayload,
+  skip: readonly RaceEventType[] = [],
+): RaceProtocolEvent[] => {
+  if (!previous || previous.race.raceId !== next.race.raceId) return []
+  const events: RaceProtocolEvent[] = []
+  const timestamp = Math.floor(Date.now() / 1000)
+  const { raceId } = next.race
+
+  if (!skip.includes('race_state_changed') && previous.race.state !== next.race.state) {
+    events.push({
+      type: 'race_state_changed',
+      event: { raceId, oldState: previous.race.state, newState: next.race.state, timestamp },
+    })
+  }
+
+  if (!skip.includes('asset_leader_changed') && next.race.state === RaceState.Running) {
+    const oldLeader = leaderOf(previous)
+    const newLeader = leaderOf(next)
+    if (newLeader !== null && newLeader !== oldLeader) {
+      events.push({ type: 'asset_leader_changed', event: { raceId, oldLeader, newLeader, timestamp } })
+    }
+  }
+
+  return events
+}
@@ -0,0 +1,85 @@
+import { AssetSentiment, RaceSentiment, SentimentVote } from './backendTypes'
+
+const ED25519_SIGNATURE_LENGTH = 64
+// Votes signed longer ago than this are rejected, so a captured signature can't be replayed later
+export const SENTIMENT_VOTE_MAX_AGE_MS = 5 * 60 * 1000
+
+export interface SentimentVoteIntent {
+  playerAddress: string
+  raceId: number
+  assetIdx: number
+  vote: SentimentVote | null
+  timestamp: number
+}
+
+/**
+ * Human-readable text the wallet signs for a vote. The backend rebuilds it
+ * from the request fields to verify the signature, so the layout is part of the API.
+ */
+export const buildSentimentVoteMessage = ({
+  playerAddress,
+  raceId,
+  assetIdx,
+  vote,
+  timestamp,
+}: SentimentVoteIntent): string =>
+  [
+    'Momentum Madness crowd sentiment',
+    `Race: ${raceId}`,
+    `Asset: ${assetIdx}`,
+    `Vote: ${vote ?? 'none'}`,
+    `Wallet: ${playerAddress}`,
+    `Timestamp: ${timestamp}`,
+  ].join('\n')
+
+/**
+ * Mobile wallets return either the bare signature or the message with the
+ * signature appended; either way the signature is the trailing 64 bytes.
+ */
+export const encodeMessageSignature = (signed: Uint8Array): string => {
+  if (signed.length < ED25519_SIGNATURE_LENGTH) {
+    throw new Error('Wallet returned a malformed message signature')
+  }
+  return Buffer.from(signed.subarray(signed.length - ED25519_SIGNATURE_LENGTH)).toString('base64')
+}
+
+export const isEncodedSignature = (signature: string): boolean => {
+  try {
+    return Buffer.from(signature, 'base64').length === ED25519_SIGNATURE_LENGTH
+  } catch {
+    return false
+  }
+}
+
+export const emptySentiment = (raceId: number, assetCount: number): RaceSentiment => ({
+  raceId,
+  tallies: Array.from({ length: assetCount }, (_, assetIdx) => ({ assetIdx, upvotes: 0, downvotes: 0 })),
+  updatedAt: 0,
+})
+
+/**
+ * Moves one wallet's vote on an asset from `previous` to `next`, for
+ * optimistic updates that the next `sentiment_update` then confirms
+ */
+export const applySentimentVote = (
+  sentiment: RaceSentiment,
+  assetIdx: number,
+  previous: SentimentVote | null,
+  next: SentimentVote | null,
+): RaceSentiment => {
+  const tallies = sentiment.tallies.some((tally) => tally.assetIdx === assetIdx)
+    ? sentiment.tallies
+    : [...sentiment.tallies, { assetIdx, upvotes: 0, downvotes: 0 }]
+  return {
+    ...sentiment,
+    tallies: tallies.map((tally): AssetSentiment => {
+      if (tally.assetIdx !== assetIdx) return tally
+      const updated = { ...tally }
+      if (previous === 'up') updated.upvotes = Math.max(0, updated.upvotes - 1)
+      if (previous === 'down') updated.downvotes = Math.max(0, updated.downvotes - 1)
+      if (next === 'up') updated.upvotes += 1
+      if (next === 'down') updated.downvotes += 1
+      return updated
+    }),
+  }
+}
@@ -0,0 +1,144 @@
+import { IdlErrorName } from './idl'
+import { ProgramError } from './programClient'
+import { getErrorMessage, TransactionKind, TransactionLifecycleError } from './transactionLifecycle'
+
+export interface TransactionErrorMessage {
+  title: string
+  message: string
+  // User backed out in the wallet; nothing worth notifying about
+  silent?: boolean
+}
+
+// One entry per error in the committed IDL (codes 6000 up), keyed by name; the tests keep the two in step
+export const PROGRAM_ERROR_MESSAGES: Record<IdlErrorName, TransactionErrorMessage> = {
+  ProtocolPaused: {
+    title: '⏸️ Racing Paused',
+    message: 'The protocol is temporarily paused.\nNo funds were moved. Try again shortly.',
+  },
+  BettingClosed: {
+    title: '🏁 Too Late!',
+    message: 'Betting period just ended.\nCatch the next race starting soon!',
+  },
+  InvalidAmount: {
+    title: '💰 Invalid Amount',
+    message: 'Bet must be between $0.10 - $1000.\nAdjust your amount and try again!',
+  },
+  AssetMismatch: {
+    title: '🎯 Already Betting',
+    message: 'You already have a bet on a different asset.\nYou can only add to your existing pick.',
+  },
+  InvalidAssetIndex: {
+    title: '🔍 Unknown Asset',
+    message: "That asset isn't part of this race.\nRefresh and pick again.",
+  },
+  AlreadySettled: {
+    title: '🏆 Race Over',
+    message: 'This race has finished.\nJoin the next exciting race!',
+  },
+  RaceNotSettled: {
+    title: '⏳ Race In Progress',
+    message: "The race hasn't settled yet.\nPlease wait for the race to complete.",
+  },
+  RaceNotFound: {
+    title: '🔍 Race Missing',
+    message: "This race doesn't exist.\nRefresh and find an active race!",
+  },
+  NotAWinner: {
+    title: '🎯 Not Eligible',
+    message: 'Only winners can claim payouts.\nBetter luck in the next race!',
+  },
+  AlreadyClaimed: {
+    title: '✅ Already Claimed',
+    message: 'This payout has already been claimed.\nCheck your wallet for the funds.',
+  },
+  NoWinners: {
+    title: '🤷 No Winners',
+    message: 'Nobody backed the winning asset in this race.',
+  },
+  InsufficientFunds: {
+    title: '🏦 Vault Short',
+    message: "The vault can't cover this payout right now.\nPlease try again later.",
+  },
+  ExcessiveClaims: {
+    title: '⚠️ Claim Rejected',
+    message: 'Claims exceed the available pool.\nPlease contact support.',
+  },
+  MathOverflow: {
+    title: '⚠️ Calculation Error',
+    message: "The program couldn't compute this amount.\nTry a smaller bet.",
+  },
+  Unauthorized: {
+    title: '🔐 Not Authorized',
+    message: "This wallet can't perform that action.",
+  },
+}
+
+// EIP-1193 style rejection code some wallets use when the user declines
+const isWalletRejection = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 4001
+
+// Errors the app has no copy for yet still read with the program's own message from the IDL
+export function describeProgramError(programError: ProgramError): TransactionErrorMessage {
+  return PROGRAM_ERROR_MESSAGES[programError.name] ?? { title: '⚠️ Transaction Rejected', message: programError.msg }
+}
+
+/**
+ * Human-readable title/message for anything thrown while building, simulating,
+ * signing or confirming a bet or claim
+ */
+export function describeTransactionError(error: unknown, kind: TransactionKind): TransactionErrorMessage {
+  const isBet = kind === 'place_bet'
+  const fallback: TransactionErrorMessage = isBet
+    ? { title: '⚠️ Bet Failed', message: 'Failed to place bet' }
+    : { title: '⚠️ Claim Failed', message: 'Failed to claim payout' }
+
+  if (error instanceof TransactionLifecycleError && error.programError) {
+    return describeProgramError(error.programError)
+  }
+
+  const message = getErrorMessage(error)
+  const logs = error instanceof TransactionLifecycleError ? (error.logs ?? []) : []
+
+  if (/user rejected|user canceled|cancelled/i.test(message) || isWalletRejection(error)) {
+    return { ...fallback, message: 'Transaction cancelled by user', silent: true }
+  }
+  if (message.includes('auth_token not valid')) {
+    return { title: '🔐 Session Expired', message: 'Your wallet session expired.\nReconnect and try again!' }
+  }
+  // The token program reports a short USDC balance as a plain log line, not an Anchor error
+  if (logs.some((line) => line.includes('insufficient funds'))) {
+    return {
+      title: '💸 Insufficient Balance',
+      message: 'Not enough USDC in your wallet.\nAdd funds and come back to race!',
+    }
+  }
+  if (message.includes('insufficient funds') || message.includes('InsufficientFundsForFee')) {
+    return {
+      title: '💸 Insufficient SOL',
+      message: 'Not enough SOL for transaction fees.\nAdd some SOL to your wallet and try again.',
+    }
+  }
+  if (message.includes('Wallet operation timed out')) {
+    return {
+      title: '📱 Complete in Phantom',
+      message: 'Finish the action in your Phantom wallet,\nthen return to this app.',
+    }
+  }
+  if (message.includes('expired before confirmation')) {
+    return {
+      title: '⏰ Taking Too Long',
+      message: `The network didn't confirm in time.\nIf you signed in Phantom, your ${isBet ? 'bet' : 'claim'} may still go through.`,
+    }
+  }
+  if (message.includes('blockhash not found')) {
+    return { title: '⚡ Network Congestion', message: 'The network is busy.\nPlease try again.' }
+  }
+  if (error instanceof TransactionLifecycleError && error.simulated) {
+    return { ...fallback, message: "The transaction would fail, so it wasn't sent.\nNo funds were moved." }
+  }
+  if (message.includes('Transaction failed')) {
+    return { ...fallback, message: 'Transaction failed. Please try again.' }
+  }
+
+  return message ? { ...fallback, message } : fallback
+}
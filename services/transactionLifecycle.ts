@@ -0,0 +1,413 @@
+import { Connection, SignatureStatus, TransactionSignature, VersionedTransaction } from '@solana/web3.js'
+
+import { decodeProgramError, ProgramError } from './programClient'
+
+export type TransactionStatus = 'built' | 'signed' | 'sent' | 'confirmed' | 'finalized' | 'expired' | 'failed'
+
+export type TransactionKind = 'place_bet' | 'claim_payout'
+
+export interface TransactionStatusEvent {
+  id: string
+  kind: TransactionKind
+  key: string
+  status: TransactionStatus
+  attempt: number
+  signature?: TransactionSignature
+  error?: string
+  timestamp: number
+}
+
+export interface BuiltTransaction {
+  transaction: VersionedTransaction
+  latestBlockhash: { blockhash: string; lastValidBlockHeight: number }
+  minContextSlot: number
+}
+
+export interface TransactionRequest {
+  kind: TransactionKind
+  // Identifies the logical action (e.g. race + player); concurrent submits with the same key share one pipeline
+  key: string
+  build: () => Promise<BuiltTransaction>
+  // Preferred: the wallet only signs, so we control sending and can rebroadcast the raw bytes
+  sign?: (transaction: VersionedTransaction) => Promise<VersionedTransaction>
+  // Fallback for wallets that insist on submitting themselves
+  signAndSend?: (transaction: VersionedTransaction, minContextSlot?: number) => Promise<TransactionSignature>
+  // Idempotency check: true when the action's effect is already visible on-chain
+  isLanded: () => Promise<boolean>
+  maxAttempts?: number
+  // Simulate before asking the wallet to sign (default true)
+  preflight?: boolean
+}
+
+export interface TransactionResult {
+  id: string
+  signature: TransactionSignature | null
+  status: 'confirmed'
+  // True when the effect was found on-chain without our signature confirming (earlier attempt or duplicate submit)
+  alreadyLanded: boolean
+}
+
+export class TransactionLifecycleError extends Error {
+  status: TransactionStatus
+  signature?: TransactionSignature
+  programError?: ProgramError
+  logs?: string[]
+  // True when preflight simulation rejected the transaction, so the wallet was never asked to sign
+  simulated: boolean
+
+  constructor(
+    message: string,
+    status: TransactionStatus,
+    signature?: TransactionSignature,
+    details: { programError?: ProgramError; logs?: string[]; simulated?: boolean } = {},
+  ) {
+    super(message)
+    this.name = 'TransactionLifecycleError'
+    this.status = status
+    this.signature = signature
+    this.programError = details.programError
+    this.logs = details.logs
+    this.simulated = details.simulated ?? false
+  }
+}
+
+type TransactionListener = (event: TransactionStatusEvent) => void
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const REBROADCAST_INTERVAL_MS = 2_000
+const FINALIZE_TIMEOUT_MS = 60_000
+// How long confirmation polling rides out RPC errors before giving up on the signature
+const RPC_OUTAGE_TIMEOUT_MS = 120_000
+const MAX_HISTORY = 20
+
+const listeners = new Set<TransactionListener>()
+const latestById = new Map<string, TransactionStatusEvent>()
+const inFlight = new Map<string, Promise<TransactionResult>>()
+let nextId = 0
+
+// Wallet adapters sometimes reject with plain `{ message, code }` objects rather than Errors
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message
+  }
+  return ''
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const emit = (event: Omit<TransactionStatusEvent, 'timestamp'>) => {
+  const full: TransactionStatusEvent = { ...event, timestamp: Date.now() }
+  latestById.delete(full.id)
+  latestById.set(full.id, full)
+  if (latestById.size > MAX_HISTORY) {
+    latestById.delete(latestById.keys().next().value as string)
+  }
+  listeners.forEach((listener) => {
+    try {
+      listener(full)
+    } catch (error) {
+      console.warn('⚠️ Transaction listener threw:', error)
+    }
+  })
+}
+
+export const subscribeToTransactions = (listener: TransactionListener): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Most recent status event for the given kind, if any transaction of that kind has run
+export const getLatestTransaction = (kind: TransactionKind): TransactionStatusEvent | undefined => {
+  let latest: TransactionStatusEvent | undefined
+  latestById.forEach((event) => {
+    if (event.kind === kind && (!latest || event.timestamp >= latest.timestamp)) latest = event
+  })
+  return latest
+}
+
+export const isTerminalStatus = (status: TransactionStatus): boolean =>
+  status === 'confirmed' || status === 'finalized' || status === 'failed'
+
+/**
+ * Runs the unsigned transaction through the RPC simulator so a doomed transaction
+ * never reaches the wallet prompt
+ */
+async function preflight(connection: Connection, transaction: VersionedTransaction): Promise<void> {
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    commitment: 'processed',
+  })
+  if (!value.err) return
+
+  const logs = value.logs ?? []
+  const programError = decodeProgramError(value.err, logs)
+  console.warn(`🧪 Simulation rejected transaction: ${programError?.name ?? JSON.stringify(value.err)}`, logs)
+  throw new TransactionLifecycleError(
+    `Simulation failed: ${programError?.name ?? JSON.stringify(value.err)}`,
+    'failed',
+    undefined,
+    { programError, logs, simulated: true },
+  )
+}
+
+/**
+ * Tracks a submitted signature until it lands, errors, or its blockhash expires.
+ * Raw bytes (when we have them) are rebroadcast on every poll since RPC nodes drop
+ * transactions under load. RPC errors while polling say nothing about the
+ * transaction, so they are retried; only the transaction's own error fails it.
+ */
+async function awaitConfirmation(
+  connection: Connection,
+  signature: TransactionSignature,
+  lastValidBlockHeight: number,
+  rawTransaction?: Uint8Array,
+): Promise<'confirmed' | 'expired'> {
+  let failingSince: number | null = null
+  for (;;) {
+    let status: SignatureStatus | null
+    let blockHeight: number
+    try {
+      const { value } = await connection.getSignatureStatuses([signature])
+      status = value[0]
+      blockHeight = await connection.getBlockHeight('confirmed')
+      failingSince = null
+    } catch (error) {
+      // A timeout or rate limit; the transaction may still land, so keep polling until expiry can be seen
+      if (failingSince === null) {
+        failingSince = Date.now()
+        console.warn('⚠️ Confirmation poll failed, retrying:', getErrorMessage(error) || error)
+      } else if (Date.now() - failingSince > RPC_OUTAGE_TIMEOUT_MS) {
+        throw new TransactionLifecycleError(
+          'Transaction expired before confirmation: RPC unreachable',
+          'expired',
+          signature,
+        )
+      }
+      await sleep(REBROADCAST_INTERVAL_MS)
+      continue
+    }
+
+    if (status?.err) {
+      const programError = decodeProgramError(status.err)
+      throw new TransactionLifecycleError(
+        `Transaction failed: ${programError?.name ?? JSON.stringify(status.err)}`,
+        'failed',
+        signature,
+        { programError },
+      )
+    }
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      return 'confirmed'
+    }
+    if (blockHeight > lastValidBlockHeight) {
+      return 'expired'
+    }
+
+    if (rawTransaction) {
+      connection
+        .sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+        .catch((error) => console.warn('⚠️ Rebroadcast failed:', error?.message ?? error))
+    }
+    await sleep(REBROADCAST_INTERVAL_MS)
+  }
+}
+
+// Keeps watching a confirmed signature in the background so subscribers see `finalized`
+async function watchFinality(
+  connection: Connection,
+  base: Omit<TransactionStatusEvent, 'timestamp' | 'status'>,
+  signature: TransactionSignature,
+) {
+  const deadline = Date.now() + FINALIZE_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    await sleep(REBROADCAST_INTERVAL_MS * 2)
+    try {
+      const { value } = await connection.getSignatureStatuses([signature])
+      if (value[0]?.confirmationStatus === 'finalized') {
+        emit({ ...base, status: 'finalized', signature })
+        return
+      }
+    } catch (error) {
+      console.warn('⚠️ Finality check failed:', error)
+    }
+  }
+}
+
+async function runPipeline(
+  connection: Connection,
+  request: TransactionRequest,
+  id: string,
+): Promise<TransactionResult> {
+  const { kind, key, build, sign, signAndSend } = request
+  // A failed lookup just means we can't prove it landed yet
+  const isLanded = () =>
+    request.isLanded().catch((error) => {
+      console.warn(`⚠️ ${kind} landing check failed:`, error)
+      return false
+    })
+  const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  let signature: TransactionSignature | undefined
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const base = { id, kind, key, attempt }
+
+    // A previous attempt may have landed after its blockhash looked expired to us
+    if (attempt > 1 && (await isLanded())) {
+      console.log(`✅ ${kind} already landed on-chain, skipping re-sign`)
+      emit({ ...base, status: 'confirmed', signature })
+      return { id, signature: signature ?? null, status: 'confirmed', alreadyLanded: true }
+    }
+
+    let built: BuiltTransaction
+    let rawTransaction: Uint8Array | undefined
+    try {
+      built = await build()
+      emit({ ...base, status: 'built' })
+
+      const { transaction, minContextSlot } = built
+      if (request.preflight ?? true) {
+        await preflight(connection, transaction)
+      }
+
+      if (sign) {
+        const signed = await sign(transaction)
+        emit({ ...base, status: 'signed' })
+        rawTransaction = signed.serialize()
+        signature = await connection.sendRawTransaction(rawTransaction, {
+          skipPreflight: true,
+          maxRetries: 0,
+          minContextSlot,
+        })
+      } else if (signAndSend) {
+        signature = await signAndSend(transaction, minContextSlot)
+        emit({ ...base, status: 'signed', signature })
+      } else {
+        throw new TransactionLifecycleError('No signer provided', 'failed')
+      }
+    } catch (error) {
+      emit({ ...base, status: 'failed', signature, error: getErrorMessage(error) || String(error) })
+      throw error
+    }
+
+    emit({ ...base, status: 'sent', signature })
+    console.log(`📤 ${kind} sent (attempt ${attempt}/${maxAttempts}): ${signature}`)
+
+    let outcome: 'confirmed' | 'expired'
+    try {
+      outcome = await awaitConfirmation(
+        connection,
+        signature,
+        built.latestBlockhash.lastValidBlockHeight,
+        rawTransaction,
+      )
+    } catch (error) {
+      // Rejected, or the RPC stayed unreachable; a concurrent submit may still have done the work
+      if (await isLanded()) {
+        emit({ ...base, status: 'confirmed', signature })
+        return { id, signature, status: 'confirmed', alreadyLanded: true }
+      }
+      emit({ ...base, status: 'failed', signature, error: getErrorMessage(error) || String(error) })
+      throw error
+    }
+
+    if (outcome === 'confirmed') {
+      console.log(`✅ ${kind} confirmed: ${signature}`)
+      emit({ ...base, status: 'confirmed', signature })
+      watchFinality(connection, base, signature)
+      return { id, signature, status: 'confirmed', alreadyLanded: false }
+    }
+
+    console.warn(`⌛ ${kind} blockhash expired before confirmation (attempt ${attempt}/${maxAttempts})`)
+    emit({ ...base, status: 'expired', signature })
+  }
+
+  if (await isLanded()) {
+    emit({ id, kind, key, attempt: maxAttempts, status: 'confirmed', signature })
+    return { id, signature: signature ?? null, status: 'confirmed', alreadyLanded: true }
+  }
+
+  const error = new TransactionLifecycleError('Transaction expired before confirmation', 'expired', signature)
+  emit({ id, kind, key, attempt: maxAttempts, status: 'failed', signature, error: error.message })
+  throw error
+}
+
+/**
+ * Builds, signs, sends and confirms a transaction, re-signing with a fresh
+ * blockhash when the previous one expires. Status changes are published to
+ * `subscribeToTransactions` listeners.
+ */
+export const sendTransaction = (connection: Connection, request: TransactionRequest): Promise<TransactionResult> => {
+  const flightKey = `${request.kind}:${request.key}`
+  const existing = inFlight.get(flightKey)
+  if (existing) {
+    console.log(`⏳ ${flightKey} already in flight, joining existing pipeline`)
+    return existing
+  }
+
+  const id = `${request.kind}-${Date.now()}-${nextId++}`
+  const pipeline = runPipeline(connection, request, id).finally(() => {
+    inFlight.delete(flightKey)
+  })
+  inFlight.set(flightKey, pipeline)
+  return pipeline
+}
+
+type BatchRequest = Omit<TransactionRequest, 'sign' | 'signAndSend'>
+
+/**
+ * Runs several pipelines but collects their first signatures into a single
+ * `signAll` wallet prompt. Retries after blockhash expiry are signed one by one.
+ * Results are aligned with `requests`.
+ */
+export const sendTransactionBatch = (
+  connection: Connection,
+  requests: BatchRequest[],
+  signAll: (transactions: VersionedTransaction[]) => Promise<VersionedTransaction[]>,
+): Promise<PromiseSettledResult<TransactionResult>[]> => {
+  const queued: {
+    transaction: VersionedTransaction
+    resolve: (signed: VersionedTransaction) => void
+    reject: (error: unknown) => void
+  }[] = []
+  const reachedSigner = new Set<number>()
+  const settledEarly = new Set<number>()
+  let flushed = false
+
+  // Every pipeline has either queued its transaction or finished without needing a signature
+  const maybeFlush = () => {
+    if (flushed || reachedSigner.size + settledEarly.size < requests.length) return
+    flushed = true
+    if (queued.length === 0) return
+
+    console.log(`✍️ Requesting ${queued.length} signature(s) in one wallet prompt`)
+    signAll(queued.map((entry) => entry.transaction)).then(
+      (signed) => queued.forEach((entry, i) => entry.resolve(signed[i])),
+      (error) => queued.forEach((entry) => entry.reject(error)),
+    )
+  }
+
+  const pipelines = requests.map((request, index) => {
+    const sign = (transaction: VersionedTransaction): Promise<VersionedTransaction> => {
+      if (flushed || reachedSigner.has(index)) {
+        return signAll([transaction]).then(([signed]) => signed)
+      }
+      reachedSigner.add(index)
+      return new Promise((resolve, reject) => {
+        queued.push({ transaction, resolve, reject })
+        maybeFlush()
+      })
+    }
+
+    return sendTransaction(connection, { ...request, sign }).finally(() => {
+      if (!reachedSigner.has(index)) {
+        settledEarly.add(index)
+        maybeFlush()
+      }
+    })
+  })
+
+  return Promise.allSettled(pipelines)
+}
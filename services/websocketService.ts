@@ -1,20 +1,60 @@
 import io, { Socket } from 'socket.io-client'
 
 import { getBackendBaseUrl } from './backendConfig'
+import type { RaceRealtime } from './raceDataSource'
+import {
+  ConnectionQuality,
+  RealtimeEventBus,
+  RealtimeListener,
+  SubscriptionCounter,
+} from './realtimeBus';
+import {
+  buildHelloMessage,
+  deriveRaceEvents,
+  RaceEventType,
+  RaceUpdatePayload,
+  recordRejectedMessage,
+  validatePriceUpdate,
+  validateRaceEvent,
+  validateRaceUpdate,
+  validateSentimentUpdate,
+  validateUserBetUpdate,
+  validateWelcome,
+} from './realtimeProtocol';
 
-export type RaceUpdateHandler = (data: any) => void;
-export type PriceUpdateHandler = (data: Record<string, number>) => void;
-export type UserBetUpdateHandler = (data: any) => void;
+export type RaceUpdateHandler = RealtimeListener<'race_update'>;
+export type PriceUpdateHandler = RealtimeListener<'price_update'>;
+export type UserBetUpdateHandler = RealtimeListener<'user_bet_update'>;
+export type RaceEventHandler = RealtimeListener<'race_event'>;
+export type SentimentUpdateHandler = RealtimeListener<'sentiment_update'>;
+export type ConnectionChangeHandler = RealtimeListener<'connection'>;
 
-export class WebSocketService {
+// Past this many failed reconnects the app is effectively running on REST polling
+const POLLING_AFTER_ATTEMPTS = 3;
+// A subscribed stream that stays silent this long is treated as degraded even if the socket is up
+const STALE_STREAM_MS = 15000;
+const HEALTH_CHECK_MS = 5000;
+
+export class WebSocketService implements RaceRealtime {
   private socket: Socket | null = null;
   private baseUrl: string;
   private isConnecting = false;
   private isConnected = false;
 
-  private raceHandler?: RaceUpdateHandler;
-  private priceHandler?: PriceUpdateHandler;
-  private betHandler?: UserBetUpdateHandler;
+  private bus = new RealtimeEventBus();
+  private raceSubscriptions = new SubscriptionCounter<number>();
+
+  // Negotiated in the hello/welcome handshake; null until the server answers (legacy servers never do)
+  private protocolVersion: number | null = null;
+  private serverEvents: RaceEventType[] = [];
+  private lastRaceUpdates = new Map<number, RaceUpdatePayload>();
+
+  private pricesSubscribed = false;
+  private quality: ConnectionQuality = 'polling';
+  private reconnectAttempt = 0;
+  private hasConnectedOnce = false;
+  private lastMessageAt = 0;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(baseUrl: string = '') {
     // Always use ws:// or wss:// for socket.io
@@ -32,8 +72,8 @@ export class WebSocketService {
   }
 
   connect(): Promise<void> {
-    // Prevent multiple concurrent connections
-    if (this.isConnecting || this.isConnected) {
+    // Prevent multiple concurrent connections; an existing socket keeps reconnecting on its own
+    if (this.isConnecting || this.isConnected || this.socket) {
       return Promise.resolve();
     }
 
@@ -45,9 +85,10 @@ export class WebSocketService {
         forceNew: false, // Reuse existing connection if available
         timeout: 30000, // Increased to 30s for blockchain operations
         reconnection: true, // Use Socket.IO's built-in reconnection
-        reconnectionAttempts: 3, // Reduced to prevent spam
-        reconnectionDelay: 3000, // Increased delay
-        reconnectionDelayMax: 10000, // Max delay between attempts
+        reconnectionAttempts: Infinity, // Never give up; the backoff keeps retries cheap
+        reconnectionDelay: 1000, // First retry after ~1s, doubling each attempt
+        reconnectionDelayMax: 30000, // Max delay between attempts
+        randomizationFactor: 0.5, // ±50% jitter so clients don't reconnect in lockstep after an outage
         autoConnect: true,
         withCredentials: false,
       });
@@ -55,12 +96,39 @@ export class WebSocketService {
       this.socket.on('connect', () => {
         this.isConnecting = false;
         this.isConnected = true;
+        this.socket?.emit('hello', buildHelloMessage());
+        // Races subscribed to while offline only count locally until the socket is up
+        // Server-side subscriptions don't survive a reconnect, so restore them
+        this.raceSubscriptions.keys().forEach(raceId => {
+          this.socket?.emit('subscribe_race', { raceId });
+        });
+        if (this.pricesSubscribed) {
+          this.socket?.emit('subscribe_prices', true);
+        }
+        this.reconnectAttempt = 0;
+        this.lastMessageAt = Date.now();
+        this.setQuality('live', this.hasConnectedOnce);
+        this.hasConnectedOnce = true;
+        this.startHealthCheck();
         resolve();
       });
 
-      this.socket.on('disconnect', (reason) => {
+      this.socket.on('welcome', data => {
+        const result = validateWelcome(data);
+        if (!result.ok) {
+          recordRejectedMessage('welcome', result.reason);
+          console.error('❌ Realtime server speaks an incompatible protocol, disconnecting');
+          this.disconnect();
+          return;
+        }
+        this.protocolVersion = result.value.protocolVersion;
+        this.serverEvents = result.value.events;
+      });
+
+      this.socket.on('disconnect', () => {
         this.isConnected = false;
         // Don't add custom reconnection - Socket.IO handles it
+        this.setQuality('degraded');
       });
 
       this.socket.on('connect_error', (error) => {
@@ -73,29 +141,63 @@ export class WebSocketService {
         reject(error);
       });
 
-      this.socket.on('reconnect', (attemptNumber) => {
-        this.isConnected = true;
-      });
-
-      this.socket.on('reconnect_attempt', (attemptNumber) => {
-        // Silent reconnect attempts
+      // Reconnection lifecycle events live on the manager in socket.io v4
+      this.socket.io.on('reconnect_attempt', attemptNumber => {
+        this.reconnectAttempt = attemptNumber;
+        this.setQuality(attemptNumber > POLLING_AFTER_ATTEMPTS ? 'polling' : 'degraded');
       });
 
-      this.socket.on('reconnect_failed', () => {
-        console.error('❌ WebSocket failed to reconnect');
-        this.isConnected = false;
+      this.socket.on('race_update', data => {
+        const result = validateRaceUpdate(data);
+        if (!result.ok) {
+          recordRejectedMessage('race_update', result.reason);
+          return;
+        }
+        this.markMessage();
+        const update = result.value;
+        const previous = this.lastRaceUpdates.get(update.race.raceId);
+        this.lastRaceUpdates.set(update.race.raceId, update);
+        this.bus.emit('race_update', update);
+        deriveRaceEvents(previous, update, this.serverEvents).forEach(event => {
+          this.bus.emit('race_event', event);
+        });
       });
 
-      this.socket.on('race_update', data => {
-        this.raceHandler && this.raceHandler(data);
+      this.socket.on('race_event', data => {
+        const result = validateRaceEvent(data);
+        if (!result.ok) {
+          recordRejectedMessage('race_event', result.reason);
+          return;
+        }
+        this.bus.emit('race_event', result.value);
       });
 
       this.socket.on('price_update', data => {
-        this.priceHandler && this.priceHandler(data);
+        const result = validatePriceUpdate(data);
+        if (!result.ok) {
+          recordRejectedMessage('price_update', result.reason);
+          return;
+        }
+        this.markMessage();
+        this.bus.emit('price_update', result.value);
       });
 
       this.socket.on('user_bet_update', data => {
-        this.betHandler && this.betHandler(data);
+        const result = validateUserBetUpdate(data);
+        if (!result.ok) {
+          recordRejectedMessage('user_bet_update', result.reason);
+          return;
+        }
+        this.bus.emit('user_bet_update', result.value);
+      });
+
+      this.socket.on('sentiment_update', data => {
+        const result = validateSentimentUpdate(data);
+        if (!result.ok) {
+          recordRejectedMessage('sentiment_update', result.reason);
+          return;
+        }
+        this.bus.emit('sentiment_update', result.value);
       });
     });
   }
@@ -113,18 +215,22 @@ export class WebSocketService {
   }
 
   subscribeToRace(raceId: number) {
+    if (!this.raceSubscriptions.acquire(raceId)) return;
     if (this.socket && this.isConnected) {
       this.socket.emit('subscribe_race', { raceId });
     }
   }
 
   subscribeToPrice() {
+    this.pricesSubscribed = true;
     if (this.socket && this.isConnected) {
       this.socket.emit('subscribe_prices', true);
     }
   }
 
   unsubscribeFromRace(raceId: number) {
+    if (!this.raceSubscriptions.release(raceId)) return;
+    this.lastRaceUpdates.delete(raceId);
     if (this.socket && this.isConnected) {
       this.socket.emit('unsubscribe_race', { raceId });
     }
@@ -137,18 +243,68 @@ export class WebSocketService {
       this.isConnecting = false;
       this.isConnected = false;
     }
+    this.stopHealthCheck();
+    this.reconnectAttempt = 0;
+    this.setQuality('polling');
+    this.protocolVersion = null;
+    this.serverEvents = [];
+    this.lastRaceUpdates.clear();
+  }
+
+  // Each returns a disposer; late listeners get the last snapshot replayed immediately
+  onRaceUpdate(handler: RaceUpdateHandler): () => void {
+    return this.bus.on('race_update', handler);
+  }
+
+  onPriceUpdate(handler: PriceUpdateHandler): () => void {
+    return this.bus.on('price_update', handler);
+  }
+
+  onUserBetUpdate(handler: UserBetUpdateHandler): () => void {
+    return this.bus.on('user_bet_update', handler);
+  }
+
+  onRaceEvent(handler: RaceEventHandler): () => void {
+    return this.bus.on('race_event', handler);
+  }
+
+  onSentimentUpdate(handler: SentimentUpdateHandler): () => void {
+    return this.bus.on('sentiment_update', handler);
   }
 
-  onRaceUpdate(handler: RaceUpdateHandler) {
-    this.raceHandler = handler;
+  onConnectionChange(handler: ConnectionChangeHandler): () => void {
+    return this.bus.on('connection', handler);
   }
 
-  onPriceUpdate(handler: PriceUpdateHandler) {
-    this.priceHandler = handler;
+  private setQuality(quality: ConnectionQuality, resumedAfterGap = false) {
+    if (quality === this.quality && !resumedAfterGap) return;
+    this.quality = quality;
+    this.bus.emit('connection', { quality, reconnectAttempt: this.reconnectAttempt, resumedAfterGap });
   }
 
-  onUserBetUpdate(handler: UserBetUpdateHandler) {
-    this.betHandler = handler;
+  private markMessage() {
+    this.lastMessageAt = Date.now();
+    // The stream came back after going quiet; whatever happened meanwhile was missed
+    if (this.quality === 'degraded' && this.isConnected) {
+      this.setQuality('live', true);
+    }
+  }
+
+  private startHealthCheck() {
+    if (this.healthTimer) return;
+    this.healthTimer = setInterval(() => {
+      const expectsTraffic = this.pricesSubscribed || this.raceSubscriptions.keys().length > 0;
+      if (this.isConnected && expectsTraffic && Date.now() - this.lastMessageAt > STALE_STREAM_MS) {
+        this.setQuality('degraded');
+      }
+    }, HEALTH_CHECK_MS);
+  }
+
+  private stopHealthCheck() {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
   }
 
   // Getter for connection status
@@ -156,7 +312,10 @@ export class WebSocketService {
     return {
       isConnecting: this.isConnecting,
       isConnected: this.isConnected,
-      socket: this.socket?.connected || false
+      socket: this.socket?.connected || false,
+      protocolVersion: this.protocolVersion,
+      quality: this.quality,
+      reconnectAttempt: this.reconnectAttempt,
     };
   }
 }
@@ -0,0 +1,225 @@
+import {
+  RaceServiceResponse,
+  RaceState,
+  UserBetSummary,
+  UserBetsPage,
+  UserBetsPageQuery,
+} from '../../services/backendTypes'
+
+type BetHistoryModule = typeof import('../betHistory')
+
+// MMKV stand-in that outlives module reloads, so a fresh module reads what the last one wrote
+const mockStorage = new Map<string, string>()
+
+jest.mock('../storage', () => ({
+  storage: {
+    getString: (key: string) => mockStorage.get(key) ?? null,
+    set: (key: string, value: string) => mockStorage.set(key, value),
+    delete: (key: string) => mockStorage.delete(key),
+  },
+}))
+
+const PLAYER = 'player-1'
+const prefix = (version: number) => `betHistory:v${version}:devnet:${PLAYER}`
+const HOUR = 3_600
+
+// Loads betHistory with an empty in-memory cache, as on app start
+const freshModule = (): BetHistoryModule => {
+  let mod: BetHistoryModule | undefined
+  jest.isolateModules(() => {
+    mod = jest.requireActual<BetHistoryModule>('../betHistory')
+  })
+  return mod!
+}
+
+const bet = (raceId: number, overrides: Partial<UserBetSummary> = {}): UserBetSummary => ({
+  raceId,
+  assetIdx: raceId % 3,
+  amount: raceId * 1_000_000,
+  potentialPayout: null,
+  isWinner: raceId % 2 === 0,
+  claimed: false,
+  raceState: RaceState.Settled,
+  raceStartTs: 1_700_000_000 + raceId * HOUR,
+  ...overrides,
+})
+
+// A backend that serves `bets` newest first in pages of `pageSize`, honouring sinceRaceId
+const fakeBackend = (bets: UserBetSummary[], pageSize = 2) => {
+  const fetchPage = jest.fn(async (query: UserBetsPageQuery): Promise<RaceServiceResponse<UserBetsPage>> => {
+    const newer = [...bets]
+      .filter((entry) => entry.raceId > (query.sinceRaceId ?? 0))
+      .sort((a, b) => b.raceId - a.raceId)
+    const start = query.cursor ? Number(query.cursor) : 0
+    const end = start + pageSize
+    return {
+      success: true,
+      data: { bets: newer.slice(start, end), nextCursor: end < newer.length ? String(end) : null },
+    }
+  })
+  return fetchPage
+}
+
+describe('bet history', () => {
+  let history: BetHistoryModule
+
+  beforeEach(() => {
+    mockStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    history = freshModule()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('syncBetHistory', () => {
+    it('pages through everything on the first sync and persists it', async () => {
+      const fetchPage = fakeBackend([bet(1), bet(2), bet(3)])
+
+      expect(await history.syncBetHistory(PLAYER, fetchPage)).toEqual({ success: true, added: 3 })
+      expect(fetchPage.mock.calls.map(([query]) => query)).toEqual([
+        { cursor: undefined, sinceRaceId: 0, limit: 50 },
+        { cursor: '2', sinceRaceId: 0, limit: 50 },
+      ])
+
+      // Survives a restart
+      expect(
+        freshModule()
+          .queryBetHistory(PLAYER)
+          .map((record) => record.raceId),
+      ).toEqual([3, 2, 1])
+    })
+
+    it('only asks for races after the last completed sync and rewrites only what changed', async () => {
+      const bets = [bet(1), bet(2)]
+      await history.syncBetHistory(PLAYER, fakeBackend(bets))
+      const set = jest.spyOn(mockStorage, 'set')
+
+      const fetchPage = fakeBackend([...bets, bet(3)])
+      expect(await history.syncBetHistory(PLAYER, fetchPage)).toEqual({ success: true, added: 1 })
+
+      expect(fetchPage).toHaveBeenCalledWith(expect.objectContaining({ sinceRaceId: 2 }))
+      expect(set.mock.calls.map(([key]) => key).filter((key) => key.includes(':record:'))).toEqual([
+        `${prefix(3)}:record:3`,
+      ])
+    })
+
+    it('goes back for races that were still open so their results update', async () => {
+      await history.syncBetHistory(
+        PLAYER,
+        fakeBackend([bet(4), bet(5, { raceState: RaceState.Running, isWinner: null })]),
+      )
+      expect(history.queryBetHistory(PLAYER, { result: 'pending' }).map((record) => record.raceId)).toEqual([5])
+
+      const fetchPage = fakeBackend([bet(4), bet(5, { isWinner: true })])
+      await history.syncBetHistory(PLAYER, fetchPage)
+
+      expect(fetchPage).toHaveBeenCalledWith(expect.objectContaining({ sinceRaceId: 4 }))
+      expect(history.queryBetHistory(PLAYER, { result: 'won' }).map((record) => record.raceId)).toEqual([5, 4])
+    })
+
+    it('keeps the cursor where it was when a page fails, so the next sync repeats it', async () => {
+      await history.syncBetHistory(PLAYER, fakeBackend([bet(1)]))
+      const failing = fakeBackend([bet(1), bet(2), bet(3), bet(4)])
+      failing.mockImplementationOnce(async () => ({ success: true, data: { bets: [bet(4), bet(3)], nextCursor: '2' } }))
+      failing.mockImplementationOnce(async () => ({ success: false, error: 'Backend unavailable' }))
+
+      expect(await history.syncBetHistory(PLAYER, failing)).toEqual({
+        success: false,
+        added: 2,
+        error: 'Backend unavailable',
+      })
+
+      const retry = fakeBackend([bet(1), bet(2), bet(3), bet(4)])
+      expect(await history.syncBetHistory(PLAYER, retry)).toEqual({ success: true, added: 1 })
+      expect(retry).toHaveBeenCalledWith(expect.objectContaining({ sinceRaceId: 1 }))
+    })
+
+    it('keeps a claim recorded on this device when the backend has not caught up', async () => {
+      await history.syncBetHistory(PLAYER, fakeBackend([bet(2)]))
+      history.markBetsClaimed(PLAYER, [{ raceId: 2, signature: 'claim-sig' }])
+
+      history.importBetHistory(PLAYER, [bet(2), bet(3)])
+
+      expect(history.queryBetHistory(PLAYER, { claimed: true })).toEqual([
+        expect.objectContaining({ raceId: 2, claimed: true, claimSignature: 'claim-sig' }),
+      ])
+    })
+  })
+
+  describe('queryBetHistory', () => {
+    beforeEach(() => {
+      history.importBetHistory(PLAYER, [
+        bet(1),
+        bet(2, { claimed: true }),
+        bet(3),
+        bet(4),
+        bet(5, { raceState: RaceState.Betting, isWinner: null }),
+        bet(6, { amount: 100 }),
+      ])
+    })
+
+    const ids = (query: Parameters<BetHistoryModule['queryBetHistory']>[1]) =>
+      history.queryBetHistory(PLAYER, query).map((record) => record.raceId)
+
+    it('filters by asset, result and claim state from the indexes', () => {
+      expect(ids({ assetIdx: 1 })).toEqual([4, 1])
+      expect(ids({ result: 'won' })).toEqual([6, 4, 2])
+      expect(ids({ result: 'pending' })).toEqual([5])
+      expect(ids({ claimed: false, result: 'won' })).toEqual([6, 4])
+    })
+
+    it('scans an inclusive date range', () => {
+      const at = (raceId: number) => (1_700_000_000 + raceId * HOUR) * 1000
+      expect(ids({ from: at(2), to: at(4) })).toEqual([4, 3, 2])
+      expect(ids({ from: at(5) })).toEqual([6, 5])
+      expect(ids({ to: at(1) })).toEqual([1])
+    })
+
+    it('matches the search against race ids and asset symbols', () => {
+      expect(ids({ search: '3' })).toEqual([3])
+      expect(ids({ search: 'eth', assetSymbols: ['BTC', 'ETH', 'SOL'] })).toEqual([4, 1])
+    })
+
+    it('applies race state on top of the indexed filters', () => {
+      expect(ids({ raceStates: [RaceState.Betting] })).toEqual([5])
+      expect(ids({ assetIdx: 2, raceStates: [RaceState.Settled] })).toEqual([2])
+    })
+
+    it('sorts by amount or result, newest first within a tie', () => {
+      expect(ids({ sortBy: 'amount' })).toEqual([5, 4, 3, 2, 1, 6])
+      expect(ids({ sortBy: 'result' })).toEqual([6, 4, 2, 3, 1, 5])
+    })
+
+    it('keeps the indexes in step with later changes', () => {
+      history.markBetsClaimed(PLAYER, [{ raceId: 4 }])
+      expect(ids({ claimed: true })).toEqual([4, 2])
+    })
+  })
+
+  describe('schema versions', () => {
+    it('drops histories written by an older schema and starts over', async () => {
+      mockStorage.set(`${prefix(2)}:meta`, JSON.stringify({ version: 2, lastSyncedRaceId: 9, syncedAt: 1 }))
+      mockStorage.set(`${prefix(2)}:ids`, JSON.stringify([9]))
+      mockStorage.set(`${prefix(2)}:record:9`, JSON.stringify(bet(9)))
+      mockStorage.set(`${prefix(1)}:records`, JSON.stringify({ 8: bet(8) }))
+
+      expect(history.queryBetHistory(PLAYER)).toEqual([])
+      expect([...mockStorage.keys()]).toEqual([])
+
+      const fetchPage = fakeBackend([bet(8), bet(9)])
+      await history.syncBetHistory(PLAYER, fetchPage)
+      expect(fetchPage).toHaveBeenCalledWith(expect.objectContaining({ sinceRaceId: 0 }))
+    })
+
+    it('ignores a current-layout history whose meta carries another version', () => {
+      mockStorage.set(`${prefix(3)}:meta`, JSON.stringify({ version: 2, lastSyncedRaceId: 9, syncedAt: 1 }))
+      mockStorage.set(`${prefix(3)}:ids`, JSON.stringify([9]))
+      mockStorage.set(`${prefix(3)}:record:9`, JSON.stringify(bet(9)))
+
+      expect(history.queryBetHistory(PLAYER)).toEqual([])
+      expect(history.isBetHistoryFresh(PLAYER)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import { GlobalStats } from '../../services/backendTypes'
+import { readPersisted, writePersisted } from '../persistentCache'
+import { useRaceStore } from '../useRaceStore'
+
+type PersistentCacheModule = typeof import('../persistentCache')
+
+// MMKV stand-in that outlives module reloads, so a fresh module reads what the last one wrote
+const mockStorage = new Map<string, string>()
+const mockEnvironment = { current: 'devnet' }
+
+jest.mock('../storage', () => ({
+  storage: {
+    getString: (key: string) => mockStorage.get(key) ?? null,
+    set: (key: string, value: string) => mockStorage.set(key, value),
+    delete: (key: string) => mockStorage.delete(key),
+  },
+}))
+
+jest.mock('../../services/config', () => ({
+  ...jest.requireActual('../../services/config'),
+  // Read while the store module loads, before mockEnvironment is initialized
+  getCurrentEnvironment: () => (typeof mockEnvironment === 'undefined' ? 'devnet' : mockEnvironment.current),
+}))
+
+const MINUTE = 60_000
+const DAY = 24 * 60 * MINUTE
+// Mirrors the module's MAX_ENTRIES
+const MAX_ENTRIES = 150
+
+// Loads persistentCache with nothing in memory, as on app start
+const freshModule = (): PersistentCacheModule => {
+  let mod: PersistentCacheModule | undefined
+  jest.isolateModules(() => {
+    mod = jest.requireActual<PersistentCacheModule>('../persistentCache')
+  })
+  return mod!
+}
+
+const storedKeys = () => [...mockStorage.keys()].filter((key) => !key.endsWith(':index') && !key.endsWith(':schema'))
+
+describe('persistent cache', () => {
+  let cache: PersistentCacheModule
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    mockStorage.clear()
+    mockEnvironment.current = 'devnet'
+    cache = freshModule()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('serves an entry as fresh within its TTL and as stale after it', () => {
+    cache.writePersisted('race:1', { raceId: 1 }, MINUTE)
+
+    expect(cache.readPersisted('race:1')).toMatchObject({ data: { raceId: 1 }, isStale: false })
+    jest.advanceTimersByTime(MINUTE + 1)
+    expect(cache.readPersisted('race:1')).toMatchObject({ data: { raceId: 1 }, isStale: true })
+  })
+
+  it('drops an entry once it is too old to be worth showing', () => {
+    cache.writePersisted('race:1', { raceId: 1 }, MINUTE)
+    jest.advanceTimersByTime(7 * DAY + 1)
+
+    expect(cache.readPersisted('race:1')).toBeNull()
+    expect(storedKeys()).toEqual([])
+  })
+
+  it('survives a restart', () => {
+    cache.writePersisted('race:1', { raceId: 1 }, MINUTE)
+    expect(freshModule().readPersisted('race:1')?.data).toEqual({ raceId: 1 })
+  })
+
+  it('keeps each environment to its own entries', () => {
+    cache.writePersisted('race:current', { raceId: 1 }, MINUTE)
+
+    mockEnvironment.current = 'mainnet'
+    expect(cache.readPersisted('race:current')).toBeNull()
+    cache.writePersisted('race:current', { raceId: 900 }, MINUTE)
+
+    mockEnvironment.current = 'devnet'
+    expect(cache.readPersisted('race:current')?.data).toEqual({ raceId: 1 })
+
+    cache.clearPersistedCache()
+    expect(storedKeys()).toEqual([])
+  })
+
+  it('evicts the least recently used entries past the entry limit', () => {
+    for (let i = 0; i < MAX_ENTRIES; i++) {
+      cache.writePersisted(`race:${i}`, { raceId: i }, MINUTE)
+      jest.advanceTimersByTime(1)
+    }
+    // Reading the oldest entry makes the second oldest the next to go
+    cache.readPersisted('race:0')
+    jest.advanceTimersByTime(1)
+
+    cache.writePersisted('race:new', { raceId: -1 }, MINUTE)
+
+    expect(storedKeys()).toHaveLength(MAX_ENTRIES)
+    expect(cache.readPersisted('race:0')).not.toBeNull()
+    expect(cache.readPersisted('race:1')).toBeNull()
+    expect(cache.readPersisted('race:new')).not.toBeNull()
+  })
+
+  it('refuses a single entry larger than the whole budget', () => {
+    cache.writePersisted('huge', 'x'.repeat(1024 * 1024), MINUTE)
+    expect(cache.readPersisted('huge')).toBeNull()
+  })
+
+  it('sweeps entries written under an older schema', () => {
+    mockStorage.set('queryCache:schema', '0')
+    mockStorage.set('queryCache:v0:index', JSON.stringify([{ key: 'queryCache:v0:devnet:race:1', size: 1 }]))
+    mockStorage.set('queryCache:v0:devnet:race:1', '{}')
+
+    freshModule()
+
+    expect(mockStorage.has('queryCache:v0:devnet:race:1')).toBe(false)
+    expect(mockStorage.has('queryCache:v0:index')).toBe(false)
+    expect(mockStorage.get('queryCache:schema')).toBe(String(cache.CACHE_SCHEMA_VERSION))
+  })
+})
+
+describe('stale-while-revalidate', () => {
+  const stats = (racesToday: number): GlobalStats => ({
+    racersOnline: 3,
+    usdcPaid24h: 10,
+    racesToday,
+    updatedAt: 1_767_225_600,
+  })
+  let getGlobalStats: jest.Mock
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    mockStorage.clear()
+    getGlobalStats = jest.fn(async () => ({ success: true, data: stats(2) }))
+    useRaceStore.setState({ globalStats: undefined, pendingRequests: {}, apiService: { getGlobalStats } } as never)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('answers from a fresh persisted copy without a request', async () => {
+    writePersisted('globalStats', stats(1), MINUTE)
+
+    expect(await useRaceStore.getState().fetchGlobalStats()).toEqual(stats(1))
+    expect(getGlobalStats).not.toHaveBeenCalled()
+  })
+
+  it('shows a stale copy at once and replaces it when the request returns', async () => {
+    writePersisted('globalStats', stats(1), MINUTE)
+    jest.advanceTimersByTime(MINUTE + 1)
+
+    const pending = useRaceStore.getState().fetchGlobalStats()
+    expect(useRaceStore.getState().globalStats).toEqual(stats(1))
+
+    expect(await pending).toEqual(stats(2))
+    expect(useRaceStore.getState().globalStats).toEqual(stats(2))
+    expect(readPersisted('globalStats')).toMatchObject({ data: stats(2), isStale: false })
+  })
+
+  it('falls back to the stale copy when revalidation fails', async () => {
+    writePersisted('globalStats', stats(1), MINUTE)
+    jest.advanceTimersByTime(MINUTE + 1)
+    getGlobalStats.mockResolvedValueOnce({ success: false, error: 'Backend unavailable' })
+
+    expect(await useRaceStore.getState().fetchGlobalStats()).toEqual(stats(1))
+    expect(useRaceStore.getState().globalStats).toEqual(stats(1))
+  })
+})
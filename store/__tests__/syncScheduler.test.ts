@@ -0,0 +1,111 @@
+import { AppStateStatus } from 'react-native'
+
+import { setSyncPlayer, startSyncScheduler } from '../syncScheduler'
+import { useRaceStore } from '../useRaceStore'
+
+const mockAppState: { currentState: AppStateStatus; listeners: Set<(state: AppStateStatus) => void> } = {
+  currentState: 'active',
+  listeners: new Set(),
+}
+
+jest.mock('react-native', () => ({
+  AppState: {
+    // Read once while the scheduler module loads, before mockAppState is initialized
+    get currentState() {
+      return typeof mockAppState === 'undefined' ? 'active' : mockAppState.currentState
+    },
+    addEventListener: (_event: string, listener: (state: AppStateStatus) => void) => {
+      mockAppState.listeners.add(listener)
+      return { remove: () => mockAppState.listeners.delete(listener) }
+    },
+  },
+}))
+
+// Only the slice of the store the scheduler reads
+jest.mock('../useRaceStore', () => {
+  const { create } = jest.requireActual('zustand')
+  const { subscribeWithSelector } = jest.requireActual('zustand/middleware')
+  return {
+    getCurrentPhase: () => 'commit',
+    useRaceStore: create(subscribeWithSelector(() => ({}))),
+  }
+})
+
+const setAppState = (state: AppStateStatus) => {
+  mockAppState.currentState = state
+  mockAppState.listeners.forEach((listener) => listener(state))
+}
+
+const race = (raceId: number) => ({ raceId, state: 0, lockTs: 0, settleTs: 0, assets: [] })
+
+const fakeRealtime = () => ({ subscribeToPrice: jest.fn() })
+
+const store = {
+  connectWebSocket: jest.fn(async () => undefined),
+  disconnectWebSocket: jest.fn(),
+  subscribeToRace: jest.fn(),
+  fetchCommitPhaseData: jest.fn(async () => undefined),
+}
+
+describe('sync scheduler realtime', () => {
+  let stop: () => void
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    Object.values(store).forEach((fn) => fn.mockClear())
+    mockAppState.currentState = 'active'
+    useRaceStore.setState({ ...store, race: race(1), connectionQuality: 'live', wsService: fakeRealtime() } as never)
+    stop = startSyncScheduler()
+  })
+
+  afterEach(() => {
+    stop()
+    setSyncPlayer(undefined)
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('connects once and subscribes the current race on start', () => {
+    expect(store.connectWebSocket).toHaveBeenCalledTimes(1)
+    expect(useRaceStore.getState().wsService.subscribeToPrice).toHaveBeenCalledTimes(1)
+    expect(store.subscribeToRace).toHaveBeenCalledWith(1)
+  })
+
+  it('only subscribes the new race when the race changes', () => {
+    useRaceStore.setState({ race: race(2) } as never)
+
+    expect(store.subscribeToRace).toHaveBeenLastCalledWith(2)
+    expect(store.connectWebSocket).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops realtime in the background and restores it on return', () => {
+    setAppState('background')
+    expect(store.disconnectWebSocket).toHaveBeenCalledTimes(1)
+
+    // Races that turn over while backgrounded wait for the socket to come back
+    useRaceStore.setState({ race: race(2) } as never)
+    expect(store.subscribeToRace).not.toHaveBeenCalledWith(2)
+
+    setAppState('active')
+    expect(store.connectWebSocket).toHaveBeenCalledTimes(2)
+    expect(store.subscribeToRace).toHaveBeenLastCalledWith(2)
+  })
+
+  it('reconnects and resubscribes after an environment switch installs a new socket', () => {
+    const next = fakeRealtime()
+    useRaceStore.setState({ wsService: next } as never)
+
+    expect(store.connectWebSocket).toHaveBeenCalledTimes(2)
+    expect(next.subscribeToPrice).toHaveBeenCalledTimes(1)
+    // Same race id as before the switch, but the new socket has never been told about it
+    expect(store.subscribeToRace).toHaveBeenCalledTimes(2)
+    expect(store.subscribeToRace).toHaveBeenLastCalledWith(1)
+  })
+
+  it('disconnects when stopped', () => {
+    stop()
+    expect(store.disconnectWebSocket).toHaveBeenCalledTimes(1)
+    stop = () => undefined
+  })
+})
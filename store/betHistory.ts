@@ -0,0 +1,429 @@
+import {
+  BetPlacement,
+  RaceServiceResponse,
+  RaceState,
+  UserBetSummary,
+  UserBetsPage,
+  UserBetsPageQuery,
+} from '../services/backendTypes'
+import { getCurrentEnvironment } from '../services/config'
+import { storage } from './storage'
+
+// Bump whenever records change shape or storage layout; older data is dropped and resynced from scratch
+const HISTORY_SCHEMA_VERSION = 3
+const PAGE_SIZE = 50
+// Placement lookups cost one RPC each, so a run only resolves a few and runs are spaced out
+const PLACEMENTS_PER_SYNC = 10
+const PLACEMENT_RUN_INTERVAL_MS = 60000
+// A lookup that failed waits this long before it is tried again
+const PLACEMENT_RETRY_MS = 5 * 60000
+// A sync younger than this is served as-is unless the caller forces a refresh
+export const BET_HISTORY_FRESH_MS = 30000
+
+export type BetResult = 'won' | 'lost' | 'pending'
+export type BetHistorySort = 'date' | 'amount' | 'result'
+
+export interface BetHistoryRecord extends UserBetSummary {
+  // When this device first saw the bet; last resort for dating it when the source has no timeline
+  recordedAt: number
+}
+
+export interface BetHistoryQuery {
+  // Inclusive bounds in ms
+  from?: number
+  to?: number
+  assetIdx?: number
+  result?: BetResult
+  claimed?: boolean
+  raceStates?: RaceState[]
+  // Matches the race id or the asset symbol
+  search?: string
+  // Symbols by asset index, used by `search`
+  assetSymbols?: string[]
+  sortBy?: BetHistorySort
+}
+
+export interface BetHistoryDay {
+  // Local midnight, ms
+  dayStart: number
+  records: BetHistoryRecord[]
+}
+
+export interface BetHistorySyncResult {
+  success: boolean
+  added: number
+  error?: string
+}
+
+export type FetchBetsPage = (query: UserBetsPageQuery) => Promise<RaceServiceResponse<UserBetsPage>>
+export type FetchBetPlacement = (raceId: number) => Promise<RaceServiceResponse<BetPlacement>>
+
+interface BetHistoryMeta {
+  version: number
+  // Highest race id covered by a completed sync; newer races are what the next sync asks for
+  lastSyncedRaceId: number
+  syncedAt: number
+}
+
+// Race ids per bucket, kept newest first
+interface BetHistoryIndex {
+  byAsset: Record<number, number[]>
+  byResult: Record<BetResult, number[]>
+  byClaim: { claimed: number[]; unclaimed: number[] }
+  // [timestamp, raceId] ascending, for range scans
+  byTime: [number, number][]
+}
+
+interface LoadedHistory {
+  meta: BetHistoryMeta
+  records: Record<number, BetHistoryRecord>
+  // Rebuilt from records on load and save; never persisted
+  index: BetHistoryIndex
+  // Race ids whose records changed since the last save, and whether any of them are new
+  dirty: Set<number>
+  idsChanged: boolean
+}
+
+const RESULT_RANK: Record<BetResult, number> = { won: 0, lost: 1, pending: 2 }
+
+// Parsed histories, so queries don't re-read MMKV on every keystroke
+const loaded = new Map<string, LoadedHistory>()
+
+// Last placement run per history, and failed lookups by `${prefix}:${raceId}`; in memory only
+const placementRuns = new Map<string, number>()
+const placementFailures = new Map<string, number>()
+
+// Namespaced per environment and player so devnet and mainnet histories never mix
+const keyPrefixFor = (player: string, version: number = HISTORY_SCHEMA_VERSION) =>
+  `betHistory:v${version}:${getCurrentEnvironment()}:${player}`
+
+// Each record has its own key so a sync only writes the bets it changed; `ids` lists them for loading
+const recordKey = (prefix: string, raceId: number) => `${prefix}:record:${raceId}`
+
+const HISTORY_KEY_SUFFIXES = ['records', 'index', 'meta', 'ids']
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = storage.getString(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  } catch {
+    return null
+  }
+}
+
+const emptyMeta = (): BetHistoryMeta => ({ version: HISTORY_SCHEMA_VERSION, lastSyncedRaceId: 0, syncedAt: 0 })
+
+export const resultOf = (bet: UserBetSummary): BetResult => {
+  if (bet.raceState !== RaceState.Settled || bet.isWinner === null) return 'pending'
+  return bet.isWinner ? 'won' : 'lost'
+}
+
+// When the bet was placed, in ms: the placement block time, else the race start (betting opens then)
+export const betTimestamp = (record: BetHistoryRecord): number => {
+  if (record.placedAt) return record.placedAt * 1000
+  if (record.raceStartTs) return record.raceStartTs * 1000
+  return record.recordedAt
+}
+
+const buildIndex = (records: Record<number, BetHistoryRecord>): BetHistoryIndex => {
+  const index: BetHistoryIndex = {
+    byAsset: {},
+    byResult: { won: [], lost: [], pending: [] },
+    byClaim: { claimed: [], unclaimed: [] },
+    byTime: [],
+  }
+  Object.values(records)
+    .sort((a, b) => b.raceId - a.raceId)
+    .forEach((record) => {
+      if (!index.byAsset[record.assetIdx]) index.byAsset[record.assetIdx] = []
+      index.byAsset[record.assetIdx].push(record.raceId)
+      index.byResult[resultOf(record)].push(record.raceId)
+      index.byClaim[record.claimed ? 'claimed' : 'unclaimed'].push(record.raceId)
+      index.byTime.push([betTimestamp(record), record.raceId])
+    })
+  index.byTime.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  return index
+}
+
+// Older histories are incomplete by definition; the next sync rebuilds from scratch
+const dropOlderSchemas = (player: string) => {
+  for (let version = 1; version < HISTORY_SCHEMA_VERSION; version++) {
+    const prefix = keyPrefixFor(player, version)
+    const ids = readJson<number[]>(`${prefix}:ids`) ?? []
+    ids.forEach((raceId) => {
+      try {
+        storage.delete(recordKey(prefix, raceId))
+      } catch {
+        // ignore
+      }
+    })
+    HISTORY_KEY_SUFFIXES.forEach((suffix) => {
+      try {
+        storage.delete(`${prefix}:${suffix}`)
+      } catch {
+        // ignore
+      }
+    })
+  }
+}
+
+const load = (player: string): LoadedHistory => {
+  const prefix = keyPrefixFor(player)
+  const cached = loaded.get(prefix)
+  if (cached) return cached
+
+  const meta = readJson<BetHistoryMeta>(`${prefix}:meta`)
+  const ids = meta?.version === HISTORY_SCHEMA_VERSION ? readJson<number[]>(`${prefix}:ids`) : null
+  const records: Record<number, BetHistoryRecord> = {}
+  ids?.forEach((raceId) => {
+    const record = readJson<BetHistoryRecord>(recordKey(prefix, raceId))
+    if (record) records[raceId] = record
+  })
+  const history: LoadedHistory = {
+    meta: ids ? meta! : emptyMeta(),
+    records,
+    index: buildIndex(records),
+    dirty: new Set(),
+    idsChanged: false,
+  }
+  if (!ids) dropOlderSchemas(player)
+  loaded.set(prefix, history)
+  return history
+}
+
+// Writes only the records that changed, the id list when it grew, and the small meta entry
+const save = (player: string, history: LoadedHistory) => {
+  const prefix = keyPrefixFor(player)
+  const dirty = Array.from(history.dirty)
+  const idsChanged = history.idsChanged
+  history.dirty.clear()
+  history.idsChanged = false
+  if (dirty.length > 0) history.index = buildIndex(history.records)
+  loaded.set(prefix, history)
+  try {
+    dirty.forEach((raceId) => storage.set(recordKey(prefix, raceId), JSON.stringify(history.records[raceId])))
+    if (idsChanged) storage.set(`${prefix}:ids`, JSON.stringify(Object.keys(history.records).map(Number)))
+    storage.set(`${prefix}:meta`, JSON.stringify(history.meta))
+  } catch (error) {
+    console.warn('⚠️ Failed to persist bet history:', error)
+  }
+}
+
+const putRecord = (history: LoadedHistory, record: BetHistoryRecord) => {
+  const existing = history.records[record.raceId]
+  if (existing && JSON.stringify(existing) === JSON.stringify(record)) return
+  if (!existing) history.idsChanged = true
+  history.records[record.raceId] = record
+  history.dirty.add(record.raceId)
+}
+
+const merge = (history: LoadedHistory, bets: UserBetSummary[]): number => {
+  const now = Date.now()
+  let added = 0
+  bets.forEach((bet) => {
+    const existing = history.records[bet.raceId]
+    if (!existing) added++
+    putRecord(history, {
+      ...bet,
+      // A claim confirmed locally may not be indexed by the backend yet, and claims never revert
+      claimed: bet.claimed || !!existing?.claimed,
+      // Placement is resolved separately and pages don't always carry it
+      placementSignature: bet.placementSignature !== undefined ? bet.placementSignature : existing?.placementSignature,
+      placedAt: bet.placedAt !== undefined ? bet.placedAt : existing?.placedAt,
+      claimSignature: bet.claimSignature ?? existing?.claimSignature,
+      recordedAt: existing?.recordedAt ?? now,
+    })
+  })
+  return added
+}
+
+/**
+ * Pulls races newer than the last completed sync, plus any race still open
+ * locally since its result can change. Pages are merged as they arrive, but the
+ * sync cursor only advances once the backend reports the last page, so an
+ * interrupted sync is simply repeated.
+ */
+export const syncBetHistory = async (player: string, fetchPage: FetchBetsPage): Promise<BetHistorySyncResult> => {
+  const history = load(player)
+  const openRaceIds = Object.values(history.records)
+    .filter((record) => record.raceState !== RaceState.Settled)
+    .map((record) => record.raceId)
+  const sinceRaceId = Math.min(history.meta.lastSyncedRaceId, ...openRaceIds.map((raceId) => raceId - 1))
+
+  let cursor: string | undefined
+  let added = 0
+  let highestRaceId = history.meta.lastSyncedRaceId
+  while (true) {
+    const response = await fetchPage({ cursor, sinceRaceId, limit: PAGE_SIZE })
+    if (!response.success || !response.data) {
+      save(player, history)
+      return { success: false, added, error: response.error ?? 'Failed to fetch bet history' }
+    }
+
+    const { bets, nextCursor } = response.data
+    added += merge(history, bets)
+    bets.forEach((bet) => {
+      highestRaceId = Math.max(highestRaceId, bet.raceId)
+    })
+    if (!nextCursor) {
+      history.meta = { version: HISTORY_SCHEMA_VERSION, lastSyncedRaceId: highestRaceId, syncedAt: Date.now() }
+      save(player, history)
+      if (added > 0) console.log(`📚 Synced ${added} new bets into history`)
+      return { success: true, added }
+    }
+    // A cursor that doesn't move would page forever
+    if (nextCursor === cursor) {
+      save(player, history)
+      return { success: false, added, error: 'Bet history cursor did not advance' }
+    }
+    cursor = nextCursor
+  }
+}
+
+// For sources that can only return the full list (chain reads); completes a sync in one step
+export const importBetHistory = (player: string, bets: UserBetSummary[]) => {
+  const history = load(player)
+  merge(history, bets)
+  const highestRaceId = bets.reduce((max, bet) => Math.max(max, bet.raceId), 0)
+  history.meta = { version: HISTORY_SCHEMA_VERSION, lastSyncedRaceId: highestRaceId, syncedAt: Date.now() }
+  save(player, history)
+}
+
+export interface BetClaim {
+  raceId: number
+  signature?: string | null
+}
+
+// Records claims confirmed by this device, with their signatures for exports
+export const markBetsClaimed = (player: string, claims: BetClaim[]) => {
+  const history = load(player)
+  const known = claims.filter(({ raceId }) => history.records[raceId])
+  if (known.length === 0) return
+  known.forEach(({ raceId, signature }) => {
+    putRecord(history, {
+      ...history.records[raceId],
+      claimed: true,
+      claimSignature: signature ?? history.records[raceId].claimSignature,
+    })
+  })
+  save(player, history)
+}
+
+/**
+ * Fills in placement signature and time for the newest records whose source
+ * didn't provide them. Runs at most once per PLACEMENT_RUN_INTERVAL_MS per
+ * player, and skips lookups that failed recently. Returns how many records changed.
+ */
+export const resolveBetPlacements = async (player: string, fetchPlacement: FetchBetPlacement): Promise<number> => {
+  const prefix = keyPrefixFor(player)
+  const now = Date.now()
+  if (now - (placementRuns.get(prefix) ?? 0) < PLACEMENT_RUN_INTERVAL_MS) return 0
+
+  const history = load(player)
+  const pending = Object.values(history.records)
+    .filter((record) => record.placedAt === undefined)
+    .filter((record) => now - (placementFailures.get(`${prefix}:${record.raceId}`) ?? 0) >= PLACEMENT_RETRY_MS)
+    .sort((a, b) => b.raceId - a.raceId)
+    .slice(0, PLACEMENTS_PER_SYNC)
+  if (pending.length === 0) return 0
+  placementRuns.set(prefix, now)
+
+  let resolved = 0
+  for (const record of pending) {
+    const response = await fetchPlacement(record.raceId)
+    // Leave it unresolved on failure so a later run tries again
+    if (!response.success || !response.data) {
+      placementFailures.set(`${prefix}:${record.raceId}`, Date.now())
+      continue
+    }
+    placementFailures.delete(`${prefix}:${record.raceId}`)
+    putRecord(history, { ...history.records[record.raceId], ...response.data })
+    resolved++
+  }
+  if (resolved > 0) save(player, history)
+  return resolved
+}
+
+export const isBetHistoryFresh = (player: string): boolean =>
+  Date.now() - load(player).meta.syncedAt < BET_HISTORY_FRESH_MS
+
+// Binary search for the first entry at or after `ts`
+const lowerBound = (byTime: [number, number][], ts: number): number => {
+  let lo = 0
+  let hi = byTime.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (byTime[mid][0] < ts) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+const intersect = (lists: number[][]): number[] => {
+  const [smallest, ...rest] = [...lists].sort((a, b) => a.length - b.length)
+  const sets = rest.map((list) => new Set(list))
+  return smallest.filter((raceId) => sets.every((set) => set.has(raceId)))
+}
+
+const compareBy =
+  (sortBy: BetHistorySort) =>
+  (a: BetHistoryRecord, b: BetHistoryRecord): number => {
+    const byDate = betTimestamp(b) - betTimestamp(a) || b.raceId - a.raceId
+    switch (sortBy) {
+      case 'amount':
+        return b.amount - a.amount || byDate
+      case 'result':
+        return RESULT_RANK[resultOf(a)] - RESULT_RANK[resultOf(b)] || byDate
+      default:
+        return byDate
+    }
+  }
+
+/**
+ * Bets matching every given filter, sorted (newest first by default). Asset,
+ * result, claim and date filters are answered from the indexes; search and
+ * race state are applied to the narrowed set.
+ */
+export const queryBetHistory = (player: string, query: BetHistoryQuery = {}): BetHistoryRecord[] => {
+  const { records, index } = load(player)
+  const candidates: number[][] = []
+
+  if (query.assetIdx !== undefined) candidates.push(index.byAsset[query.assetIdx] ?? [])
+  if (query.result) candidates.push(index.byResult[query.result])
+  if (query.claimed !== undefined) candidates.push(query.claimed ? index.byClaim.claimed : index.byClaim.unclaimed)
+  if (query.from !== undefined || query.to !== undefined) {
+    const start = lowerBound(index.byTime, query.from ?? -Infinity)
+    const end = query.to === undefined ? index.byTime.length : lowerBound(index.byTime, query.to + 1)
+    candidates.push(index.byTime.slice(start, end).map(([, raceId]) => raceId))
+  }
+
+  let matches = candidates.length > 0 ? intersect(candidates).map((raceId) => records[raceId]) : Object.values(records)
+
+  if (query.raceStates) {
+    const states = query.raceStates
+    matches = matches.filter((record) => states.includes(record.raceState))
+  }
+  const search = query.search?.trim().toLowerCase()
+  if (search) {
+    matches = matches.filter(
+      (record) =>
+        record.raceId.toString().includes(search) ||
+        !!query.assetSymbols?.[record.assetIdx]?.toLowerCase().includes(search),
+    )
+  }
+
+  return matches.sort(compareBy(query.sortBy ?? 'date'))
+}
+
+// Groups records by local calendar day, newest day first, keeping each day's records in their given order
+export const groupBetHistoryByDay = (records: BetHistoryRecord[]): BetHistoryDay[] => {
+  const days = new Map<number, BetHistoryRecord[]>()
+  records.forEach((record) => {
+    const dayStart = new Date(betTimestamp(record)).setHours(0, 0, 0, 0)
+    if (!days.has(dayStart)) days.set(dayStart, [])
+    days.get(dayStart)!.push(record)
+  })
+  return Array.from(days, ([dayStart, dayRecords]) => ({ dayStart, records: dayRecords })).sort(
+    (a, b) => b.dayStart - a.dayStart,
+  )
+}
@@ -5,7 +5,8 @@ export const hydrateKey = <T>(key: string, setter: (data: T) => void) => {
     const raw = storage.getString(key)
     if (raw) {
       const data = JSON.parse(raw)
-      setter(data)
+      // null marks a key cleared by an environment switch
+      if (data !== null) setter(data)
     }
   } catch (_) {
     // ignore
@@ -0,0 +1,160 @@
+import { getCurrentEnvironment } from '../services/config'
+import { storage } from './storage'
+
+// Bump whenever a persisted payload changes shape; entries from older versions are dropped on load
+export const CACHE_SCHEMA_VERSION = 1
+
+// Freshness windows. Past these, data is still served but revalidated in the background.
+export const PERSISTED_TTL = {
+  RACE_DETAILS: 5000,
+  SETTLED_RACE: 24 * 60 * 60 * 1000, // settled races never change again
+  GLOBAL_STATS: 60000,
+  LEADERBOARD: 10000,
+}
+
+const SCHEMA_KEY = 'queryCache:schema'
+const KEY_PREFIX = `queryCache:v${CACHE_SCHEMA_VERSION}`
+const INDEX_KEY = `${KEY_PREFIX}:index`
+
+const MAX_ENTRIES = 150
+const MAX_BYTES = 1024 * 1024 // serialized length, a close enough proxy for MMKV footprint
+// Even stale-while-revalidate has limits: week-old data is worse than a spinner
+const MAX_STALE_MS = 7 * 24 * 60 * 60 * 1000
+
+interface PersistedEntry<T> {
+  version: number
+  storedAt: number
+  ttl: number
+  data: T
+}
+
+interface IndexEntry {
+  key: string
+  size: number
+  accessedAt: number
+}
+
+export interface PersistedRead<T> {
+  data: T
+  storedAt: number
+  isStale: boolean
+}
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = storage.getString(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  } catch {
+    return null
+  }
+}
+
+const safeDelete = (key: string) => {
+  try {
+    storage.delete(key)
+  } catch {
+    // ignore
+  }
+}
+
+// Entries written under an older schema are unreadable by definition; sweep them once
+const migrateSchema = () => {
+  try {
+    const stored = Number(storage.getString(SCHEMA_KEY) ?? CACHE_SCHEMA_VERSION)
+    if (stored !== CACHE_SCHEMA_VERSION) {
+      const oldIndexKey = `queryCache:v${stored}:index`
+      readJson<IndexEntry[]>(oldIndexKey)?.forEach((entry) => safeDelete(entry.key))
+      safeDelete(oldIndexKey)
+      console.log(`🧹 Dropped persisted cache from schema v${stored}`)
+    }
+    storage.set(SCHEMA_KEY, String(CACHE_SCHEMA_VERSION))
+  } catch {
+    // ignore
+  }
+}
+
+migrateSchema()
+
+let index: IndexEntry[] = readJson<IndexEntry[]>(INDEX_KEY) ?? []
+
+const saveIndex = () => {
+  try {
+    storage.set(INDEX_KEY, JSON.stringify(index))
+  } catch {
+    // ignore
+  }
+}
+
+// Namespaced per environment so devnet and mainnet data never mix
+const storageKeyFor = (key: string) => `${KEY_PREFIX}:${getCurrentEnvironment()}:${key}`
+
+const dropFromIndex = (storageKey: string) => {
+  index = index.filter((entry) => entry.key !== storageKey)
+}
+
+// Least recently used entries go first until both limits hold
+const evict = () => {
+  let totalBytes = index.reduce((sum, entry) => sum + entry.size, 0)
+  if (index.length <= MAX_ENTRIES && totalBytes <= MAX_BYTES) return
+
+  const byAge = [...index].sort((a, b) => a.accessedAt - b.accessedAt)
+  while (byAge.length > 0 && (byAge.length > MAX_ENTRIES || totalBytes > MAX_BYTES)) {
+    const victim = byAge.shift()!
+    totalBytes -= victim.size
+    safeDelete(victim.key)
+  }
+  index = byAge
+}
+
+/**
+ * Last persisted copy for `key`, fresh or stale. Returns null when missing,
+ * written by another schema version, or too old to be worth showing.
+ */
+export const readPersisted = <T>(key: string): PersistedRead<T> | null => {
+  const storageKey = storageKeyFor(key)
+  const entry = readJson<PersistedEntry<T>>(storageKey)
+  if (!entry) return null
+
+  const age = Date.now() - entry.storedAt
+  if (entry.version !== CACHE_SCHEMA_VERSION || age > MAX_STALE_MS) {
+    safeDelete(storageKey)
+    dropFromIndex(storageKey)
+    saveIndex()
+    return null
+  }
+
+  const indexed = index.find((item) => item.key === storageKey)
+  if (indexed) indexed.accessedAt = Date.now()
+
+  return { data: entry.data, storedAt: entry.storedAt, isStale: age > entry.ttl }
+}
+
+export const writePersisted = <T>(key: string, data: T, ttl: number) => {
+  const storageKey = storageKeyFor(key)
+  const entry: PersistedEntry<T> = { version: CACHE_SCHEMA_VERSION, storedAt: Date.now(), ttl, data }
+  try {
+    const serialized = JSON.stringify(entry)
+    if (serialized.length > MAX_BYTES) return
+    storage.set(storageKey, serialized)
+    dropFromIndex(storageKey)
+    index.push({ key: storageKey, size: serialized.length, accessedAt: entry.storedAt })
+    evict()
+    saveIndex()
+  } catch (error) {
+    console.warn(`⚠️ Failed to persist ${key}:`, error)
+  }
+}
+
+export const removePersisted = (key: string) => {
+  const storageKey = storageKeyFor(key)
+  safeDelete(storageKey)
+  dropFromIndex(storageKey)
+  saveIndex()
+}
+
+// Wipes every environment's entries
+export const clearPersistedCache = () => {
+  index.forEach((entry) => safeDelete(entry.key))
+  index = []
+  saveIndex()
+}
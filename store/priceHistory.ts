@@ -0,0 +1,68 @@
+import type { EnhancedRaceDetails } from '../services/backendTypes'
+import type { PriceUpdatePayload } from '../services/realtimeProtocol'
+
+export interface PriceSample {
+  price: number
+  // Pyth confidence interval in price units, scaled from the race's currentConf; null when the race has none
+  conf: number | null
+  expo: number
+  timestamp: number // ms
+}
+
+// Recent price ticks per symbol, for one race only
+export interface PriceHistory {
+  raceId?: number
+  samples: Record<string, PriceSample[]>
+}
+
+// Both race windows at the backend's ~1 Hz tick rate, with room for bursts
+export const PRICE_HISTORY_CAPACITY = 120
+
+export const emptyPriceHistory = (raceId?: number): PriceHistory => ({ raceId, samples: {} })
+
+// The backend reports ms, older builds and the program report seconds
+const toMillis = (timestamp: number) => (timestamp < 1e12 ? timestamp * 1000 : timestamp)
+
+// currentConf belongs to the race snapshot's price; carry it over as a fraction so it tracks the tick
+const confidenceFor = (race: EnhancedRaceDetails | undefined, symbol: string, price: number): number | null => {
+  const asset = race?.assets?.find((candidate) => candidate.symbol === symbol)
+  if (!asset?.currentConf || !asset.currentPrice) return null
+  return (asset.currentConf / asset.currentPrice) * price
+}
+
+/**
+ * Appends a `price_update` to the buffer of the race it arrived during. A new
+ * race starts a fresh buffer; replayed or out-of-order ticks are dropped, and
+ * each symbol keeps at most PRICE_HISTORY_CAPACITY samples, oldest evicted first.
+ */
+export const appendPriceTicks = (
+  history: PriceHistory,
+  race: EnhancedRaceDetails | undefined,
+  payload: PriceUpdatePayload,
+): PriceHistory => {
+  const raceId = race?.raceId
+  const base = history.raceId === raceId ? history : emptyPriceHistory(raceId)
+  const samples = { ...base.samples }
+  let changed = base !== history
+
+  Object.entries(payload).forEach(([symbol, tick]) => {
+    const timestamp = toMillis(tick.timestamp)
+    const buffer = samples[symbol] ?? []
+    const last = buffer[buffer.length - 1]
+    if (last && timestamp <= last.timestamp) return
+
+    const sample: PriceSample = {
+      price: tick.price,
+      conf: confidenceFor(race, symbol, tick.price),
+      expo: tick.expo,
+      timestamp,
+    }
+    samples[symbol] =
+      buffer.length >= PRICE_HISTORY_CAPACITY
+        ? [...buffer.slice(buffer.length - PRICE_HISTORY_CAPACITY + 1), sample]
+        : [...buffer, sample]
+    changed = true
+  })
+
+  return changed ? { raceId, samples } : history
+}
@@ -7,6 +7,7 @@ const isJSIRuntimeAvailable = typeof global.nativeCallSyncHook === 'function' &&
 export const storage: {
   getString: (key: string) => string | null
   set: (key: string, value: string) => void
+  delete: (key: string) => void
 } = isJSIRuntimeAvailable
   ? new MMKV()
   : {
@@ -18,4 +19,7 @@ export const storage: {
       set(key: string, value: string) {
         this._mem[key] = value
       },
+      delete(key: string) {
+        delete this._mem[key]
+      },
     } as any
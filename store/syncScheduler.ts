@@ -0,0 +1,203 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native'
+
+import { EnhancedRaceDetails, RaceState } from '../services/backendTypes'
+import type { ConnectionQuality } from '../services/realtimeBus'
+import { getCurrentPhase, Phase, useRaceStore } from './useRaceStore'
+
+// How often to hit REST per phase, by how much the socket can be trusted to carry updates
+const POLL_INTERVALS: Record<Phase, Record<ConnectionQuality, number>> = {
+  commit: { live: 15000, degraded: 5000, polling: 3000 },
+  performance: { live: 10000, degraded: 4000, polling: 2000 },
+  settled: { live: 5000, degraded: 3000, polling: 2000 },
+}
+// Once a race is fully settled we're only waiting for the next one to appear
+const NEXT_RACE_POLL_MS = 15000
+// Fetch just after lock/settle so the phase flips on the backend's word, not the device clock
+const BOUNDARY_GRACE_MS = 1000
+
+let running = false
+let appActive = AppState.currentState === 'active'
+let playerAddress: string | undefined
+let timer: ReturnType<typeof setTimeout> | null = null
+let dueAt = 0
+let inFlight = false
+let realtimeRaceId: number | undefined
+
+const isFinalized = (race: EnhancedRaceDetails): boolean =>
+  race.state === RaceState.Settled && race.assets.every((asset) => typeof asset.endPrice === 'number')
+
+const nextDelay = (): number => {
+  const { race, connectionQuality } = useRaceStore.getState()
+  if (!race) return POLL_INTERVALS.commit[connectionQuality]
+
+  const phase = getCurrentPhase(race)
+  if (phase === 'settled' && isFinalized(race)) return NEXT_RACE_POLL_MS
+
+  const interval = POLL_INTERVALS[phase][connectionQuality]
+  const now = Date.now() / 1000
+  const boundary = [race.lockTs, race.settleTs].find((ts) => ts > now)
+  if (boundary === undefined) return interval
+  return Math.min(interval, (boundary - now) * 1000 + BOUNDARY_GRACE_MS)
+}
+
+// Keep the socket subscribed to whatever race is current; no-op while the race id is unchanged
+const ensureRealtime = () => {
+  // Backgrounded there is no socket; foregrounding subscribes afresh
+  if (!appActive) return
+  const { race, subscribeToRace } = useRaceStore.getState()
+  if (!race || race.raceId === realtimeRaceId) return
+  realtimeRaceId = race.raceId
+  // Drops the previous race's subscription before taking the new one
+  subscribeToRace(race.raceId)
+}
+
+// Listeners, the socket and the price feed are set up once per foreground session
+const connectRealtime = () => {
+  const { connectWebSocket, wsService } = useRaceStore.getState()
+  realtimeRaceId = undefined
+  // Subscriptions made before the socket is up are sent once it connects
+  connectWebSocket()
+  wsService.subscribeToPrice()
+  ensureRealtime()
+}
+
+// Tears down the socket and the price feed entirely; nothing realtime runs in the background
+const disconnectRealtime = () => {
+  realtimeRaceId = undefined
+  useRaceStore.getState().disconnectWebSocket()
+}
+
+const syncOnce = async () => {
+  const store = useRaceStore.getState()
+  const { race } = store
+  if (!race) {
+    await store.fetchCommitPhaseData(undefined, playerAddress, false)
+    return
+  }
+
+  switch (getCurrentPhase(race)) {
+    case 'commit':
+      await store.fetchCommitPhaseData(undefined, playerAddress, false)
+      break
+    case 'performance':
+      await Promise.all([
+        store.fetchCurrentRace(false),
+        playerAddress ? store.fetchUserBets(playerAddress, false) : Promise.resolve(),
+      ])
+      break
+    case 'settled':
+      // Poll the settling race until final prices land, then watch for the next race
+      await (isFinalized(race) ? store.fetchCurrentRace(false) : store.fetchRaceDetails(race.raceId, false))
+      break
+  }
+}
+
+const clearTimer = () => {
+  if (timer) {
+    clearTimeout(timer)
+    timer = null
+  }
+}
+
+const schedule = (delay: number = nextDelay()) => {
+  clearTimer()
+  if (!running || !appActive) return
+  dueAt = Date.now() + delay
+  timer = setTimeout(tick, delay)
+}
+
+// Pull the next tick forward if conditions now call for faster polling, never push it back
+const reschedule = () => {
+  if (!timer) return
+  schedule(Math.max(0, Math.min(nextDelay(), dueAt - Date.now())))
+}
+
+async function tick() {
+  timer = null
+  if (inFlight) return
+  inFlight = true
+  try {
+    await syncOnce()
+  } catch (error) {
+    console.warn('⚠️ Sync tick failed:', error)
+  } finally {
+    inFlight = false
+  }
+  ensureRealtime()
+  schedule()
+}
+
+const handleAppStateChange = (nextAppState: AppStateStatus) => {
+  const nextActive = nextAppState === 'active'
+  if (nextActive === appActive) return
+  appActive = nextActive
+
+  if (!appActive) {
+    console.log('📱 App backgrounded, pausing sync and realtime')
+    clearTimer()
+    disconnectRealtime()
+    return
+  }
+
+  console.log('🔄 App foregrounded, resyncing')
+  connectRealtime()
+  tick()
+}
+
+export const setSyncPlayer = (address?: string) => {
+  if (address === playerAddress) return
+  playerAddress = address
+  if (running && appActive) {
+    clearTimer()
+    tick()
+  }
+}
+
+/**
+ * Single owner of REST polling and realtime subscriptions for the racing screens.
+ * Picks the poll rate from the current phase and socket health, fetches right
+ * after phase boundaries, and stops entirely while the app is backgrounded,
+ * socket and price feed included.
+ * Returns a stop function.
+ */
+export const startSyncScheduler = (): (() => void) => {
+  if (running) return () => {}
+  running = true
+  appActive = AppState.currentState === 'active'
+
+  const subscriptions: (() => void)[] = [
+    useRaceStore.subscribe((s) => s.connectionQuality, reschedule),
+    // Switching environment tears the old socket down and installs a new one; reconnect it and refetch
+    useRaceStore.subscribe(
+      (s) => s.wsService,
+      () => {
+        if (!appActive) return
+        console.log('🌐 Data source changed, reconnecting realtime')
+        connectRealtime()
+        clearTimer()
+        tick()
+      },
+    ),
+    useRaceStore.subscribe(
+      (s) => `${s.race?.raceId}:${s.race?.state}`,
+      () => {
+        ensureRealtime()
+        reschedule()
+      },
+    ),
+  ]
+  const appStateSubscription: NativeEventSubscription = AppState.addEventListener('change', handleAppStateChange)
+
+  if (appActive) {
+    connectRealtime()
+    tick()
+  }
+
+  return () => {
+    running = false
+    clearTimer()
+    disconnectRealtime()
+    subscriptions.forEach((unsubscribe) => unsubscribe())
+    appStateSubscription.remove()
+  }
+}
@@ -4,19 +4,87 @@ import { subscribeWithSelector } from 'zustand/middleware'
 import {
   Connection,
   PublicKey,
+  VersionedTransaction,
 } from '@solana/web3.js'
 
-import { ApiService } from '../services/apiService'
 import {
   AssetInfo,
   BetDetails,
   EnhancedRaceDetails,
+  GlobalStats,
+  RaceSentimentSnapshot,
+  RaceServiceResponse,
   RaceState,
+  SentimentVote,
   UserBetSummary,
 } from '../services/backendTypes'
+import {
+  getAssetRegistry,
+  registerAssets,
+  subscribeToAssetRegistry,
+} from '../services/assetRegistry'
+import { ChainRaceReader } from '../services/chainRaceReader'
+import {
+  getCurrentConfig,
+  subscribeToEnvironment,
+} from '../services/config'
 import { OnChainService } from '../services/onchainService'
-import { WebSocketService } from '../services/websocketService'
+import { impliedOdds, poolSharesFor } from '../services/payoutMath'
+import {
+  getPriceSource,
+  subscribeToPriceSource,
+} from '../services/priceSource'
+import {
+  PriceFeed,
+  PythHermesClient,
+  toPriceUpdatePayload,
+} from '../services/pythHermesClient'
+import { describeTransactionError } from '../services/transactionErrors'
+import {
+  sendTransactionBatch,
+  TransactionLifecycleError,
+  TransactionResult,
+} from '../services/transactionLifecycle'
+import {
+  claimSimulatedPayout,
+  createRaceDataSource,
+  RaceApi,
+  RaceRealtime,
+} from '../services/raceDataSource'
+import type { RaceDataSourceKind } from '../services/backendConfig'
+import type { ConnectionQuality } from '../services/realtimeBus'
+import {
+  LeaderboardEntry,
+  LivePriceUpdate,
+  PriceUpdatePayload,
+  RaceProtocolEvent,
+  RaceUpdatePayload,
+} from '../services/realtimeProtocol'
+import {
+  applySentimentVote,
+  buildSentimentVoteMessage,
+  emptySentiment,
+  encodeMessageSignature,
+} from '../services/sentimentVotes'
+import {
+  importBetHistory,
+  isBetHistoryFresh,
+  markBetsClaimed,
+  queryBetHistory,
+  resolveBetPlacements,
+  syncBetHistory,
+} from './betHistory'
 import { persistKey } from './hydration'
+import {
+  appendPriceTicks,
+  emptyPriceHistory,
+  PriceHistory,
+} from './priceHistory'
+import {
+  PERSISTED_TTL,
+  readPersisted,
+  writePersisted,
+} from './persistentCache'
 
 // Cache interface for intelligent data management
 interface CacheEntry<T> {
@@ -29,6 +97,45 @@ interface RequestTracker {
   [key: string]: Promise<any>
 }
 
+// Per-race result of a batched claim
+export interface ClaimOutcome {
+  raceId: number
+  success: boolean
+  signature?: string | null
+  error?: string
+  // The claim never reached the chain because of an RPC failure; trying again may work
+  retryable?: boolean
+}
+
+// Where the race/bet data currently on screen came from
+export type DataSource = 'api' | 'chain'
+
+// Pari-mutuel prices at one moment of a race; a new one is kept whenever a bet moves the pools
+export interface OddsSnapshot {
+  raceId: number
+  timestamp: number // ms
+  odds: number[] // payout multiple per asset if it wins alone, 0 while unbacked
+  poolShares: number[] // each asset's fraction of the total pool
+}
+
+// Try the backend first; if it errors, read the same shapes directly from chain
+const withChainFallback = async <T>(
+  label: string,
+  fromApi: () => Promise<RaceServiceResponse<T>>,
+  fromChain: () => Promise<RaceServiceResponse<T>>,
+): Promise<{ response: RaceServiceResponse<T>; source: DataSource }> => {
+  try {
+    const response = await fromApi()
+    if (response.success && response.data) {
+      return { response, source: 'api' }
+    }
+    console.warn(`⚠️ API ${label} failed (${response.error}), falling back to chain`)
+  } catch (error) {
+    console.warn(`⚠️ API ${label} threw, falling back to chain:`, error)
+  }
+  return { response: await fromChain(), source: 'chain' }
+}
+
 // Enhanced store interface using v2 contract types
 interface RaceStore {
   // Current race data
@@ -36,27 +143,40 @@ interface RaceStore {
   userBet?: BetDetails
   odds?: number[]
   previousOdds?: number[]
-  oddsHistory: Array<{ timestamp: number; odds: number[] }>
+  oddsHistory: OddsSnapshot[] // current race only, oldest first
   
   // Asset data
   assetInfo?: AssetInfo[]
   
   // User data
   userBets?: UserBetSummary[]
+
+  // Aggregates (persisted across restarts, see persistentCache)
+  globalStats?: GlobalStats
+  raceLeaderboards: Record<number, LeaderboardEntry[]>
   
   // Real-time data
-  liveRaceData?: any
-  priceUpdates: Map<string, any>
+  liveRaceData?: RaceUpdatePayload
+  priceUpdates: Map<string, LivePriceUpdate>
+  // Bounded tick history per symbol for the current race, see priceHistory
+  priceHistory: PriceHistory
+  lastRaceEvent?: RaceProtocolEvent
+  // Crowd sentiment for the current race, with the connected wallet's own votes
+  raceSentiment?: RaceSentimentSnapshot
   
   // UI state
   isLoading: boolean
   error?: string
   isConnected: boolean
+  connectionQuality: ConnectionQuality
   lastSubscribedRaceId?: number
+  dataSource: DataSource
   
-  // Service instances
-  apiService: ApiService
-  wsService: WebSocketService
+  // Service instances (hosted backend or local simulator, see createRaceDataSource)
+  dataSourceKind: RaceDataSourceKind
+  apiService: RaceApi
+  wsService: RaceRealtime
+  chainReader: ChainRaceReader
   onChainService?: OnChainService
   
   // Cache management
@@ -67,30 +187,48 @@ interface RaceStore {
   // Actions
   setRace: (race: EnhancedRaceDetails) => void
   setUserBet: (bet: BetDetails) => void
-  setOdds: (odds: number[]) => void
+  setOdds: (odds: number[], poolShares?: number[]) => void
   setAssetInfo: (info: AssetInfo[]) => void
   setUserBets: (bets: UserBetSummary[]) => void
   
   // Real-time methods
   connectWebSocket: () => Promise<void>
   disconnectWebSocket: () => void
+  // Applies a validated price_update, from the backend or the direct Pyth feed
+  ingestPrices: (data: PriceUpdatePayload) => void
   subscribeToRace: (raceId: number) => void
   forceReconnectWebSocket: () => Promise<void>
+  backfillRace: (raceId: number) => Promise<void>
   
   // Enhanced service methods with caching
   fetchCurrentRace: (useCache?: boolean) => Promise<void>
   fetchRaceDetails: (raceId: number, useCache?: boolean) => Promise<void>
   fetchUserBets: (playerAddress: string, useCache?: boolean) => Promise<void>
   fetchAssets: (useCache?: boolean) => Promise<void>
+  fetchGlobalStats: (useCache?: boolean) => Promise<GlobalStats | undefined>
+  fetchRaceLeaderboard: (raceId: number, useCache?: boolean) => Promise<LeaderboardEntry[] | undefined>
+  fetchRaceSentiment: (raceId: number, playerAddress?: string) => Promise<void>
   
   // Phase-specific data fetching methods
   fetchCommitPhaseData: (raceId?: number, playerAddress?: string, useCache?: boolean) => Promise<void>
   fetchPerformancePhaseData: (raceId?: number, playerAddress?: string, useCache?: boolean) => Promise<void>
   fetchSettledPhaseData: (raceId?: number, playerAddress?: string, useCache?: boolean) => Promise<void>
   
-  // Transaction methods
-  placeBet: (playerAddress: string, raceId: number, assetIdx: number, amount: number, connection: Connection, signAndSendTransaction: any) => Promise<boolean>
-  claimPayout: (playerAddress: string, raceId: number, connection: Connection, signAndSendTransaction: any) => Promise<boolean>
+  // Batched claims for the account screen; single bets and claims go through usePlaceBet/useClaimPayout
+  claimPayouts: (
+    playerAddress: string,
+    raceIds: number[],
+    connection: Connection,
+    signAllTransactions: (transactions: VersionedTransaction[]) => Promise<VersionedTransaction[]>,
+  ) => Promise<ClaimOutcome[]>
+  // Signs the vote with the wallet; null retracts the player's vote on that asset
+  castSentimentVote: (
+    playerAddress: string,
+    raceId: number,
+    assetIdx: number,
+    vote: SentimentVote | null,
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>,
+  ) => Promise<boolean>
   
   // Cache management methods
   getCachedData: <T>(key: string) => T | null
@@ -102,6 +240,7 @@ interface RaceStore {
   setLoading: (loading: boolean) => void
   setError: (error?: string) => void
   clear: () => void
+  resetForEnvironment: () => void
 }
 
 // Cache TTL constants (in milliseconds) - Optimized based on backend metrics (<50ms response times)
@@ -114,6 +253,120 @@ const CACHE_TTL = {
   CURRENT_RACE: 3000,      // 3 seconds for current race (faster race transitions)
 }
 
+const dataSource = createRaceDataSource()
+
+const persistedRaceTtl = (race: EnhancedRaceDetails) =>
+  race.state === RaceState.Settled ? PERSISTED_TTL.SETTLED_RACE : PERSISTED_TTL.RACE_DETAILS
+
+// Disposers for the store's own realtime listeners, so reconnecting doesn't stack duplicates
+let realtimeDisposers: (() => void)[] = []
+
+// Direct Pyth feed, running alongside the realtime listeners whenever the price source setting asks for it
+let priceFeed: PriceFeed | null = null
+let priceFeedDisposer: (() => void) | null = null
+
+const stopPriceFeed = () => {
+  priceFeedDisposer?.()
+  priceFeedDisposer = null
+  priceFeed?.stop()
+  priceFeed = null
+}
+
+const startPriceFeed = () => {
+  stopPriceFeed()
+  if (getPriceSource() !== 'pyth') return
+  const feed = new PythHermesClient()
+  priceFeedDisposer = feed.onPrices((prices) => useRaceStore.getState().ingestPrices(toPriceUpdatePayload(prices)))
+  feed.start(getAssetRegistry().map(({ index, symbol, feedId }) => ({ index, symbol, feedId })))
+  priceFeed = feed
+}
+
+// Each claim is its own request to the simulator, so each race succeeds or fails alone
+const claimSimulatedPayouts = async (api: RaceApi, playerAddress: string, raceIds: number[]): Promise<ClaimOutcome[]> => {
+  const results = await Promise.allSettled(
+    raceIds.map((raceId) => claimSimulatedPayout(api, { playerAddress, raceId })),
+  )
+  console.log(`💰 Claimed ${raceIds.length} payout(s) with the simulator`)
+  return raceIds.map((raceId, i) => {
+    const result = results[i]
+    return result.status === 'fulfilled'
+      ? { raceId, success: true, signature: null }
+      : { raceId, success: false, error: describeTransactionError(result.reason, 'claim_payout').message }
+  })
+}
+
+const claimPayoutsOnChain = async (
+  connection: Connection,
+  playerAddress: string,
+  raceIds: number[],
+  signAllTransactions: (transactions: VersionedTransaction[]) => Promise<VersionedTransaction[]>,
+): Promise<ClaimOutcome[]> => {
+  const onChainService = new OnChainService(connection)
+  const player = new PublicKey(playerAddress)
+  const { batches, skipped } = await onChainService.planClaimPayoutBatches(player, raceIds)
+  console.log(`💰 Claiming ${raceIds.length - skipped.length} payout(s) in ${batches.length} transaction(s)`)
+
+  const sendBatches = (groups: number[][]) =>
+    sendTransactionBatch(
+      connection,
+      groups.map((batch) => ({
+        kind: 'claim_payout' as const,
+        key: batch.join(','),
+        build: () => onChainService.createBatchClaimPayoutTransaction({ playerPublicKey: player, raceIds: batch }),
+        // One transaction is all-or-nothing, so it has landed once every race in it is claimed
+        isLanded: async () => {
+          const claimability = await onChainService.checkBetsClaimability(player, batch)
+          return claimability.every((entry) => entry.claimed)
+        },
+      })),
+      signAllTransactions,
+    )
+
+  const outcomes = new Map<number, ClaimOutcome>(
+    skipped.map(({ raceId, reason, retryable }) => [raceId, { raceId, success: false, error: reason, retryable }]),
+  )
+  const record = (batch: number[], result: PromiseSettledResult<TransactionResult>) =>
+    batch.forEach((raceId) =>
+      outcomes.set(
+        raceId,
+        result.status === 'fulfilled'
+          ? { raceId, success: true, signature: result.value.signature }
+          : { raceId, success: false, error: describeTransactionError(result.reason, 'claim_payout').message },
+      ),
+    )
+
+  // A batch that fails simulation was never signed; claim its races one by one so a single bad race fails alone
+  const isolate: number[][] = []
+  const results = await sendBatches(batches)
+  batches.forEach((batch, i) => {
+    const result = results[i]
+    const rejectedInSimulation =
+      result.status === 'rejected' && result.reason instanceof TransactionLifecycleError && result.reason.simulated
+    if (batch.length > 1 && rejectedInSimulation) isolate.push(...batch.map((raceId) => [raceId]))
+    else record(batch, result)
+  })
+  if (isolate.length > 0) {
+    console.log(`🔁 Retrying ${isolate.length} claim(s) one per transaction after a batch failed simulation`)
+    const retried = await sendBatches(isolate)
+    isolate.forEach((batch, i) => record(batch, retried[i]))
+  }
+
+  return raceIds.map((raceId) => outcomes.get(raceId)!)
+}
+
+const disposeRealtimeListeners = () => {
+  realtimeDisposers.forEach((dispose) => dispose())
+  realtimeDisposers = []
+}
+
+// Enough for a busy commit window; older points are thinned from the front
+const MAX_ODDS_HISTORY = 240
+
+const sameSeries = (a: number[], b: number[]) => a.length === b.length && a.every((value, i) => value === b[i])
+
+const createChainReader = () =>
+  new ChainRaceReader(new Connection(getCurrentConfig().rpcEndpoint, 'confirmed'))
+
 export const useRaceStore = create<RaceStore>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
@@ -124,13 +377,22 @@ export const useRaceStore = create<RaceStore>()(
     oddsHistory: [],
     assetInfo: undefined,
     userBets: undefined,
+    globalStats: undefined,
+    raceLeaderboards: {},
     liveRaceData: undefined,
     priceUpdates: new Map(),
+    priceHistory: emptyPriceHistory(),
+    lastRaceEvent: undefined,
+    raceSentiment: undefined,
     isLoading: false,
     error: undefined,
     isConnected: false,
-    apiService: new ApiService(),
-    wsService: new WebSocketService(),
+    connectionQuality: 'polling',
+    dataSource: 'api',
+    dataSourceKind: dataSource.kind,
+    apiService: dataSource.api,
+    wsService: dataSource.realtime,
+    chainReader: createChainReader(),
     cache: new Map(),
     pendingRequests: {},
     lastSubscribedRaceId: undefined,
@@ -204,23 +466,29 @@ export const useRaceStore = create<RaceStore>()(
       })
     },
     
-    setOdds: (odds: number[]) => set((state) => {
-      const currentTime = Date.now()
-      const newOddsHistory = [...state.oddsHistory]
-      
-      // Add current odds to history (keep last 10 entries)
-      if (odds && odds.length > 0) {
-        newOddsHistory.push({ timestamp: currentTime, odds: [...odds] })
-        if (newOddsHistory.length > 10) {
-          newOddsHistory.shift()
-        }
-      }
-      
-      return { 
-        ...state, 
-        previousOdds: state.odds ? [...state.odds] : undefined,
+    setOdds: (odds: number[], poolShares?: number[]) => set((state) => {
+      const raceId = state.race?.raceId
+      if (raceId === undefined || odds.length === 0) return state
+
+      // Trends and history only make sense within one race
+      const history = state.oddsHistory.filter((snapshot) => snapshot.raceId === raceId)
+      const last = history[history.length - 1]
+      // Race updates repeat the same pools between bets; only a change is a new point
+      if (last && sameSeries(last.odds, odds)) return state
+
+      history.push({
+        raceId,
+        timestamp: Date.now(),
         odds: [...odds],
-        oddsHistory: newOddsHistory
+        poolShares: poolShares ?? poolSharesFor(state.race?.assetPools ?? []),
+      })
+      if (history.length > MAX_ODDS_HISTORY) history.shift()
+
+      return {
+        ...state,
+        previousOdds: last ? [...last.odds] : undefined,
+        odds: [...odds],
+        oddsHistory: history,
       }
     }),
 
@@ -232,47 +500,60 @@ export const useRaceStore = create<RaceStore>()(
 
     // Real-time methods
     connectWebSocket: async () => {
+      const { wsService } = get()
       try {
-        const { wsService } = get()
-        await wsService.connect()
-        
-        // Set up event handlers
-        wsService.onRaceUpdate((data) => {
-          if (data.race) {
-            get().setRace(data.race)
-          }
-          // Store the full race data including leaderboard for performance calculations
-          set({ liveRaceData: data })
-        })
-        
-        wsService.onPriceUpdate((data) => {
-          set((state) => {
-            const newPriceUpdates = new Map(state.priceUpdates)
-            // Backend sends all prices in one object: { BTC: {...}, ETH: {...}, SOL: {...} }
-            if (typeof data === 'object' && data !== null) {
-              Object.entries(data).forEach(([symbol, priceData]: [string, any]) => {
-                if (priceData && typeof priceData === 'object') {
-                  newPriceUpdates.set(symbol, {
-                    symbol,
-                    price: priceData.price,
-                    confidence: priceData.confidence || 100,
-                    timestamp: priceData.timestamp,
-                    expo: priceData.expo
-                  })
-                }
-              })
+        // Set up event handlers before connecting so a failed first attempt still reports reconnects
+        // Payloads are validated by the realtime layer before they reach these handlers
+        disposeRealtimeListeners()
+        realtimeDisposers = [
+          wsService.onConnectionChange(({ quality, resumedAfterGap }) => {
+            set({ connectionQuality: quality, isConnected: wsService.connectionStatus.isConnected })
+            // Updates were missed while the feed was down; pull the race back in sync over REST
+            const { lastSubscribedRaceId } = get()
+            if (resumedAfterGap && lastSubscribedRaceId) {
+              get().backfillRace(lastSubscribedRaceId)
             }
-            return { ...state, priceUpdates: newPriceUpdates }
-          })
-        })
-        
-        wsService.onUserBetUpdate((data) => {
-          if (data.bet) {
+          }),
+
+          wsService.onRaceUpdate((data) => {
+            get().setRace(data.race)
+            // Store the full race data including leaderboard for performance calculations
+            set({ liveRaceData: data })
+          }),
+
+          wsService.onPriceUpdate((data) => {
+            // The socket keeps sending prices either way; only one source feeds the store
+            if (getPriceSource() === 'backend') get().ingestPrices(data)
+          }),
+
+          wsService.onUserBetUpdate((data) => {
             get().setUserBet(data.bet)
-          }
-        })
-        
-        set({ isConnected: true })
+          }),
+
+          wsService.onRaceEvent((raceEvent) => {
+            // State transitions and settlement change what the phase fetchers should return
+            if (raceEvent.type === 'race_state_changed' || raceEvent.type === 'race_settled') {
+              get().cache.delete(`race_${raceEvent.event.raceId}`)
+              get().cache.delete('currentRace')
+            }
+            set({ lastRaceEvent: raceEvent })
+          }),
+
+          wsService.onSentimentUpdate((sentiment) => {
+            set((state) => {
+              if (state.race?.raceId !== sentiment.raceId) return state
+              // Tallies are public; the player's own votes only change through castSentimentVote
+              const playerVotes =
+                state.raceSentiment?.raceId === sentiment.raceId ? state.raceSentiment.playerVotes : undefined
+              return { ...state, raceSentiment: { ...sentiment, playerVotes } }
+            })
+          }),
+        ]
+
+        startPriceFeed()
+        await wsService.connect()
+        // connect() resolves early while an existing socket is still retrying
+        set({ isConnected: wsService.connectionStatus.isConnected })
       } catch (error) {
         console.error('❌ Failed to connect WebSocket:', error)
         set({ 
@@ -283,14 +564,35 @@ export const useRaceStore = create<RaceStore>()(
     },
 
     disconnectWebSocket: () => {
-      const { wsService } = get()
+      const { wsService, lastSubscribedRaceId } = get()
+      // Release only the store's own reference; other listeners keep theirs
+      if (lastSubscribedRaceId) {
+        wsService.unsubscribeFromRace(lastSubscribedRaceId)
+      }
+      disposeRealtimeListeners()
+      stopPriceFeed()
       wsService.disconnect()
-      set({ isConnected: false })
+      set({ isConnected: false, lastSubscribedRaceId: undefined })
+    },
+
+    ingestPrices: (data: PriceUpdatePayload) => {
+      set((state) => {
+        const newPriceUpdates = new Map(state.priceUpdates)
+        // Backend sends all prices in one object: { BTC: {...}, ETH: {...}, SOL: {...} }
+        Object.entries(data).forEach(([symbol, tick]) => {
+          newPriceUpdates.set(symbol, { symbol, ...tick })
+        })
+        return {
+          ...state,
+          priceUpdates: newPriceUpdates,
+          priceHistory: appendPriceTicks(state.priceHistory, state.race, data),
+        }
+      })
     },
 
     subscribeToRace: (raceId: number) => {
-      const { wsService, isConnected, lastSubscribedRaceId } = get()
-      if (!isConnected) return
+      // Subscriptions made while offline are sent once the socket (re)connects
+      const { wsService, lastSubscribedRaceId } = get()
       // Avoid redundant subscriptions and state updates
       if (lastSubscribedRaceId === raceId) return
 
@@ -309,6 +611,24 @@ export const useRaceStore = create<RaceStore>()(
       await wsService.forceReconnect()
     },
 
+    backfillRace: async (raceId: number) => {
+      const { apiService, userBet } = get()
+      console.log(`🔄 Backfilling race ${raceId} after realtime gap`)
+      try {
+        const response = await apiService.getCompleteRaceInfo(raceId, userBet?.player?.toString())
+        if (!response.success || !response.data) {
+          console.warn(`⚠️ Gap backfill for race ${raceId} failed:`, response.error)
+          return
+        }
+        const { race, userBet: bet, odds } = response.data
+        get().setRace(race)
+        if (odds) get().setOdds(odds)
+        if (bet) get().setUserBet(bet)
+      } catch (error) {
+        console.warn(`⚠️ Gap backfill for race ${raceId} threw:`, error)
+      }
+    },
+
     // Enhanced service methods with intelligent caching and request deduplication
     fetchCurrentRace: async (useCache: boolean = true) => {
       const cacheKey = 'currentRace'
@@ -329,17 +649,21 @@ export const useRaceStore = create<RaceStore>()(
         }
       }
 
-      const { apiService, setLoading, setError } = get()
+      const { apiService, chainReader, setLoading, setError } = get()
       
       const request = (async () => {
         setLoading(true)
         setError(undefined)
 
         try {
-          const response = await apiService.getCurrentRace()
+          const { response, source } = await withChainFallback(
+            'current race',
+            () => apiService.getCurrentRace(),
+            () => chainReader.getCurrentRace(),
+          )
           
           if (response.success && response.data) {
-            set({ race: response.data })
+            set({ race: response.data, dataSource: source })
             get().setCachedData(cacheKey, response.data, CACHE_TTL.CURRENT_RACE)
           } else {
             setError(response.error || 'Failed to fetch current race')
@@ -376,18 +700,31 @@ export const useRaceStore = create<RaceStore>()(
         }
       }
 
-      const { apiService, setLoading, setError } = get()
+      // A copy persisted by an earlier session renders instantly; only a stale one goes to the network
+      const persisted = useCache ? readPersisted<EnhancedRaceDetails>(cacheKey) : null
+      if (persisted) {
+        set({ race: persisted.data })
+        if (!persisted.isStale) return
+      }
+
+      const { apiService, chainReader, setLoading, setError } = get()
       
       const request = (async () => {
-        setLoading(true)
+        // Revalidating behind persisted data shouldn't flash a spinner
+        if (!persisted) setLoading(true)
         setError(undefined)
 
         try {
-          const response = await apiService.getRace(raceId)
+          const { response, source } = await withChainFallback(
+            `race ${raceId}`,
+            () => apiService.getRace(raceId),
+            () => chainReader.getRace(raceId),
+          )
           
           if (response.success && response.data) {
-            set({ race: response.data })
+            set({ race: response.data, dataSource: source })
             get().setCachedData(cacheKey, response.data, CACHE_TTL.RACE_DETAILS)
+            writePersisted(cacheKey, response.data, persistedRaceTtl(response.data))
           } else {
             setError(response.error || 'Failed to fetch race details')
           }
@@ -423,25 +760,54 @@ export const useRaceStore = create<RaceStore>()(
         }
       }
 
-      const { apiService, setLoading, setError } = get()
+      // The local history serves instantly; syncing only pulls races newer than the last sync
+      const local = queryBetHistory(playerAddress)
+      if (local.length > 0) {
+        set({ userBets: local })
+        if (useCache && isBetHistoryFresh(playerAddress)) return
+      }
+
+      const { apiService, chainReader, setLoading, setError } = get()
       
       const request = (async () => {
-        setLoading(true)
+        if (local.length === 0) setLoading(true)
         setError(undefined)
 
         try {
-          // Pass forceRefresh=true when not using cache
-          const response = await apiService.getUserBets(playerAddress, !useCache)
-          
-          if (response.success && response.data) {
-            set({ userBets: response.data })
-            get().setCachedData(cacheKey, response.data, CACHE_TTL.USER_BETS)
-          } else {
-            // Don't set error for missing bets - it's expected if user hasn't bet yet
-            if (response.error && !response.error.includes('not found')) {
-              setError(response.error)
+          let source: DataSource = 'api'
+          const synced = await syncBetHistory(playerAddress, (query) =>
+            apiService.getUserBetsPage(playerAddress, { ...query, force: !useCache }),
+          )
+          if (!synced.success) {
+            console.warn(`⚠️ API bet history sync failed (${synced.error}), falling back to the bets list`)
+            const listed = await apiService.getUserBets(playerAddress, !useCache)
+            if (listed.success && listed.data) {
+              importBetHistory(playerAddress, listed.data)
+            } else if (!isBetHistoryFresh(playerAddress)) {
+              // A chain read scans every bet account, so it's spaced out like a fresh sync
+              console.warn(`⚠️ API bets list failed (${listed.error}), falling back to chain`)
+              const response = await chainReader.getUserBets(playerAddress)
+              if (response.success && response.data) {
+                importBetHistory(playerAddress, response.data)
+                source = 'chain'
+              } else if (response.error && !response.error.includes('not found')) {
+                // Don't set error for missing bets - it's expected if user hasn't bet yet
+                setError(response.error)
+                return
+              }
             }
           }
+
+          const bets = queryBetHistory(playerAddress)
+          set({ userBets: bets, dataSource: source })
+          get().setCachedData(cacheKey, bets, CACHE_TTL.USER_BETS)
+
+          // Placement signatures come from chain one bet at a time; fill them in without holding up the list
+          resolveBetPlacements(playerAddress, (raceId) => chainReader.getBetPlacement(raceId, playerAddress))
+            .then((resolved) => {
+              if (resolved > 0) set({ userBets: queryBetHistory(playerAddress) })
+            })
+            .catch((error) => console.warn('⚠️ Failed to resolve bet placements:', error))
         } catch (error) {
           console.error('Failed to fetch user bets:', error)
           setError(error instanceof Error ? error.message : 'Failed to fetch user bets')
@@ -485,6 +851,7 @@ export const useRaceStore = create<RaceStore>()(
           
           if (response.success && response.data) {
             set({ assetInfo: response.data })
+            registerAssets(response.data)
             get().setCachedData(cacheKey, response.data, CACHE_TTL.ASSET_INFO)
           } else {
             setError(response.error || 'Failed to fetch asset info')
@@ -502,6 +869,93 @@ export const useRaceStore = create<RaceStore>()(
       return request
     },
 
+    fetchGlobalStats: async (useCache: boolean = true) => {
+      const cacheKey = 'globalStats'
+      const existingRequest = get().pendingRequests[cacheKey]
+      if (existingRequest) {
+        return existingRequest
+      }
+
+      // Serve whatever the last session saw, then refresh it unless it's still fresh
+      const persisted = useCache ? readPersisted<GlobalStats>(cacheKey) : null
+      if (persisted) {
+        set({ globalStats: persisted.data })
+        if (!persisted.isStale) return persisted.data
+      }
+
+      const request = (async () => {
+        try {
+          const response = await get().apiService.getGlobalStats()
+          if (response.success && response.data) {
+            set({ globalStats: response.data })
+            writePersisted(cacheKey, response.data, PERSISTED_TTL.GLOBAL_STATS)
+            return response.data
+          }
+          console.warn('⚠️ Failed to fetch global stats:', response.error)
+        } catch (error) {
+          console.warn('⚠️ Failed to fetch global stats:', error)
+        } finally {
+          delete get().pendingRequests[cacheKey]
+        }
+        return persisted?.data
+      })()
+
+      get().pendingRequests[cacheKey] = request
+      return request
+    },
+
+    fetchRaceLeaderboard: async (raceId: number, useCache: boolean = true) => {
+      const cacheKey = `leaderboard_${raceId}`
+      const existingRequest = get().pendingRequests[cacheKey]
+      if (existingRequest) {
+        return existingRequest
+      }
+
+      const setLeaderboard = (leaderboard: LeaderboardEntry[]) =>
+        set((state) => ({ raceLeaderboards: { ...state.raceLeaderboards, [raceId]: leaderboard } }))
+
+      const persisted = useCache ? readPersisted<LeaderboardEntry[]>(cacheKey) : null
+      if (persisted) {
+        setLeaderboard(persisted.data)
+        if (!persisted.isStale) return persisted.data
+      }
+
+      const request = (async () => {
+        try {
+          const response = await get().apiService.getRaceLeaderboard(raceId)
+          if (response.success && Array.isArray(response.data)) {
+            setLeaderboard(response.data)
+            // Final standings don't move once the race is settled
+            const settled = get().race?.raceId === raceId && get().race?.state === RaceState.Settled
+            writePersisted(cacheKey, response.data, settled ? PERSISTED_TTL.SETTLED_RACE : PERSISTED_TTL.LEADERBOARD)
+            return response.data
+          }
+          console.warn(`⚠️ Failed to fetch leaderboard for race ${raceId}:`, response.error)
+        } catch (error) {
+          console.warn(`⚠️ Failed to fetch leaderboard for race ${raceId}:`, error)
+        } finally {
+          delete get().pendingRequests[cacheKey]
+        }
+        return persisted?.data
+      })()
+
+      get().pendingRequests[cacheKey] = request
+      return request
+    },
+
+    fetchRaceSentiment: async (raceId: number, playerAddress?: string) => {
+      try {
+        const response = await get().apiService.getRaceSentiment(raceId, playerAddress)
+        if (response.success && response.data) {
+          set({ raceSentiment: response.data })
+        } else {
+          console.warn(`⚠️ Failed to fetch sentiment for race ${raceId}:`, response.error)
+        }
+      } catch (error) {
+        console.warn(`⚠️ Failed to fetch sentiment for race ${raceId}:`, error)
+      }
+    },
+
     // Phase-specific data fetching methods for optimized performance
     fetchCommitPhaseData: async (raceId?: number, playerAddress?: string, useCache: boolean = true) => {
       const cacheKey = `commit_${raceId || 'current'}_${playerAddress || 'anonymous'}`
@@ -703,112 +1157,78 @@ export const useRaceStore = create<RaceStore>()(
     },
 
     // Transaction methods
-    placeBet: async (playerAddress: string, raceId: number, assetIdx: number, amount: number, connection: Connection, signAndSendTransaction: any): Promise<boolean> => {
+    claimPayouts: async (playerAddress, raceIds, connection, signAllTransactions): Promise<ClaimOutcome[]> => {
       const { setLoading, setError } = get()
       setLoading(true)
       setError(undefined)
 
       try {
-        console.log(`🎯 Placing bet: ${amount} micro-USDC on asset ${assetIdx} for race ${raceId}`)
-        
-        // Create on-chain service instance
-        const onChainService = new OnChainService(connection)
-        
-        // Create place bet transaction
-        const { transaction, latestBlockhash, minContextSlot } = await onChainService.createPlaceBetTransaction({
-          playerPublicKey: new PublicKey(playerAddress),
-          raceId,
-          assetIdx,
-          amount,
+        const outcomes =
+          get().dataSourceKind === 'mock'
+            ? await claimSimulatedPayouts(get().apiService, playerAddress, raceIds)
+            : await claimPayoutsOnChain(connection, playerAddress, raceIds, signAllTransactions)
+
+        get().cache.delete(`userBets_${playerAddress}`)
+        markBetsClaimed(
+          playerAddress,
+          outcomes.filter((outcome) => outcome.success),
+        )
+        outcomes.forEach(({ raceId }) => {
+          get().cache.delete(`race_${raceId}`)
+          get().cache.delete(`settled_${raceId}_${playerAddress}`)
         })
-        
-        // Send transaction via wallet
-        const signature = await signAndSendTransaction(transaction, minContextSlot)
-        
-        // Confirm transaction
-        await connection.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed')
-        
-        console.log('✅ Bet placed successfully, signature:', signature)
-        
-        // Clear relevant cache entries
-        const raceKey = `race_${raceId}`
-        const userBetsKey = `userBets_${playerAddress}`
-        const commitKey = `commit_${raceId}_${playerAddress}`
-        
-        get().cache.delete(raceKey)
-        get().cache.delete(userBetsKey)
-        get().cache.delete(commitKey)
-        
-        // Wait for blockchain to process
-        await new Promise(resolve => setTimeout(resolve, 2000))
-        
-        // Refresh data
-        await get().fetchCurrentRace(false)
         await get().fetchUserBets(playerAddress, false)
-        
-        return true
+
+        return outcomes
       } catch (error) {
-        console.error('Failed to place bet:', error)
-        setError(error instanceof Error ? error.message : 'Failed to place bet')
-        return false
+        console.error('Failed to claim payouts:', error)
+        const message = describeTransactionError(error, 'claim_payout').message
+        setError(message)
+        return raceIds.map((raceId) => ({ raceId, success: false, error: message }))
       } finally {
         setLoading(false)
       }
     },
 
-    claimPayout: async (playerAddress: string, raceId: number, connection: Connection, signAndSendTransaction: any): Promise<boolean> => {
-      const { setLoading, setError } = get()
-      setLoading(true)
-      setError(undefined)
+    castSentimentVote: async (playerAddress, raceId, assetIdx, vote, signMessage) => {
+      const before = get().raceSentiment
+      const current =
+        before?.raceId === raceId ? before : { ...emptySentiment(raceId, get().race?.assets.length ?? 0), playerVotes: {} }
+      const previousVote = current.playerVotes?.[assetIdx] ?? null
+      if (previousVote === vote) return true
 
       try {
-        console.log(`💰 Claiming payout for race ${raceId}`)
-        
-        // Create on-chain service instance
-        const onChainService = new OnChainService(connection)
-        
-        // Create claim payout transaction
-        const { transaction, latestBlockhash, minContextSlot } = await onChainService.createClaimPayoutTransaction({
-          playerPublicKey: new PublicKey(playerAddress),
+        const timestamp = Date.now()
+        const message = buildSentimentVoteMessage({ playerAddress, raceId, assetIdx, vote, timestamp })
+        const signature = encodeMessageSignature(await signMessage(Buffer.from(message, 'utf8')))
+
+        // Show the vote straight away; the response (and the next sentiment_update) carries the real tallies
+        const playerVotes = { ...current.playerVotes }
+        if (vote) playerVotes[assetIdx] = vote
+        else delete playerVotes[assetIdx]
+        set({ raceSentiment: { ...applySentimentVote(current, assetIdx, previousVote, vote), playerVotes } })
+
+        const response = await get().apiService.castSentimentVote({
+          playerAddress,
           raceId,
+          assetIdx,
+          vote,
+          timestamp,
+          signature,
         })
-        
-        // Send transaction via wallet
-        const signature = await signAndSendTransaction(transaction, minContextSlot)
-        
-        // Confirm transaction
-        await connection.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed')
-        
-        console.log('✅ Payout claimed successfully, signature:', signature)
-        
-        // Clear relevant cache entries
-        const raceKey = `race_${raceId}`
-        const userBetsKey = `userBets_${playerAddress}`
-        const settledKey = `settled_${raceId}_${playerAddress}`
-        
-        get().cache.delete(raceKey)
-        get().cache.delete(userBetsKey)
-        get().cache.delete(settledKey)
-        
-        // Wait minimal time for blockchain to process - backend metrics show fast responses
-        await new Promise(resolve => setTimeout(resolve, 500))
-        
-        // Refresh data with force refresh (useCache=false)
-        console.log(`🔄 Force refreshing data after claim for race ${raceId}...`)
-        await Promise.all([
-          get().fetchRaceDetails(raceId, false), // useCache=false
-          get().fetchUserBets(playerAddress, false) // useCache=false
-        ])
-        
-        console.log(`✅ Data force refreshed after claim`)
-        
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Vote was not accepted')
+        }
+        if (get().raceSentiment?.raceId === raceId) {
+          set({ raceSentiment: response.data })
+        }
         return true
       } catch (error) {
-        console.error('Failed to claim payout:', error)
-        setError(error instanceof Error ? error.message : 'Failed to claim payout')
+        console.error(`❌ Failed to vote ${vote ?? 'none'} on asset ${assetIdx} in race ${raceId}:`, error)
+        if (get().raceSentiment?.raceId === raceId) {
+          set({ raceSentiment: before })
+        }
         return false
-      } finally {
-        setLoading(false)
       }
     },
 
@@ -825,18 +1245,70 @@ export const useRaceStore = create<RaceStore>()(
         odds: undefined,
         assetInfo: undefined,
         userBets: undefined,
+        globalStats: undefined,
+        raceLeaderboards: {},
         liveRaceData: undefined,
         priceUpdates: new Map(),
+        priceHistory: emptyPriceHistory(),
+        lastRaceEvent: undefined,
+        raceSentiment: undefined,
+        connectionQuality: 'polling',
         error: undefined,
         pendingRequests: {},
         lastSubscribedRaceId: undefined,
         lastFetchTime: 0,
         isLoading: false,
+        dataSource: 'api',
       }))
     },
+    // Drop everything tied to the previous environment and rebuild services against the new one
+    resetForEnvironment: () => {
+      get().clear()
+      persistKey('lastRace', null)
+      persistKey('assetInfo', null)
+      const next = createRaceDataSource()
+      set({
+        dataSourceKind: next.kind,
+        apiService: next.api,
+        wsService: next.realtime,
+        chainReader: createChainReader(),
+        oddsHistory: [],
+        previousOdds: undefined,
+      })
+    },
   }))
 )
 
+subscribeToEnvironment(() => {
+  useRaceStore.getState().resetForEnvironment()
+})
+
+// Races carry their own asset list; a race with more assets than we know about grows the registry
+useRaceStore.subscribe(
+  (s) => s.race?.assets,
+  (assets) => {
+    if (assets) registerAssets(assets)
+  },
+)
+
+// Switching the price source, or a different set of feeds, restarts the direct feed if it's live
+subscribeToPriceSource(() => {
+  if (realtimeDisposers.length > 0 || priceFeed) startPriceFeed()
+})
+subscribeToAssetRegistry(() => {
+  if (priceFeed) startPriceFeed()
+})
+
+// Every pool change is an odds point, whichever path delivered the race
+useRaceStore.subscribe(
+  (s) => s.race,
+  (race) => {
+    if (!race || !race.totalPool) return
+    const odds = race.odds?.length ? race.odds : impliedOdds(race.assetPools, race.feeBps)
+    useRaceStore.getState().setOdds(odds, poolSharesFor(race.assetPools))
+  },
+)
+
 // Helper types and functions
 export type Phase = 'commit' | 'performance' | 'settled'
 
@@ -0,0 +1,175 @@
+import { RaceState } from '@/services/backendTypes'
+import { BetHistoryRecord, importBetHistory, queryBetHistory } from '@/store/betHistory'
+import {
+  buildBetHistoryExport,
+  EXPORT_COLUMNS,
+  exportRangeBounds,
+  formatBetHistoryCsv,
+  formatUsdc,
+  toExportRow,
+} from '../betHistoryExport'
+
+// MMKV needs the native runtime; an in-memory map behaves the same for these reads and writes
+jest.mock('@/store/storage', () => {
+  const values = new Map<string, string>()
+  return {
+    storage: {
+      getString: (key: string) => values.get(key) ?? null,
+      set: (key: string, value: string) => values.set(key, value),
+      delete: (key: string) => values.delete(key),
+    },
+  }
+})
+
+const OPTIONS = {
+  assetSymbols: ['BTC', 'ETH', 'SOL'],
+  explorerUrl: (signature: string) => `https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+}
+
+const record = (overrides: Partial<BetHistoryRecord> = {}): BetHistoryRecord => ({
+  raceId: 7,
+  assetIdx: 1,
+  amount: 10_000_000,
+  potentialPayout: 25_500_000,
+  isWinner: true,
+  claimed: false,
+  raceState: RaceState.Settled,
+  raceStartTs: 1_700_000_000,
+  raceSettleTs: 1_700_000_300,
+  placedAt: 1_700_000_010,
+  feeBps: 500,
+  recordedAt: 1_700_000_500_000,
+  ...overrides,
+})
+
+describe('formatUsdc', () => {
+  it('prints exact six-decimal amounts without float noise', () => {
+    expect(formatUsdc(12_300_000)).toBe('12.300000')
+    expect(formatUsdc(1)).toBe('0.000001')
+    expect(formatUsdc(-2_500_000)).toBe('-2.500000')
+    expect(formatUsdc(0)).toBe('0.000000')
+  })
+})
+
+describe('toExportRow', () => {
+  it('fills every column', () => {
+    expect(Object.keys(toExportRow(record(), OPTIONS)).sort()).toEqual([...EXPORT_COLUMNS].sort())
+  })
+
+  it('reports payout and net P&L for a settled win', () => {
+    const row = toExportRow(record(), OPTIONS)
+    expect(row.result).toBe('won')
+    expect(row.payoutUsdc).toBe('25.500000')
+    expect(row.netPnlUsdc).toBe('15.500000')
+    expect(row.settledAt).toBe('2023-11-14T22:18:20.000Z')
+  })
+
+  it('reports the whole stake as lost for a settled loss', () => {
+    const row = toExportRow(record({ isWinner: false, potentialPayout: null }), OPTIONS)
+    expect(row.result).toBe('lost')
+    expect(row.payoutUsdc).toBe('0.000000')
+    expect(row.netPnlUsdc).toBe('-10.000000')
+  })
+
+  it('leaves P&L and settlement empty while the race is open', () => {
+    const row = toExportRow(record({ raceState: RaceState.Running, isWinner: null }), OPTIONS)
+    expect(row.result).toBe('pending')
+    expect(row.payoutUsdc).toBe('0.000000')
+    expect(row.netPnlUsdc).toBe('')
+    expect(row.settledAt).toBe('')
+  })
+
+  it('charges the stake its share of the race fee, floored', () => {
+    expect(toExportRow(record({ amount: 10_000_001, feeBps: 500 }), OPTIONS).feeShareUsdc).toBe('0.500000')
+    expect(toExportRow(record({ feeBps: 0 }), OPTIONS).feeShareUsdc).toBe('0.000000')
+    expect(toExportRow(record({ feeBps: undefined }), OPTIONS).feeShareUsdc).toBe('')
+  })
+
+  it('links the claim transaction before the placement', () => {
+    const placed = toExportRow(record({ placementSignature: 'place' }), OPTIONS)
+    expect(placed.explorerUrl).toBe(OPTIONS.explorerUrl('place'))
+    const claimed = toExportRow(record({ placementSignature: 'place', claimSignature: 'claim' }), OPTIONS)
+    expect(claimed.explorerUrl).toBe(OPTIONS.explorerUrl('claim'))
+    expect(toExportRow(record(), OPTIONS).explorerUrl).toBe('')
+  })
+
+  it('names unknown assets by index', () => {
+    expect(toExportRow(record({ assetIdx: 5 }), OPTIONS).asset).toBe('ASSET5')
+  })
+})
+
+describe('formatBetHistoryCsv', () => {
+  it('writes the header in the published column order', () => {
+    const [header] = formatBetHistoryCsv([]).split('\r\n')
+    expect(header).toBe(
+      'raceId,placedAt,settledAt,asset,result,stakeUsdc,payoutUsdc,feeShareUsdc,netPnlUsdc,claimed,placementSignature,claimSignature,explorerUrl',
+    )
+  })
+
+  it('quotes fields with delimiters, quotes or line breaks', () => {
+    const row = {
+      ...toExportRow(record(), OPTIONS),
+      asset: 'A,B',
+      placementSignature: 'say "hi"',
+      claimSignature: 'a\nb',
+    }
+    const [, line] = formatBetHistoryCsv([row]).split('\r\n')
+    expect(line).toContain(',"A,B",')
+    expect(line).toContain(',"say ""hi""",')
+    expect(line).toContain(',"a\nb",')
+  })
+
+  it('ends every line with CRLF', () => {
+    const csv = formatBetHistoryCsv([toExportRow(record(), OPTIONS)])
+    expect(csv.endsWith('\r\n')).toBe(true)
+    expect(csv.split('\r\n')).toHaveLength(3)
+  })
+})
+
+describe('buildBetHistoryExport', () => {
+  it('orders rows by race and names the file after the range', () => {
+    const records = [record({ raceId: 9 }), record({ raceId: 3 }), record({ raceId: 5 })]
+    const { filename, content } = buildBetHistoryExport(records, 'json', OPTIONS)
+    expect(filename).toBe('bet-history-races-3-9.json')
+    expect(JSON.parse(content).map((row: { raceId: string }) => row.raceId)).toEqual(['3', '5', '9'])
+  })
+})
+
+describe('date range filtering', () => {
+  // 2024-06-12 12:00 local time
+  const now = new Date(2024, 5, 12, 12).getTime()
+  const at = (date: Date) => Math.floor(date.getTime() / 1000)
+
+  beforeAll(() => {
+    importBetHistory('player', [
+      record({ raceId: 1, placedAt: at(new Date(2022, 11, 31, 23, 59)) }),
+      record({ raceId: 2, placedAt: at(new Date(2023, 0, 1, 0, 0)) }),
+      record({ raceId: 3, placedAt: at(new Date(2023, 11, 31, 23, 59, 59)) }),
+      record({ raceId: 4, placedAt: at(new Date(2024, 0, 1, 0, 0)) }),
+      record({ raceId: 5, placedAt: at(new Date(2024, 4, 1)) }),
+      record({ raceId: 6, placedAt: at(new Date(2024, 5, 1)) }),
+    ])
+  })
+
+  const raceIdsIn = (range: Parameters<typeof exportRangeBounds>[0]) =>
+    queryBetHistory('player', exportRangeBounds(range, now))
+      .map((bet) => bet.raceId)
+      .sort((a, b) => a - b)
+
+  it('keeps every bet for all time', () => {
+    expect(exportRangeBounds('all', now)).toEqual({})
+    expect(raceIdsIn('all')).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  it('bounds last year by the local calendar, inclusive at both ends', () => {
+    expect(raceIdsIn('lastYear')).toEqual([2, 3])
+  })
+
+  it('starts this year at local midnight on January 1st', () => {
+    expect(raceIdsIn('thisYear')).toEqual([4, 5, 6])
+  })
+
+  it('covers the last 30 days up to now', () => {
+    expect(raceIdsIn('last30Days')).toEqual([6])
+  })
+})
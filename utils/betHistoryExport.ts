@@ -0,0 +1,128 @@
+import { feeFor } from '@/services/payoutMath'
+import { BetHistoryRecord, betTimestamp, resultOf } from '@/store/betHistory'
+
+export type ExportFormat = 'csv' | 'json'
+export type ExportRange = 'all' | 'last30Days' | 'thisYear' | 'lastYear'
+
+export const EXPORT_RANGE_LABELS: Record<ExportRange, string> = {
+  all: 'All time',
+  last30Days: 'Last 30 days',
+  thisYear: 'This year',
+  lastYear: 'Last year',
+}
+
+// Amounts are micro-USDC on the wire and in history records
+const USDC_DECIMALS = 6
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Column order is part of the format; accounting imports depend on it
+export const EXPORT_COLUMNS = [
+  'raceId',
+  'placedAt',
+  'settledAt',
+  'asset',
+  'result',
+  'stakeUsdc',
+  'payoutUsdc',
+  'feeShareUsdc',
+  'netPnlUsdc',
+  'claimed',
+  'placementSignature',
+  'claimSignature',
+  'explorerUrl',
+] as const
+
+export type BetExportRow = Record<(typeof EXPORT_COLUMNS)[number], string>
+
+export interface BetExportOptions {
+  assetSymbols: string[]
+  // Transaction link for a signature on the active cluster
+  explorerUrl: (signature: string) => string
+}
+
+export interface BetHistoryExport {
+  filename: string
+  content: string
+}
+
+/**
+ * Inclusive [from, to] bounds in ms for a range, relative to `now` in local time.
+ * Open-ended ranges leave the bound undefined.
+ */
+export const exportRangeBounds = (range: ExportRange, now: number): { from?: number; to?: number } => {
+  const year = new Date(now).getFullYear()
+  switch (range) {
+    case 'last30Days':
+      return { from: now - 30 * DAY_MS, to: now }
+    case 'thisYear':
+      return { from: new Date(year, 0, 1).getTime(), to: now }
+    case 'lastYear':
+      return { from: new Date(year - 1, 0, 1).getTime(), to: new Date(year, 0, 1).getTime() - 1 }
+    default:
+      return {}
+  }
+}
+
+// Integer formatting so exports never carry float noise like 12.300000000000001
+export const formatUsdc = (micro: number): string => {
+  const value = Math.round(micro)
+  const sign = value < 0 ? '-' : ''
+  const abs = Math.abs(value)
+  const scale = 10 ** USDC_DECIMALS
+  return `${sign}${Math.floor(abs / scale)}.${String(abs % scale).padStart(USDC_DECIMALS, '0')}`
+}
+
+const isoOrEmpty = (ms?: number): string => (ms ? new Date(ms).toISOString() : '')
+
+export const toExportRow = (record: BetHistoryRecord, options: BetExportOptions): BetExportRow => {
+  const result = resultOf(record)
+  const payout = result === 'won' ? (record.potentialPayout ?? 0) : 0
+  // Pro-rata share of the race fee: the fee comes off the whole pool, stakes included
+  const feeShare = record.feeBps !== undefined ? Number(feeFor(record.amount, record.feeBps)) : null
+  const netPnl = result === 'pending' ? null : payout - record.amount
+  const linkedSignature = record.claimSignature || record.placementSignature
+
+  return {
+    raceId: String(record.raceId),
+    placedAt: isoOrEmpty(betTimestamp(record)),
+    settledAt: result === 'pending' ? '' : isoOrEmpty(record.raceSettleTs ? record.raceSettleTs * 1000 : undefined),
+    asset: options.assetSymbols[record.assetIdx] ?? `ASSET${record.assetIdx}`,
+    result,
+    stakeUsdc: formatUsdc(record.amount),
+    payoutUsdc: formatUsdc(payout),
+    feeShareUsdc: feeShare === null ? '' : formatUsdc(feeShare),
+    netPnlUsdc: netPnl === null ? '' : formatUsdc(netPnl),
+    claimed: record.claimed ? 'true' : 'false',
+    placementSignature: record.placementSignature ?? '',
+    claimSignature: record.claimSignature ?? '',
+    explorerUrl: linkedSignature ? options.explorerUrl(linkedSignature) : '',
+  }
+}
+
+// RFC 4180: quote fields containing a delimiter, quote or line break, doubling inner quotes
+const escapeCsv = (field: string): string => (/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)
+
+export const formatBetHistoryCsv = (rows: BetExportRow[]): string =>
+  [EXPORT_COLUMNS.join(','), ...rows.map((row) => EXPORT_COLUMNS.map((column) => escapeCsv(row[column])).join(','))]
+    .join('\r\n')
+    .concat('\r\n')
+
+export const formatBetHistoryJson = (rows: BetExportRow[]): string => `${JSON.stringify(rows, null, 2)}\n`
+
+/**
+ * Renders records oldest race first regardless of how they were sorted on
+ * screen, so the same history always exports byte-for-byte the same.
+ */
+export const buildBetHistoryExport = (
+  records: BetHistoryRecord[],
+  format: ExportFormat,
+  options: BetExportOptions,
+): BetHistoryExport => {
+  const rows = [...records].sort((a, b) => a.raceId - b.raceId).map((record) => toExportRow(record, options))
+  const first = rows[0]?.raceId ?? '0'
+  const last = rows[rows.length - 1]?.raceId ?? '0'
+  return {
+    filename: `bet-history-races-${first}-${last}.${format}`,
+    content: format === 'csv' ? formatBetHistoryCsv(rows) : formatBetHistoryJson(rows),
+  }
+}
@@ -0,0 +1,147 @@
+import { BetHistoryRecord, betTimestamp, resultOf } from '@/store/betHistory'
+
+// All amounts are micro-USDC, matching bet history records
+
+export interface PnlPoint {
+  raceId: number
+  timestamp: number
+  pnl: number
+  cumulativePnl: number
+}
+
+export interface AssetPerformance {
+  assetIdx: number
+  bets: number
+  wins: number
+  winRate: number // percent
+  wagered: number
+  returned: number
+  netPnl: number
+  roi: number | null // percent of wagered
+}
+
+export interface StreakSummary {
+  longestWin: number
+  longestLoss: number
+  current: { result: 'won' | 'lost'; length: number } | null
+}
+
+export interface Drawdown {
+  amount: number
+  // Races bounding the worst peak-to-trough stretch of cumulative P&L
+  peakRaceId?: number
+  troughRaceId?: number
+}
+
+export interface PortfolioAnalytics {
+  settledBets: number
+  wins: number
+  losses: number
+  totalWagered: number
+  totalReturned: number
+  netPnl: number
+  roi: number | null // percent of wagered
+  winRate: number // percent
+  // Mean payout multiple on winning bets, i.e. the odds actually realised
+  averageOdds: number | null
+  streaks: StreakSummary
+  maxDrawdown: Drawdown
+  pnlSeries: PnlPoint[]
+  byAsset: AssetPerformance[]
+}
+
+const percent = (part: number, whole: number): number | null => (whole > 0 ? (part / whole) * 100 : null)
+
+/**
+ * Portfolio metrics over settled bets, taken in the order they were placed.
+ * Open races are ignored until they settle, since their outcome isn't known.
+ */
+export const computePortfolioAnalytics = (records: BetHistoryRecord[]): PortfolioAnalytics => {
+  const settled = records
+    .filter((record) => resultOf(record) !== 'pending')
+    .sort((a, b) => betTimestamp(a) - betTimestamp(b) || a.raceId - b.raceId)
+
+  const pnlSeries: PnlPoint[] = []
+  const assets = new Map<number, AssetPerformance>()
+  const streaks: StreakSummary = { longestWin: 0, longestLoss: 0, current: null }
+  const maxDrawdown: Drawdown = { amount: 0 }
+  let cumulativePnl = 0
+  let peak = 0
+  let peakRaceId: number | undefined
+  let totalWagered = 0
+  let totalReturned = 0
+  let wins = 0
+  let oddsSum = 0
+
+  settled.forEach((record) => {
+    const won = resultOf(record) === 'won'
+    const returned = won ? (record.potentialPayout ?? 0) : 0
+    const pnl = returned - record.amount
+
+    totalWagered += record.amount
+    totalReturned += returned
+    if (won) {
+      wins++
+      if (record.amount > 0) oddsSum += returned / record.amount
+    }
+
+    cumulativePnl += pnl
+    pnlSeries.push({ raceId: record.raceId, timestamp: betTimestamp(record), pnl, cumulativePnl })
+
+    if (cumulativePnl > peak) {
+      peak = cumulativePnl
+      peakRaceId = record.raceId
+    } else if (peak - cumulativePnl > maxDrawdown.amount) {
+      maxDrawdown.amount = peak - cumulativePnl
+      maxDrawdown.peakRaceId = peakRaceId
+      maxDrawdown.troughRaceId = record.raceId
+    }
+
+    const result = won ? 'won' : 'lost'
+    streaks.current =
+      streaks.current?.result === result ? { result, length: streaks.current.length + 1 } : { result, length: 1 }
+    if (won) streaks.longestWin = Math.max(streaks.longestWin, streaks.current.length)
+    else streaks.longestLoss = Math.max(streaks.longestLoss, streaks.current.length)
+
+    const asset = assets.get(record.assetIdx) ?? {
+      assetIdx: record.assetIdx,
+      bets: 0,
+      wins: 0,
+      winRate: 0,
+      wagered: 0,
+      returned: 0,
+      netPnl: 0,
+      roi: null,
+    }
+    asset.bets++
+    if (won) asset.wins++
+    asset.wagered += record.amount
+    asset.returned += returned
+    asset.netPnl += pnl
+    assets.set(record.assetIdx, asset)
+  })
+
+  const byAsset = Array.from(assets.values())
+    .map((asset) => ({
+      ...asset,
+      winRate: percent(asset.wins, asset.bets) ?? 0,
+      roi: percent(asset.netPnl, asset.wagered),
+    }))
+    .sort((a, b) => a.assetIdx - b.assetIdx)
+
+  return {
+    settledBets: settled.length,
+    wins,
+    losses: settled.length - wins,
+    totalWagered,
+    totalReturned,
+    netPnl: cumulativePnl,
+    roi: percent(cumulativePnl, totalWagered),
+    winRate: percent(wins, settled.length) ?? 0,
+    averageOdds: wins > 0 ? oddsSum / wins : null,
+    streaks,
+    maxDrawdown,
+    pnlSeries,
+    byAsset,
+  }
+}